@@ -1,13 +1,16 @@
 import { Link } from "react-router-dom";
+import { useLocalizePath, useT } from "./context/i18n-context";
 import styles from "./$.module.css";
 
 const NotFound = () => {
+  const t = useT();
+  const localizePath = useLocalizePath();
   return (
     <div className={styles.container}>
-      <h1>404 - Page Not Found</h1>
-      <p>Sorry, the page you're looking for doesn't exist or has been moved.</p>
-      <Link to="/" className={styles.link}>
-        Go back home
+      <h1>{t("notFound.title")}</h1>
+      <p>{t("notFound.description")}</p>
+      <Link to={localizePath("/")} className={styles.link}>
+        {t("notFound.home")}
       </Link>
     </div>
   );
@@ -1,60 +1,191 @@
-import * as Select from "@radix-ui/react-select";
-import { ChevronDownIcon } from "@radix-ui/react-icons";
+import {
+  useEffect,
+  useId,
+  useState,
+  type ChangeEvent,
+  type KeyboardEvent,
+} from "react";
+import { MagnifyingGlassIcon } from "@radix-ui/react-icons";
+import { cityKey, type City, type CityCollection } from "../schemas/city";
+import { useT } from "../context/i18n-context";
 import styles from "./city-selector.module.css";
 
-interface City {
-  name: string;
-  country: string;
-  latitude: number;
-  longitude: number;
-  population: number;
-}
+const SUGGESTION_LIMIT = 8;
+// Wait for a pause in typing before asking the API
+const SEARCH_DELAY_MS = 150;
 
 interface CitySelectorProps {
+  // "Name, Country" of the selected city
   value: string;
+  // Called with "Name,Country" of the picked city
   onValueChange: (city: string) => void;
-  cities: City[];
 }
 
-export function CitySelector({
-  value,
-  onValueChange,
-  cities,
-}: CitySelectorProps) {
-  const displayValue = value
-    ? `${value.split(",")[0]}, ${value.split(",")[1]}`
-    : "";
+// Combobox searching /api/cities as you type. Arrow keys move through the
+// suggestions, Enter picks one and Escape restores the selected city.
+export function CitySelector({ value, onValueChange }: CitySelectorProps) {
+  const id = useId();
+  const t = useT();
+  const listboxId = `${id}-listbox`;
+  const [text, setText] = useState(value);
+  const [open, setOpen] = useState(false);
+  const [cities, setCities] = useState<City[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  useEffect(() => setText(value), [value]);
+
+  // The selected city's own text lists the largest cities instead
+  const query = text === value ? "" : text.trim();
+
+  useEffect(() => {
+    if (!open) return;
+    const controller = new AbortController();
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({
+          q: query,
+          limit: String(SUGGESTION_LIMIT),
+        });
+        const response = await fetch(`/api/cities?${params}`, {
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(
+            `Failed to search cities (Status: ${response.status})`
+          );
+        }
+        const { cities }: CityCollection = await response.json();
+        setCities(cities);
+        setActiveIndex(cities.length > 0 ? 0 : -1);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Error searching cities:", error);
+        setCities([]);
+        setActiveIndex(-1);
+      }
+      setLoading(false);
+    }, SEARCH_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [open, query]);
+
+  const close = () => {
+    setOpen(false);
+    setActiveIndex(-1);
+    setText(value);
+  };
+
+  const pick = (city: City) => {
+    setOpen(false);
+    setActiveIndex(-1);
+    setText(`${city.name}, ${city.country}`);
+    onValueChange(cityKey(city));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        if (!open) setOpen(true);
+        else setActiveIndex((index) => Math.min(index + 1, cities.length - 1));
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        if (cities.length === 0) break;
+        setActiveIndex((index) => Math.max(index - 1, 0));
+        break;
+      case "Home":
+        if (!open || cities.length === 0) break;
+        e.preventDefault();
+        setActiveIndex(0);
+        break;
+      case "End":
+        if (!open || cities.length === 0) break;
+        e.preventDefault();
+        setActiveIndex(cities.length - 1);
+        break;
+      case "Enter":
+        if (!open || activeIndex < 0) break;
+        e.preventDefault();
+        pick(cities[activeIndex]);
+        break;
+      case "Escape":
+        if (!open) break;
+        e.preventDefault();
+        close();
+        break;
+    }
+  };
+
+  const optionId = (index: number) => `${id}-option-${index}`;
 
   return (
-    <Select.Root value={value} onValueChange={onValueChange}>
-      <Select.Trigger className={styles.trigger}>
-        <Select.Value asChild>
-          <span className={styles.value}>
-            {displayValue || "Select city..."}
-          </span>
-        </Select.Value>
-        <Select.Icon className={styles.icon}>
-          <ChevronDownIcon />
-        </Select.Icon>
-      </Select.Trigger>
-
-      <Select.Portal>
-        <Select.Content className={styles.content} position="popper">
-          <Select.Viewport className={styles.viewport}>
-            {cities.map((city) => (
-              <Select.Item
-                key={`${city.name}-${city.country}`}
-                value={`${city.name},${city.country}`}
-                className={styles.item}
-              >
-                <Select.ItemText>
-                  {city.name}, {city.country}
-                </Select.ItemText>
-              </Select.Item>
-            ))}
-          </Select.Viewport>
-        </Select.Content>
-      </Select.Portal>
-    </Select.Root>
+    <div className={styles.combobox}>
+      <div className={styles.trigger}>
+        <MagnifyingGlassIcon className={styles.icon} aria-hidden />
+        <input
+          type="text"
+          className={styles.input}
+          role="combobox"
+          aria-label={t("citySelector.label")}
+          aria-autocomplete="list"
+          aria-expanded={open}
+          aria-controls={listboxId}
+          aria-activedescendant={
+            open && activeIndex >= 0 ? optionId(activeIndex) : undefined
+          }
+          autoComplete="off"
+          spellCheck={false}
+          placeholder={t("citySelector.placeholder")}
+          value={text}
+          onChange={(e: ChangeEvent<HTMLInputElement>) => {
+            setText(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={(e) => {
+            e.target.select();
+            setOpen(true);
+          }}
+          onBlur={close}
+          onKeyDown={handleKeyDown}
+        />
+      </div>
+
+      {open && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          aria-label={t("citySelector.options")}
+          className={styles.content}
+        >
+          {cities.map((city, index) => (
+            <li
+              key={cityKey(city)}
+              id={optionId(index)}
+              role="option"
+              aria-selected={index === activeIndex}
+              data-highlighted={index === activeIndex ? "" : undefined}
+              className={styles.item}
+              // Keep focus in the input so blur does not close the list first
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => pick(city)}
+            >
+              {city.name}
+              <span className={styles.country}>{city.country}</span>
+            </li>
+          ))}
+          {!loading && cities.length === 0 && (
+            <li className={styles.empty} role="presentation">
+              {t("citySelector.empty")}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
   );
 }
@@ -1,35 +1,43 @@
 import { Link } from "react-router";
+import { useLocalizePath, useT } from "../context/i18n-context";
 import styles from "./hero.module.css";
 
 export function Hero() {
+  const t = useT();
+  const localizePath = useLocalizePath();
+
   return (
     <section className={styles.hero}>
       <div className={styles.heroContent}>
-        <h1 className={styles.heroTitle}>Full-Stack Demo Application</h1>
-        <p className={styles.heroSubtitle}>
-          A production-ready showcase of modern web development practices that could be used in your products
-        </p>
-        <p className={styles.heroDescription}>
-          Experience the power of edge computing with React Router 7, Cloudflare
-          Workers, and cutting-edge web technologies. Built for speed,
-          scalability, and developer experience.
-        </p>
+        <h1 className={styles.heroTitle}>{t("home.title")}</h1>
+        <p className={styles.heroSubtitle}>{t("home.subtitle")}</p>
+        <p className={styles.heroDescription}>{t("home.description")}</p>
         <div className={styles.heroActions}>
-          <Link to="/todos" className={styles.heroPrimaryButton}>
-            View TodoList
+          <Link
+            to={localizePath("/todos")}
+            className={styles.heroPrimaryButton}
+          >
+            {t("home.viewTodos")}
           </Link>
-          <Link to="/weather" className={styles.heroSecondaryButton}>
-            View Weather
+          <Link
+            to={localizePath("/weather")}
+            className={styles.heroSecondaryButton}
+          >
+            {t("home.viewWeather")}
           </Link>
         </div>
         <div className={styles.heroStats}>
           <div className={styles.heroStat}>
             <div className={styles.heroStatValue}>{"<50ms"}</div>
-            <div className={styles.heroStatLabel}>Response Time</div>
+            <div className={styles.heroStatLabel}>
+              {t("home.stats.responseTime")}
+            </div>
           </div>
           <div className={styles.heroStat}>
             <div className={styles.heroStatValue}>300+</div>
-            <div className={styles.heroStatLabel}>Edge Locations</div>
+            <div className={styles.heroStatLabel}>
+              {t("home.stats.edgeLocations")}
+            </div>
           </div>
           <div className={styles.heroStat}>
             <div className={styles.heroStatValue}>100%</div>
@@ -0,0 +1,288 @@
+import { useId, type Ref } from "react";
+import type { WeatherData } from "../schemas/weather";
+import { formatCityDate, formatCityHour } from "../lib/weather";
+import { useT } from "../context/i18n-context";
+import styles from "./hourly-timeline.module.css";
+
+export const TIMELINE_HOURS = 48;
+
+const HOUR_WIDTH = 36;
+const CHART_HEIGHT = 90;
+// Room above the line for value labels and below it for the last point
+const CHART_PADDING_TOP = 22;
+const CHART_PADDING_BOTTOM = 8;
+const AXIS_HEIGHT = 36;
+// Values and hour labels are shown for every third hour
+const LABEL_EVERY = 3;
+
+type Hourly = WeatherData["hourly"];
+
+// Open-Meteo times are local to the city ("2026-10-19T14:00"), so they are
+// read as text rather than as dates in the browser's time zone
+const hourOf = (time: string) => Number(time.slice(11, 13));
+const dateOf = (time: string) => time.slice(0, 10);
+
+const xOf = (index: number) => index * HOUR_WIDTH + HOUR_WIDTH / 2;
+
+interface ChartProps {
+  title: string;
+  unit: string;
+  values: number[];
+  times: string[];
+  highlightDate?: string;
+  // Fixed range, e.g. 0-100 for percentages; otherwise the values' own range
+  domain?: [number, number];
+  format: (value: number) => string;
+  color: string;
+}
+
+function Chart({
+  title,
+  unit,
+  values,
+  times,
+  highlightDate,
+  domain,
+  format,
+  color,
+}: ChartProps) {
+  const titleId = useId();
+  const t = useT();
+  const width = values.length * HOUR_WIDTH;
+  const [min, max] = domain ?? [Math.min(...values), Math.max(...values)];
+  const plotHeight = CHART_HEIGHT - CHART_PADDING_TOP - CHART_PADDING_BOTTOM;
+  const yOf = (value: number) =>
+    CHART_PADDING_TOP +
+    (max === min ? plotHeight / 2 : ((max - value) / (max - min)) * plotHeight);
+  const path = values
+    .map(
+      (value, index) => `${index === 0 ? "M" : "L"}${xOf(index)} ${yOf(value)}`
+    )
+    .join(" ");
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+
+  return (
+    <svg
+      className={styles.chart}
+      width={width}
+      height={CHART_HEIGHT}
+      viewBox={`0 0 ${width} ${CHART_HEIGHT}`}
+      role="img"
+      aria-labelledby={titleId}
+      style={{ color }}
+    >
+      <title id={titleId}>
+        {t("timeline.chartTitle", {
+          title,
+          low: `${Math.round(low)}${unit}`,
+          high: `${Math.round(high)}${unit}`,
+        })}
+      </title>
+      {times.map((time, index) =>
+        dateOf(time) === highlightDate ? (
+          <rect
+            key={time}
+            className={styles.highlight}
+            x={index * HOUR_WIDTH}
+            y={0}
+            width={HOUR_WIDTH}
+            height={CHART_HEIGHT}
+          />
+        ) : null
+      )}
+      {times.map((time, index) =>
+        index > 0 && hourOf(time) === 0 ? (
+          <line
+            key={time}
+            className={styles.midnight}
+            x1={index * HOUR_WIDTH}
+            x2={index * HOUR_WIDTH}
+            y1={0}
+            y2={CHART_HEIGHT}
+          />
+        ) : null
+      )}
+      <path className={styles.line} d={path} />
+      {values.map((value, index) =>
+        index % LABEL_EVERY === 0 ? (
+          <g key={times[index]}>
+            <circle
+              className={styles.point}
+              cx={xOf(index)}
+              cy={yOf(value)}
+              r={3}
+            />
+            <text
+              className={styles.value}
+              x={xOf(index)}
+              y={yOf(value) - 8}
+              textAnchor="middle"
+            >
+              {format(value)}
+            </text>
+          </g>
+        ) : null
+      )}
+    </svg>
+  );
+}
+
+function TimeAxis({ times, locale }: { times: string[]; locale: string }) {
+  const width = times.length * HOUR_WIDTH;
+  return (
+    <svg
+      className={styles.axis}
+      width={width}
+      height={AXIS_HEIGHT}
+      viewBox={`0 0 ${width} ${AXIS_HEIGHT}`}
+      aria-hidden
+    >
+      {times.map((time, index) => (
+        <g key={time}>
+          {(index === 0 || hourOf(time) === 0) && (
+            <text className={styles.day} x={index * HOUR_WIDTH + 4} y={14}>
+              {formatCityDate(time, locale)}
+            </text>
+          )}
+          {index % LABEL_EVERY === 0 && (
+            <text
+              className={styles.hour}
+              x={xOf(index)}
+              y={30}
+              textAnchor="middle"
+            >
+              {formatCityHour(time, locale)}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+interface HourlyTimelineProps {
+  hourly: Hourly;
+  // Index into hourly of the first hour shown
+  start: number;
+  // Date whose hours are shaded, e.g. the picked forecast day
+  highlightDate?: string;
+  temperatureSymbol: string;
+  windSpeedSymbol: string;
+  // Visitor's locale for the hour and day labels
+  locale: string;
+  // The scrollable charts, focused when the shown day changes
+  scrollerRef?: Ref<HTMLDivElement>;
+}
+
+// Temperature, humidity and wind for the next 48 hours as SVG charts sharing
+// one horizontally scrolling time axis, with the numbers also as a table
+export function HourlyTimeline({
+  hourly,
+  start,
+  highlightDate,
+  temperatureSymbol,
+  windSpeedSymbol,
+  locale,
+  scrollerRef,
+}: HourlyTimelineProps) {
+  const end = start + TIMELINE_HOURS;
+  const times = hourly.time.slice(start, end);
+  const temperatures = hourly.temperature_2m.slice(start, end);
+  // Not reported for every location; the chart is left out and the table
+  // shows a dash
+  const humidities = hourly.relative_humidity_2m?.slice(start, end);
+  const windSpeeds = hourly.wind_speed_10m.slice(start, end);
+  const t = useT();
+  if (times.length === 0) return null;
+
+  const label = (time: string) =>
+    `${formatCityDate(time, locale)} ${formatCityHour(time, locale)}`;
+  const range = t("timeline.range", {
+    from: label(times[0]),
+    to: label(times[times.length - 1]),
+  });
+
+  return (
+    <div className={styles.timeline}>
+      <div className={styles.charts}>
+        <div className={styles.labels} aria-hidden>
+          <span style={{ height: AXIS_HEIGHT }} />
+          <span style={{ height: CHART_HEIGHT }}>{temperatureSymbol}</span>
+          {humidities && <span style={{ height: CHART_HEIGHT }}>%</span>}
+          <span style={{ height: CHART_HEIGHT }}>{windSpeedSymbol}</span>
+        </div>
+        <div
+          ref={scrollerRef}
+          className={styles.scroller}
+          tabIndex={0}
+          role="group"
+          aria-label={t("timeline.charts", { range })}
+        >
+          <TimeAxis times={times} locale={locale} />
+          <Chart
+            title={t("timeline.temperature")}
+            unit={temperatureSymbol}
+            values={temperatures}
+            times={times}
+            highlightDate={highlightDate}
+            format={(value) => `${Math.round(value)}°`}
+            color="var(--orange-9)"
+          />
+          {humidities && (
+            <Chart
+              title={t("timeline.humidity")}
+              unit="%"
+              values={humidities}
+              times={times}
+              highlightDate={highlightDate}
+              domain={[0, 100]}
+              format={(value) => `${Math.round(value)}%`}
+              color="var(--blue-9)"
+            />
+          )}
+          <Chart
+            title={t("timeline.windSpeed")}
+            unit={` ${windSpeedSymbol}`}
+            values={windSpeeds}
+            times={times}
+            highlightDate={highlightDate}
+            format={(value) => `${Math.round(value)}`}
+            color="var(--teal-9)"
+          />
+        </div>
+      </div>
+
+      <details className={styles.tableDetails}>
+        <summary>{t("timeline.showTable")}</summary>
+        <div className={styles.tableScroller}>
+          <table className={styles.table}>
+            <caption>{t("timeline.caption", { range })}</caption>
+            <thead>
+              <tr>
+                <th scope="col">{t("timeline.time")}</th>
+                <th scope="col">
+                  {t("timeline.temperatureColumn", { unit: temperatureSymbol })}
+                </th>
+                <th scope="col">{t("timeline.humidityColumn")}</th>
+                <th scope="col">
+                  {t("timeline.windColumn", { unit: windSpeedSymbol })}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {times.map((time, index) => (
+                <tr key={time}>
+                  <th scope="row">{label(time)}</th>
+                  <td>{temperatures[index].toFixed(1)}</td>
+                  <td>{humidities?.[index] ?? "—"}</td>
+                  <td>{windSpeeds[index].toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { Form, useLocation } from "react-router";
+import { useLocale, useT } from "../context/i18n-context";
+import { LOCALES, LOCALE_NAMES } from "../lib/i18n";
+import styles from "./language-switcher.module.css";
+
+// One button per language, so switching works before hydration too; the
+// /locale action stores the choice in a cookie and comes back to this page
+export function LanguageSwitcher() {
+  const t = useT();
+  const locale = useLocale();
+  const location = useLocation();
+
+  return (
+    <Form
+      method="post"
+      action="/locale"
+      className={styles.languageSwitcher}
+      aria-label={t("language.label")}
+    >
+      <input
+        type="hidden"
+        name="redirectTo"
+        value={`${location.pathname}${location.search}`}
+      />
+      {LOCALES.map((value) => (
+        <button
+          key={value}
+          type="submit"
+          name="locale"
+          value={value}
+          lang={value}
+          className={styles.option}
+          aria-pressed={value === locale}
+          title={LOCALE_NAMES[value]}
+        >
+          {value.toUpperCase()}
+        </button>
+      ))}
+    </Form>
+  );
+}
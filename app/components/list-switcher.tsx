@@ -0,0 +1,126 @@
+import { useState, type ChangeEvent, type FormEvent } from "react";
+import * as Select from "@radix-ui/react-select";
+import { ChevronDownIcon, PlusIcon, TrashIcon } from "@radix-ui/react-icons";
+import { Button, IconButton, TextField } from "@radix-ui/themes";
+import { useT } from "../context/i18n-context";
+import styles from "./list-switcher.module.css";
+
+interface TodoList {
+  id: string;
+  name: string;
+}
+
+interface ListSwitcherProps {
+  lists: TodoList[];
+  value: string;
+  onValueChange: (listId: string) => void;
+  onCreate: (name: string) => void;
+  onDelete?: () => void;
+  disabled?: boolean;
+}
+
+export function ListSwitcher({
+  lists,
+  value,
+  onValueChange,
+  onCreate,
+  onDelete,
+  disabled,
+}: ListSwitcherProps) {
+  const [creating, setCreating] = useState(false);
+  const [newListName, setNewListName] = useState("");
+  const t = useT();
+
+  const handleCreate = (e: FormEvent) => {
+    e.preventDefault();
+    if (!newListName.trim()) return;
+    onCreate(newListName.trim());
+    setNewListName("");
+    setCreating(false);
+  };
+
+  if (creating) {
+    return (
+      <form className={styles.switcher} onSubmit={handleCreate}>
+        <TextField.Root
+          value={newListName}
+          onChange={(e: ChangeEvent<HTMLInputElement>) =>
+            setNewListName(e.target.value)
+          }
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setCreating(false);
+          }}
+          placeholder={t("lists.namePlaceholder")}
+          aria-label={t("lists.nameLabel")}
+          autoFocus
+        />
+        <Button type="submit" disabled={disabled || !newListName.trim()}>
+          {t("lists.create")}
+        </Button>
+        <Button
+          type="button"
+          variant="soft"
+          color="gray"
+          onClick={() => setCreating(false)}
+        >
+          {t("common.cancel")}
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div className={styles.switcher}>
+      <Select.Root
+        value={value}
+        onValueChange={onValueChange}
+        disabled={disabled}
+      >
+        <Select.Trigger
+          className={styles.trigger}
+          aria-label={t("lists.label")}
+        >
+          <Select.Value />
+          <Select.Icon className={styles.icon}>
+            <ChevronDownIcon />
+          </Select.Icon>
+        </Select.Trigger>
+
+        <Select.Portal>
+          <Select.Content className={styles.content} position="popper">
+            <Select.Viewport className={styles.viewport}>
+              {lists.map((list) => (
+                <Select.Item
+                  key={list.id}
+                  value={list.id}
+                  className={styles.item}
+                >
+                  <Select.ItemText>{list.name}</Select.ItemText>
+                </Select.Item>
+              ))}
+            </Select.Viewport>
+          </Select.Content>
+        </Select.Portal>
+      </Select.Root>
+      <IconButton
+        variant="soft"
+        onClick={() => setCreating(true)}
+        disabled={disabled}
+        aria-label={t("lists.new")}
+      >
+        <PlusIcon />
+      </IconButton>
+      {onDelete && (
+        <IconButton
+          variant="soft"
+          color="red"
+          onClick={onDelete}
+          disabled={disabled}
+          aria-label={t("lists.delete")}
+        >
+          <TrashIcon />
+        </IconButton>
+      )}
+    </div>
+  );
+}
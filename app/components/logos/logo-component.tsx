@@ -1,14 +1,14 @@
 import type { FC } from "react";
 import styles from "./logo.module.css";
-import { useThemeContext } from "@radix-ui/themes";
+import { useTheme } from "../../context/theme-context";
 
 export const Logo: FC = () => {
-  const theme = useThemeContext();
+  const { appearance } = useTheme();
 
   return (
     <figure className={styles.logoContainer}>
       <img
-        src={`/assets/logos/logo-${theme.appearance}.svg`}
+        src={`/assets/logos/logo-${appearance}.svg`}
         alt="React Router Logo"
         className={styles.logo}
       />
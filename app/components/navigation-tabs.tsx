@@ -3,6 +3,8 @@ import { useRef } from "react";
 import * as Tabs from "@radix-ui/react-tabs";
 import styles from "./navigation-tabs.module.css";
 import { Logo } from "./logo";
+import { useLocalizePath, useT } from "../context/i18n-context";
+import { stripLocale } from "../lib/i18n";
 
 export function NavigationTabs() {
   const location = useLocation();
@@ -10,13 +12,17 @@ export function NavigationTabs() {
   const navigation = useNavigation();
   const isNavigating = navigation.state === "loading";
   const isNavigatingRef = useRef(false);
+  const t = useT();
+  const localizePath = useLocalizePath();
+  // Nested pages such as /todos/:listId keep their top-level tab selected
+  const activeTab = `/${stripLocale(location.pathname).split("/")[1]}`;
 
   const handleTabChange = (value: string) => {
     // Prevent double navigation
     if (isNavigatingRef.current) return;
     isNavigatingRef.current = true;
 
-    navigate(value);
+    navigate(localizePath(value));
 
     // Reset the flag after navigation starts
     setTimeout(() => {
@@ -29,10 +35,10 @@ export function NavigationTabs() {
       <nav className={styles.navigationContainer}>
         <Tabs.Root
           className={styles.tabsRoot}
-          value={location.pathname}
+          value={activeTab}
           onValueChange={handleTabChange}
         >
-          <Tabs.List className={styles.tabsList} aria-label="Main navigation">
+          <Tabs.List className={styles.tabsList} aria-label={t("nav.label")}>
             <Tabs.Trigger
               className={`${styles.tabsTrigger} ${styles.tabHome}`}
               value="/"
@@ -40,10 +46,10 @@ export function NavigationTabs() {
               <Logo />
             </Tabs.Trigger>
             <Tabs.Trigger className={styles.tabsTrigger} value="/todos">
-              Todo List
+              {t("nav.todos")}
             </Tabs.Trigger>
             <Tabs.Trigger className={styles.tabsTrigger} value="/weather">
-              Weather
+              {t("nav.weather")}
             </Tabs.Trigger>
           </Tabs.List>
         </Tabs.Root>
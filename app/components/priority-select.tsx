@@ -0,0 +1,90 @@
+import * as Select from "@radix-ui/react-select";
+import { ChevronDownIcon } from "@radix-ui/react-icons";
+import { TODO_PRIORITY_LABELS, type TodoPriority } from "../schemas/todo";
+import { useT } from "../context/i18n-context";
+import { useHydrated } from "../lib/hydration";
+import styles from "./priority-select.module.css";
+
+interface PrioritySelectProps {
+  value: TodoPriority;
+  onValueChange: (priority: TodoPriority) => void;
+  label: string;
+  disabled?: boolean;
+  // Set when the select belongs to a form that posts the priority itself
+  name?: string;
+}
+
+const priorities = Object.keys(TODO_PRIORITY_LABELS).map(
+  Number
+) as TodoPriority[];
+
+// Compact priority picker shown as a colored badge
+export function PrioritySelect({
+  value,
+  onValueChange,
+  label,
+  disabled,
+  name,
+}: PrioritySelectProps) {
+  const t = useT();
+  const hydrated = useHydrated();
+
+  // Without JavaScript a native select, which posts the picked priority
+  // with its form
+  if (!hydrated) {
+    return (
+      <select
+        name={name}
+        defaultValue={value}
+        disabled={disabled}
+        aria-label={label}
+        className={styles.trigger}
+        data-priority={value}
+      >
+        {priorities.map((priority) => (
+          <option key={priority} value={priority}>
+            {t(`priority.${priority}`)}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <Select.Root
+      value={String(value)}
+      onValueChange={(priority) =>
+        onValueChange(Number(priority) as TodoPriority)
+      }
+      disabled={disabled}
+      name={name}
+    >
+      <Select.Trigger
+        className={styles.trigger}
+        data-priority={value}
+        aria-label={label}
+      >
+        <Select.Value />
+        <Select.Icon className={styles.icon}>
+          <ChevronDownIcon />
+        </Select.Icon>
+      </Select.Trigger>
+      <Select.Portal>
+        <Select.Content className={styles.content} position="popper">
+          <Select.Viewport className={styles.viewport}>
+            {priorities.map((priority) => (
+              <Select.Item
+                key={priority}
+                value={String(priority)}
+                className={styles.item}
+                data-priority={priority}
+              >
+                <Select.ItemText>{t(`priority.${priority}`)}</Select.ItemText>
+              </Select.Item>
+            ))}
+          </Select.Viewport>
+        </Select.Content>
+      </Select.Portal>
+    </Select.Root>
+  );
+}
@@ -1,38 +1,70 @@
-import { useState, useEffect } from "react";
+import { DropdownMenu } from "@radix-ui/themes";
+import { useT } from "../context/i18n-context";
+import { useTheme } from "../context/theme-context";
+import { ACCENT_COLORS, THEME_MODES, type ThemeMode } from "../lib/theme";
 import styles from "./theme-toggle.module.css";
 
-export function ThemeToggle() {
-  const [theme, setTheme] = useState<"light" | "dark">("dark");
-
-  useEffect(() => {
-    // Get theme from localStorage or default to dark
-    const savedTheme = localStorage.getItem("theme") as "light" | "dark" | null;
-    if (savedTheme) {
-      setTheme(savedTheme);
-    }
-  }, []);
+const MODE_ICONS: Record<ThemeMode, string> = {
+  system: "🖥️",
+  light: "☀️",
+  dark: "🌙",
+};
 
-  const toggleTheme = () => {
-    const newTheme = theme === "dark" ? "light" : "dark";
-    setTheme(newTheme);
-    localStorage.setItem("theme", newTheme);
-
-    // Dispatch custom event to notify root component
-    window.dispatchEvent(new CustomEvent("themechange", { detail: newTheme }));
-  };
+// Menu for the colour mode, high contrast and the accent colour; every
+// change goes through the theme context, which saves it in a cookie
+export function ThemeToggle() {
+  const { theme, setTheme } = useTheme();
+  const t = useT();
+  const label = t("theme.label");
 
   return (
-    <button
-      className={styles.themeToggle}
-      onClick={toggleTheme}
-      aria-label={`Switch to ${theme === "dark" ? "light" : "dark"} mode`}
-      title={`Switch to ${theme === "dark" ? "light" : "dark"} mode`}
-    >
-      {theme === "dark" ? (
-        <span className={styles.icon}>🌙</span>
-      ) : (
-        <span className={styles.icon}>☀️</span>
-      )}
-    </button>
+    <DropdownMenu.Root>
+      <DropdownMenu.Trigger>
+        <button className={styles.themeToggle} aria-label={label} title={label}>
+          <span className={styles.icon}>{MODE_ICONS[theme.mode]}</span>
+        </button>
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Content align="end">
+        <DropdownMenu.Label>{t("theme.mode")}</DropdownMenu.Label>
+        <DropdownMenu.RadioGroup
+          value={theme.mode}
+          onValueChange={(mode) => setTheme({ mode: mode as ThemeMode })}
+        >
+          {THEME_MODES.map((mode) => (
+            <DropdownMenu.RadioItem key={mode} value={mode}>
+              {MODE_ICONS[mode]} {t(`theme.mode.${mode}`)}
+            </DropdownMenu.RadioItem>
+          ))}
+        </DropdownMenu.RadioGroup>
+        <DropdownMenu.Separator />
+        <DropdownMenu.CheckboxItem
+          checked={theme.contrast === "high"}
+          onCheckedChange={(checked) =>
+            setTheme({ contrast: checked ? "high" : "normal" })
+          }
+        >
+          {t("theme.highContrast")}
+        </DropdownMenu.CheckboxItem>
+        <DropdownMenu.Separator />
+        <DropdownMenu.Label>{t("theme.accent")}</DropdownMenu.Label>
+        <DropdownMenu.RadioGroup
+          value={theme.accent}
+          onValueChange={(accent) =>
+            setTheme({ accent: accent as (typeof ACCENT_COLORS)[number] })
+          }
+        >
+          {ACCENT_COLORS.map((accent) => (
+            <DropdownMenu.RadioItem key={accent} value={accent}>
+              <span
+                className={styles.swatch}
+                style={{ backgroundColor: `var(--${accent}-9)` }}
+                aria-hidden="true"
+              />
+              {t(`theme.accent.${accent}`)}
+            </DropdownMenu.RadioItem>
+          ))}
+        </DropdownMenu.RadioGroup>
+      </DropdownMenu.Content>
+    </DropdownMenu.Root>
   );
 }
@@ -1,53 +1,114 @@
 import * as ToastPrimitive from "@radix-ui/react-toast";
-import { useToast } from "../context/toast-context";
-import { useEffect, useState } from "react";
+import {
+  CheckCircledIcon,
+  Cross2Icon,
+  CrossCircledIcon,
+  ExclamationTriangleIcon,
+  InfoCircledIcon,
+  UpdateIcon,
+} from "@radix-ui/react-icons";
+import {
+  useToast,
+  type ToastMessage,
+  type ToastVariant,
+} from "../context/toast-context";
+import { useT } from "../context/i18n-context";
+import type { FlashMessage } from "../lib/flash";
+import { useHydrated } from "../lib/hydration";
+import { useEffect, useRef, useState } from "react";
+import type { ComponentType } from "react";
 import styles from "./toast.module.css";
 
+const VARIANT_ICONS: Record<
+  ToastVariant,
+  ComponentType<{ className?: string }>
+> = {
+  success: CheckCircledIcon,
+  error: CrossCircledIcon,
+  warning: ExclamationTriangleIcon,
+  info: InfoCircledIcon,
+  loading: UpdateIcon,
+};
+
+// Time left before a toast closes, paused and resumed together with Radix's
+// own close timer (on hover, on focus and while the window is in the
+// background)
+function useCountdown(duration: number) {
+  const [timeLeft, setTimeLeft] = useState(duration);
+  const [paused, setPaused] = useState(false);
+  const remaining = useRef(duration);
+  const startedAt = useRef(0);
+
+  useEffect(() => {
+    if (paused || !Number.isFinite(duration)) return;
+    startedAt.current = Date.now();
+    const timer = setInterval(() => {
+      setTimeLeft(
+        Math.max(0, remaining.current - (Date.now() - startedAt.current))
+      );
+    }, 250);
+    return () => clearInterval(timer);
+  }, [paused, duration]);
+
+  const pause = () => {
+    remaining.current -= Date.now() - startedAt.current;
+    setTimeLeft(Math.max(0, remaining.current));
+    setPaused(true);
+  };
+  const resume = () => setPaused(false);
+
+  return { secondsLeft: Math.ceil(timeLeft / 1000), paused, pause, resume };
+}
+
 function ToastWithTimer({
   toast,
   onDismiss,
 }: {
-  toast: any;
+  toast: ToastMessage;
   onDismiss: () => void;
 }) {
-  const [timeLeft, setTimeLeft] = useState(
-    toast.duration ? Math.ceil(toast.duration / 1000) : 0
-  );
-
-  useEffect(() => {
-    if (!toast.duration) return;
-
-    const timer = setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 1) {
-          clearInterval(timer);
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => clearInterval(timer);
-  }, [toast.duration]);
+  const t = useT();
+  const { secondsLeft, paused, pause, resume } = useCountdown(toast.duration);
+  const Icon = VARIANT_ICONS[toast.variant];
+  const hasTimer = Number.isFinite(toast.duration);
 
   return (
     <ToastPrimitive.Root
-      key={toast.id}
       data-toast-id={toast.id}
+      data-variant={toast.variant}
       className={styles.toastRoot}
+      // Errors and warnings interrupt screen readers, the rest waits
+      type={
+        toast.variant === "error" || toast.variant === "warning"
+          ? "foreground"
+          : "background"
+      }
       duration={toast.duration}
+      onPause={pause}
+      onResume={resume}
       onOpenChange={(open: boolean) => {
         if (!open) {
           onDismiss();
         }
       }}
     >
+      <Icon className={styles.icon} aria-hidden="true" />
       <section className={styles.toastContent}>
         <header className={styles.toastHeader}>
           <ToastPrimitive.Title className={styles.toastTitle} asChild>
             <h3>{toast.title}</h3>
           </ToastPrimitive.Title>
-          {toast.duration && <time className={styles.timer}>{timeLeft}s</time>}
+          {hasTimer && (
+            <time className={styles.timer} data-paused={paused}>
+              {secondsLeft}s
+            </time>
+          )}
+          <ToastPrimitive.Close
+            className={styles.toastClose}
+            aria-label={t("toast.close")}
+          >
+            <Cross2Icon aria-hidden="true" />
+          </ToastPrimitive.Close>
         </header>
         {toast.description && (
           <ToastPrimitive.Description
@@ -57,35 +118,61 @@ function ToastWithTimer({
             <p>{toast.description}</p>
           </ToastPrimitive.Description>
         )}
-      </section>
 
-      {toast.action && (
-        <footer className={styles.toastActions}>
-          <ToastPrimitive.Action asChild altText={toast.action.label}>
-            <button
-              className={`${styles.toastButton} ${styles.toastAction}`}
-              onClick={(e) => {
-                e.preventDefault();
-                e.stopPropagation();
-                // Call the action handler
-                toast.action?.onClick();
-                // Remove the toast from the context
-                // This will be handled by the toast's own cleanup
-              }}
-            >
-              {toast.action.label}
-            </button>
-          </ToastPrimitive.Action>
-        </footer>
-      )}
+        {toast.action && (
+          <footer className={styles.toastActions}>
+            <ToastPrimitive.Action asChild altText={toast.action.label}>
+              <button
+                className={`${styles.toastButton} ${styles.toastAction}`}
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  // Call the action handler
+                  toast.action?.onClick();
+                  // Remove the toast from the context
+                  // This will be handled by the toast's own cleanup
+                }}
+              >
+                {toast.action.label}
+              </button>
+            </ToastPrimitive.Action>
+            {toast.secondaryAction && (
+              <ToastPrimitive.Action
+                asChild
+                altText={toast.secondaryAction.label}
+              >
+                <button
+                  className={`${styles.toastButton} ${styles.toastAction}`}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    toast.secondaryAction?.onClick();
+                  }}
+                >
+                  {toast.secondaryAction.label}
+                </button>
+              </ToastPrimitive.Action>
+            )}
+          </footer>
+        )}
+      </section>
     </ToastPrimitive.Root>
   );
 }
 
-export function GlobalToast() {
-  const { toasts, removeToast } = useToast();
+// flash holds the messages the root loader took from the flash session.
+// Until hydration, and for good without JavaScript, they are shown as a
+// plain list; afterwards they become toasts.
+export function GlobalToast({ flash }: { flash: FlashMessage[] }) {
+  const { toasts, addToast, removeToast } = useToast();
+  const t = useT();
+  const hydrated = useHydrated();
 
-  const handleDismiss = (toast: any) => {
+  useEffect(() => {
+    for (const message of flash) addToast(message);
+  }, [flash, addToast]);
+
+  const handleDismiss = (toast: ToastMessage) => {
     if (toast.onDismiss) {
       toast.onDismiss();
     }
@@ -93,10 +180,36 @@ export function GlobalToast() {
   };
 
   return (
-    <aside aria-label="Notifications" role="region">
+    <aside aria-label={t("toast.region")} role="region">
+      {!hydrated && flash.length > 0 && (
+        <ul className={styles.flashFallback} role="status">
+          {flash.map((message) => {
+            const Icon = VARIANT_ICONS[message.variant];
+            return (
+              <li
+                key={message.id}
+                className={styles.toastRoot}
+                data-variant={message.variant}
+              >
+                <Icon className={styles.icon} aria-hidden="true" />
+                <section className={styles.toastContent}>
+                  <h3 className={styles.toastTitle}>{message.title}</h3>
+                  {message.description && (
+                    <p className={styles.toastDescription}>
+                      {message.description}
+                    </p>
+                  )}
+                </section>
+              </li>
+            );
+          })}
+        </ul>
+      )}
       {toasts.map((toast) => (
+        // A replaced toast, such as a settled promise toast, starts over
+        // with a fresh close timer
         <ToastWithTimer
-          key={toast.id}
+          key={`${toast.id}-${toast.createdAt}`}
           toast={toast}
           onDismiss={() => handleDismiss(toast)}
         />
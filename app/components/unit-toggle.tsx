@@ -0,0 +1,59 @@
+import { SegmentedControl } from "@radix-ui/themes";
+import {
+  TEMPERATURE_UNITS,
+  WIND_SPEED_UNITS,
+  type Units,
+} from "../schemas/weather";
+import { TEMPERATURE_SYMBOLS, WIND_SPEED_SYMBOLS } from "../lib/units";
+import { useT } from "../context/i18n-context";
+import styles from "./unit-toggle.module.css";
+
+interface UnitToggleProps {
+  units: Units;
+  onUnitsChange: (units: Units) => void;
+}
+
+// Temperature and wind speed units are picked separately, so mixes such as
+// °F with km/h are possible
+export function UnitToggle({ units, onUnitsChange }: UnitToggleProps) {
+  const t = useT();
+
+  return (
+    <div className={styles.unitToggle}>
+      <SegmentedControl.Root
+        size="1"
+        value={units.temperature}
+        onValueChange={(temperature) =>
+          onUnitsChange({
+            ...units,
+            temperature: temperature as Units["temperature"],
+          })
+        }
+        aria-label={t("units.temperature")}
+      >
+        {TEMPERATURE_UNITS.map((unit) => (
+          <SegmentedControl.Item key={unit} value={unit}>
+            {TEMPERATURE_SYMBOLS[unit]}
+          </SegmentedControl.Item>
+        ))}
+      </SegmentedControl.Root>
+      <SegmentedControl.Root
+        size="1"
+        value={units.windSpeed}
+        onValueChange={(windSpeed) =>
+          onUnitsChange({
+            ...units,
+            windSpeed: windSpeed as Units["windSpeed"],
+          })
+        }
+        aria-label={t("units.windSpeed")}
+      >
+        {WIND_SPEED_UNITS.map((unit) => (
+          <SegmentedControl.Item key={unit} value={unit}>
+            {WIND_SPEED_SYMBOLS[unit]}
+          </SegmentedControl.Item>
+        ))}
+      </SegmentedControl.Root>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { createContext, useContext, useMemo } from "react";
+import type { ReactNode } from "react";
+import {
+  DEFAULT_LOCALE,
+  createTranslator,
+  localizePath,
+  type Locale,
+  type Translate,
+} from "../lib/i18n";
+
+interface I18nContextType {
+  locale: Locale;
+  // The /:lang/ prefix of the URL, kept on links; null without one
+  lang: Locale | null;
+  t: Translate;
+}
+
+const I18nContext = createContext<I18nContextType>({
+  locale: DEFAULT_LOCALE,
+  lang: null,
+  t: createTranslator(DEFAULT_LOCALE),
+});
+
+export function I18nProvider({
+  locale,
+  lang,
+  children,
+}: {
+  locale: Locale;
+  lang: Locale | null;
+  children: ReactNode;
+}) {
+  const value = useMemo(
+    () => ({ locale, lang, t: createTranslator(locale) }),
+    [locale, lang]
+  );
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+// Translates a message of the active locale's catalog, e.g.
+// t("todos.stats", { completed: 3, total: 5 })
+export function useT() {
+  return useContext(I18nContext).t;
+}
+
+export function useLocale() {
+  return useContext(I18nContext).locale;
+}
+
+// Turns an app path into a link that keeps the URL's /:lang/ prefix
+export function useLocalizePath() {
+  const { lang } = useContext(I18nContext);
+  return (path: string) => localizePath(path, lang);
+}
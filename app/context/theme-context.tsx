@@ -0,0 +1,80 @@
+import { createContext, useContext, useEffect, useState } from "react";
+import type { ReactNode } from "react";
+import { useFetcher } from "react-router";
+import {
+  COLOR_SCHEME_QUERY,
+  ThemeSchema,
+  type Appearance,
+  type ThemePreference,
+} from "../lib/theme";
+
+interface ThemeContextType {
+  theme: ThemePreference;
+  // The mode actually shown, with "system" resolved
+  appearance: Appearance;
+  setTheme: (changes: Partial<ThemePreference>) => void;
+}
+
+const ThemeContext = createContext<ThemeContextType | null>(null);
+
+// theme comes from the cookie the root loader read, so the server already
+// renders the chosen theme
+export function ThemeProvider({
+  theme: savedTheme,
+  children,
+}: {
+  theme: ThemePreference;
+  children: ReactNode;
+}) {
+  const fetcher = useFetcher({ key: "theme" });
+  // Show a new choice right away; the cookie is saved in the background
+  const pending = fetcher.formData
+    ? ThemeSchema.safeParse(Object.fromEntries(fetcher.formData))
+    : null;
+  const theme = pending?.success ? pending.data : savedTheme;
+
+  // Only known after hydration; until then "system" renders as light
+  const [systemAppearance, setSystemAppearance] = useState<Appearance>("light");
+
+  useEffect(() => {
+    if (theme.mode !== "system") return;
+    const media = matchMedia(COLOR_SCHEME_QUERY);
+    const apply = () => {
+      const appearance = media.matches ? "dark" : "light";
+      // Same class the inline script in <head> set before hydration
+      document.documentElement.classList.remove("light", "dark");
+      document.documentElement.classList.add(appearance);
+      setSystemAppearance(appearance);
+    };
+    apply();
+    media.addEventListener("change", apply);
+    return () => media.removeEventListener("change", apply);
+  }, [theme.mode]);
+
+  const setTheme = (changes: Partial<ThemePreference>) => {
+    fetcher.submit(
+      { ...theme, ...changes },
+      { method: "post", action: "/theme" }
+    );
+  };
+
+  return (
+    <ThemeContext.Provider
+      value={{
+        theme,
+        appearance: theme.mode === "system" ? systemAppearance : theme.mode,
+        setTheme,
+      }}
+    >
+      {children}
+    </ThemeContext.Provider>
+  );
+}
+
+export function useTheme() {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error("useTheme must be used within a ThemeProvider");
+  }
+  return context;
+}
@@ -1,46 +1,105 @@
-import { createContext, useContext, useState, useCallback } from "react";
+import {
+  createContext,
+  useContext,
+  useState,
+  useCallback,
+  useMemo,
+} from "react";
 import type { ReactNode } from "react";
 import * as Toast from "@radix-ui/react-toast";
 
+// "loading" is the pending state of a promise toast
+export type ToastVariant = "success" | "error" | "warning" | "info" | "loading";
+
 export interface ToastMessage {
   id: string;
   title: string;
   description?: string;
+  variant: ToastVariant;
   createdAt: number;
-  duration?: number;
+  // In milliseconds; Infinity keeps the toast until it is dismissed
+  duration: number;
   action?: {
     label: string;
     onClick: () => void;
   };
+  secondaryAction?: {
+    label: string;
+    onClick: () => void;
+  };
   onDismiss?: () => void;
 }
 
+export type ToastOptions = Omit<
+  ToastMessage,
+  "id" | "createdAt" | "variant" | "duration"
+> & {
+  id?: string;
+  variant?: ToastVariant;
+  duration?: number;
+};
+
+// A title, or the whole toast
+type ToastContent = string | Omit<ToastOptions, "id" | "variant">;
+
+interface PromiseToastMessages<T> {
+  loading: ToastContent;
+  success: ToastContent | ((value: T) => ToastContent);
+  error: ToastContent | ((error: unknown) => ToastContent);
+}
+
 interface ToastContextType {
+  // The visible toasts, oldest first
   toasts: ToastMessage[];
-  addToast: (
-    toast: Omit<ToastMessage, "id" | "createdAt"> & { id?: string }
-  ) => void;
+  // Returns the toast's id; adding an id that is already shown or queued
+  // replaces that toast instead of stacking a copy
+  addToast: (toast: ToastOptions) => string;
   removeToast: (id: string) => void;
   removeToastById: (id: string) => void;
+  toast: {
+    success: (toast: ToastOptions) => string;
+    error: (toast: ToastOptions) => string;
+    warning: (toast: ToastOptions) => string;
+    info: (toast: ToastOptions) => string;
+    // Shows messages.loading until the promise settles, then turns that
+    // toast into the success or error message; returns the same promise
+    promise: <T>(
+      promise: Promise<T>,
+      messages: PromiseToastMessages<T>
+    ) => Promise<T>;
+  };
 }
 
+const DEFAULT_DURATION = 5000;
+// Further toasts wait in a queue until one of these is dismissed
+export const MAX_VISIBLE_TOASTS = 3;
+
 const ToastContext = createContext<ToastContextType | null>(null);
 
+const toastOptions = (content: ToastContent) =>
+  typeof content === "string" ? { title: content } : content;
+
 export function ToastProvider({ children }: { children: React.ReactNode }) {
+  // Visible toasts first, then the queue
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
 
-  const addToast = (
-    toast: Omit<ToastMessage, "id" | "createdAt"> & { id?: string }
-  ) => {
-    const newToast = {
+  const addToast = useCallback((toast: ToastOptions) => {
+    const id =
+      toast.id || `toast-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
+    const newToast: ToastMessage = {
       ...toast,
-      id:
-        toast.id || `toast-${Date.now()}-${Math.floor(Math.random() * 10000)}`,
+      id,
+      variant: toast.variant ?? "info",
       createdAt: Date.now(),
-      duration: toast.duration || 5000,
+      duration: toast.duration ?? DEFAULT_DURATION,
     };
-    setToasts((prev) => [...prev, newToast]);
-  };
+    setToasts((prev) =>
+      prev.some((existing) => existing.id === id)
+        ? prev.map((existing) => (existing.id === id ? newToast : existing))
+        : [...prev, newToast]
+    );
+    return id;
+  }, []);
 
   const removeToast = useCallback((id: string) => {
     setToasts((currentToasts) =>
@@ -54,13 +113,62 @@ export function ToastProvider({ children }: { children: React.ReactNode }) {
     );
   }, []);
 
+  const toast = useMemo(() => {
+    const withVariant = (variant: ToastVariant) => (toast: ToastOptions) =>
+      addToast({ ...toast, variant });
+
+    return {
+      success: withVariant("success"),
+      error: withVariant("error"),
+      warning: withVariant("warning"),
+      info: withVariant("info"),
+      promise: <T,>(promise: Promise<T>, messages: PromiseToastMessages<T>) => {
+        const id = addToast({
+          ...toastOptions(messages.loading),
+          variant: "loading",
+          duration: Infinity,
+        });
+        promise.then(
+          (value) => {
+            const { success } = messages;
+            addToast({
+              ...toastOptions(
+                typeof success === "function" ? success(value) : success
+              ),
+              id,
+              variant: "success",
+            });
+          },
+          (error: unknown) => {
+            const { error: failure } = messages;
+            addToast({
+              ...toastOptions(
+                typeof failure === "function" ? failure(error) : failure
+              ),
+              id,
+              variant: "error",
+            });
+          }
+        );
+        return promise;
+      },
+    };
+  }, [addToast]);
+
+  const value = useMemo(
+    () => ({
+      toasts: toasts.slice(0, MAX_VISIBLE_TOASTS),
+      addToast,
+      removeToast,
+      removeToastById,
+      toast,
+    }),
+    [toasts, addToast, removeToast, removeToastById, toast]
+  );
+
   return (
     <Toast.Provider>
-      <ToastContext.Provider
-        value={{ toasts, addToast, removeToast, removeToastById }}
-      >
-        {children}
-      </ToastContext.Provider>
+      <ToastContext.Provider value={value}>{children}</ToastContext.Provider>
     </Toast.Provider>
   );
 }
@@ -0,0 +1,13 @@
+import { redirect } from "react-router";
+import { isLocale, localizePath } from "./i18n";
+
+// Todos belong to an account, so anonymous visitors are sent to sign in
+// first, keeping the page's /:lang/ prefix
+export function requireSignedIn(request: Request, context: any) {
+  if (context?.user) return;
+  const url = new URL(request.url);
+  const redirectTo = `${url.pathname}${url.search}`;
+  const lang = url.pathname.split("/")[1];
+  const login = localizePath("/login", isLocale(lang) ? lang : null);
+  throw redirect(`${login}?${new URLSearchParams({ redirectTo })}`);
+}
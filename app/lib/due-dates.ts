@@ -0,0 +1,52 @@
+import type { Todo } from "../schemas/todo";
+
+// Due dates are calendar days (YYYY-MM-DD), which compare correctly as strings
+
+// Todos due within this many days after today count as upcoming
+export const UPCOMING_DAYS = 7;
+
+// The calendar day of an instant in a time zone, UTC when none is known
+export function toIsoDate(date: Date, timeZone?: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timeZone || "UTC",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+// Whether a string names a time zone Intl knows, such as "Europe/Berlin"
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-CA", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+type DueFields = Pick<Todo, "dueAt" | "completed">;
+
+// Completed todos are never overdue
+export function isOverdue(todo: DueFields, today: string): boolean {
+  return !todo.completed && todo.dueAt !== undefined && todo.dueAt < today;
+}
+
+export function isDueToday(todo: DueFields, today: string): boolean {
+  return todo.dueAt === today;
+}
+
+export function isUpcoming(todo: DueFields, today: string): boolean {
+  return (
+    todo.dueAt !== undefined &&
+    todo.dueAt > today &&
+    todo.dueAt <= addDays(today, UPCOMING_DAYS)
+  );
+}
@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+export const FLASH_COOKIE = "flash";
+// Keeps the cookie well below the browsers' size limit
+const FLASH_MAX_MESSAGES = 5;
+
+export const FlashMessageSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  variant: z.enum(["success", "error", "warning", "info"]),
+});
+
+export type FlashMessage = z.infer<typeof FlashMessageSchema>;
+
+function parseFlashCookie(cookieHeader: string | null): FlashMessage[] {
+  const value = cookieHeader
+    ?.split(";")
+    .map((part) => part.trim().split("="))
+    .find(([name]) => name === FLASH_COOKIE)?.[1];
+  if (!value) return [];
+  try {
+    const messages = z
+      .array(FlashMessageSchema)
+      .safeParse(JSON.parse(decodeURIComponent(value)));
+    return messages.success ? messages.data : [];
+  } catch {
+    return [];
+  }
+}
+
+function serializeFlashCookie(messages: FlashMessage[]) {
+  if (messages.length === 0) {
+    return `${FLASH_COOKIE}=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax`;
+  }
+  const value = encodeURIComponent(JSON.stringify(messages));
+  return `${FLASH_COOKIE}=${value}; Path=/; HttpOnly; SameSite=Lax`;
+}
+
+// Messages for the next page the visitor sees, e.g. after an action or a
+// redirect. The worker opens one per request and writes the cookie back once
+// the response is ready, so a message that an action queues and the root
+// loader of the same request shows (a form posted without JavaScript) is not
+// shown a second time.
+export function createFlashSession(cookieHeader: string | null) {
+  let messages = parseFlashCookie(cookieHeader);
+  let changed = false;
+
+  return {
+    queue(message: Omit<FlashMessage, "id">) {
+      messages = [...messages, { id: crypto.randomUUID(), ...message }].slice(
+        -FLASH_MAX_MESSAGES
+      );
+      changed = true;
+    },
+    // Hands out the queued messages once
+    take(): FlashMessage[] {
+      const taken = messages;
+      if (taken.length > 0) {
+        messages = [];
+        changed = true;
+      }
+      return taken;
+    },
+    // Set-Cookie for the response, or null when nothing changed
+    commit() {
+      return changed ? serializeFlashCookie(messages) : null;
+    },
+  };
+}
+
+export type FlashSession = ReturnType<typeof createFlashSession>;
@@ -0,0 +1,12 @@
+import { useEffect, useState } from "react";
+
+// False on the server and in the first browser render, true once React has
+// hydrated the page. Controls that need JavaScript render a plain form
+// fallback until then, which is also what stays without JavaScript.
+export function useHydrated() {
+  const [hydrated, setHydrated] = useState(false);
+
+  useEffect(() => setHydrated(true), []);
+
+  return hydrated;
+}
@@ -0,0 +1,182 @@
+import { de } from "../locales/de";
+import { en, type MessageKey, type Messages } from "../locales/en";
+import { getPreferredLocale } from "./locale";
+
+export const LOCALES = ["en", "de"] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Name of each locale in its own language, for the language switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  de: "Deutsch",
+};
+
+const catalogs: Record<Locale, Messages> = { en, de };
+
+export const LOCALE_COOKIE = "lang";
+const LOCALE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.includes(value as Locale);
+
+function readCookie(cookieHeader: string | null, name: string) {
+  return cookieHeader
+    ?.split(";")
+    .map((part) => part.trim().split("="))
+    .find(([key]) => key === name)?.[1];
+}
+
+// Supported languages of Accept-Language, most preferred first
+function acceptedLocales(acceptLanguage: string | null): Locale[] {
+  if (!acceptLanguage) return [];
+  return acceptLanguage
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.find((param) => param.trim().startsWith("q="));
+      return {
+        language: tag.trim().split("-")[0].toLowerCase(),
+        quality: q ? Number(q.trim().slice(2)) : 1,
+      };
+    })
+    .filter(({ quality }) => quality > 0)
+    .sort((a, b) => b.quality - a.quality)
+    .map(({ language }) => language)
+    .filter(isLocale);
+}
+
+// The /:lang/ prefix of the URL wins, then the language picked with the
+// switcher, then the browser's languages
+export function resolveLocale(request: Request, lang?: string): Locale {
+  if (isLocale(lang)) return lang;
+  const cookie = readCookie(request.headers.get("Cookie"), LOCALE_COOKIE);
+  if (isLocale(cookie)) return cookie;
+  return (
+    acceptedLocales(request.headers.get("Accept-Language"))[0] ?? DEFAULT_LOCALE
+  );
+}
+
+// Locale for dates and numbers: the browser's own when it speaks the active
+// language, so de-AT keeps its formats, otherwise the active language
+export function resolveFormatLocale(request: Request, lang?: string): string {
+  const locale = resolveLocale(request, lang);
+  const preferred = getPreferredLocale(request.headers.get("Accept-Language"));
+  return preferred.split("-")[0] === locale ? preferred : locale;
+}
+
+export function serializeLocaleCookie(locale: Locale) {
+  return `${LOCALE_COOKIE}=${locale}; Path=/; Max-Age=${LOCALE_COOKIE_MAX_AGE}; SameSite=Lax`;
+}
+
+// Path under the /:lang/ prefix the page was opened with, if any
+export const localizePath = (path: string, lang: Locale | null) =>
+  lang ? `/${lang}${path === "/" ? "" : path}` : path;
+
+// Path without a leading /:lang/ prefix
+export function stripLocale(path: string) {
+  const [, first, ...rest] = path.split("/");
+  return isLocale(first) ? `/${rest.join("/")}` : path;
+}
+
+export type MessageValues = Record<string, string | number>;
+
+// Index of the brace closing the one at start
+function closingBrace(text: string, start: number) {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "{") depth++;
+    else if (text[i] === "}" && --depth === 0) return i;
+  }
+  throw new Error(`Unbalanced braces in message: ${text}`);
+}
+
+// "one {# todo} other {# todos}" as { one: "# todo", other: "# todos" }
+function parseOptions(text: string) {
+  const options: Record<string, string> = {};
+  let i = 0;
+  while (i < text.length) {
+    const open = text.indexOf("{", i);
+    if (open === -1) break;
+    const close = closingBrace(text, open);
+    options[text.slice(i, open).trim()] = text.slice(open + 1, close);
+    i = close + 1;
+  }
+  return options;
+}
+
+function formatArgument(
+  argument: string,
+  values: MessageValues,
+  locale: Locale
+): string {
+  const [name, type, ...rest] = argument.split(",");
+  const value = values[name.trim()];
+  if (!type) return String(value ?? `{${name.trim()}}`);
+
+  const options = parseOptions(rest.join(","));
+  if (type.trim() === "plural") {
+    const count = Number(value);
+    const branch =
+      options[`=${count}`] ??
+      options[new Intl.PluralRules(locale).select(count)] ??
+      options.other;
+    return format(branch ?? "", values, locale, count);
+  }
+  // select
+  return format(options[String(value)] ?? options.other ?? "", values, locale);
+}
+
+function format(
+  message: string,
+  values: MessageValues,
+  locale: Locale,
+  count?: number
+): string {
+  let result = "";
+  for (let i = 0; i < message.length; i++) {
+    const char = message[i];
+    if (char === "{") {
+      const close = closingBrace(message, i);
+      result += formatArgument(message.slice(i + 1, close), values, locale);
+      i = close;
+    } else if (char === "#" && count !== undefined) {
+      result += new Intl.NumberFormat(locale).format(count);
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+// ICU MessageFormat without quoting: {name} arguments, plus plural (with
+// =n, the locale's categories and #) and select, which may nest
+export function formatMessage(
+  message: string,
+  values: MessageValues,
+  locale: Locale
+) {
+  return format(message, values, locale);
+}
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+// For keys built at runtime, such as weather.code.<WMO code>
+export const isMessageKey = (key: string): key is MessageKey => key in en;
+
+// Every catalog has every key, which the Messages type checks
+export function createTranslator(locale: Locale): Translate {
+  return (key, values = {}) =>
+    formatMessage(catalogs[locale][key], values, locale);
+}
+
+// Route matches meta() receives
+export type MetaMatches = ({ id: string; data?: unknown } | undefined)[];
+
+// Translator for meta(), from the locale the root loader settled on
+export function metaTranslator(matches: MetaMatches): Translate {
+  const root = matches.find((match) => match?.id === "root")?.data as
+    | { locale?: Locale }
+    | undefined;
+  return createTranslator(root?.locale ?? DEFAULT_LOCALE);
+}
@@ -0,0 +1,18 @@
+export function getPreferredLocale(acceptLanguage: string | null): string {
+  if (!acceptLanguage) return "en-US";
+  // Get the first language from the Accept-Language header, without its
+  // quality value ("de-DE;q=0.9")
+  const preferredLang = acceptLanguage
+    .split(",")[0]
+    .split(";")[0]
+    .trim()
+    .split("-");
+  const language = preferredLang[0];
+  const region = preferredLang[1] || language.toUpperCase();
+  // Intl throws on malformed tags such as "*", so those fall back too
+  try {
+    return Intl.getCanonicalLocales(`${language}-${region}`)[0];
+  } catch {
+    return "en-US";
+  }
+}
@@ -0,0 +1,66 @@
+import { z } from "zod";
+
+export const THEME_COOKIE = "theme";
+const THEME_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+// "system" follows the operating system's prefers-color-scheme
+export const THEME_MODES = ["system", "light", "dark"] as const;
+export const THEME_CONTRASTS = ["normal", "high"] as const;
+// Radix accent colours offered in the theme menu
+export const ACCENT_COLORS = [
+  "orange",
+  "tomato",
+  "crimson",
+  "plum",
+  "violet",
+  "indigo",
+  "blue",
+  "cyan",
+  "teal",
+  "grass",
+  "amber",
+] as const;
+
+export const ThemeSchema = z.object({
+  mode: z.enum(THEME_MODES),
+  contrast: z.enum(THEME_CONTRASTS),
+  accent: z.enum(ACCENT_COLORS),
+});
+
+export type ThemePreference = z.infer<typeof ThemeSchema>;
+export type ThemeMode = ThemePreference["mode"];
+export type Appearance = Exclude<ThemeMode, "system">;
+
+export const DEFAULT_THEME: ThemePreference = {
+  mode: "system",
+  contrast: "normal",
+  accent: "orange",
+};
+
+// Stored as "<mode>.<contrast>.<accent>", e.g. "dark.high.teal"; a missing or
+// unreadable cookie means the default theme
+export function parseThemeCookie(cookieHeader: string | null): ThemePreference {
+  const value = cookieHeader
+    ?.split(";")
+    .map((part) => part.trim().split("="))
+    .find(([name]) => name === THEME_COOKIE)?.[1];
+  const [mode, contrast, accent] = value?.split(".") ?? [];
+  const theme = ThemeSchema.safeParse({ mode, contrast, accent });
+  return theme.success ? theme.data : DEFAULT_THEME;
+}
+
+export function serializeThemeCookie({
+  mode,
+  contrast,
+  accent,
+}: ThemePreference) {
+  return `${THEME_COOKIE}=${mode}.${contrast}.${accent}; Path=/; Max-Age=${THEME_COOKIE_MAX_AGE}; SameSite=Lax`;
+}
+
+export const COLOR_SCHEME_QUERY = "(prefers-color-scheme: dark)";
+
+// The server cannot know the system's colour scheme, so in "system" mode this
+// runs before the body is painted and puts it on <html> as Radix's class
+export const SYSTEM_APPEARANCE_SCRIPT = `document.documentElement.classList.add(matchMedia(${JSON.stringify(
+  COLOR_SCHEME_QUERY
+)}).matches ? "dark" : "light")`;
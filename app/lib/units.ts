@@ -0,0 +1,30 @@
+import { METRIC_UNITS, UnitsSchema, type Units } from "../schemas/weather";
+
+export const UNITS_COOKIE = "units";
+const UNITS_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+export const TEMPERATURE_SYMBOLS: Record<Units["temperature"], string> = {
+  celsius: "°C",
+  fahrenheit: "°F",
+};
+
+export const WIND_SPEED_SYMBOLS: Record<Units["windSpeed"], string> = {
+  kmh: "km/h",
+  mph: "mph",
+};
+
+// Stored as "<temperature>.<windSpeed>", e.g. "fahrenheit.kmh"; a missing or
+// unreadable cookie means metric
+export function parseUnitsCookie(cookieHeader: string | null): Units {
+  const value = cookieHeader
+    ?.split(";")
+    .map((part) => part.trim().split("="))
+    .find(([name]) => name === UNITS_COOKIE)?.[1];
+  const [temperature, windSpeed] = value?.split(".") ?? [];
+  const units = UnitsSchema.safeParse({ temperature, windSpeed });
+  return units.success ? units.data : METRIC_UNITS;
+}
+
+export function serializeUnitsCookie({ temperature, windSpeed }: Units) {
+  return `${UNITS_COOKIE}=${temperature}.${windSpeed}; Path=/; Max-Age=${UNITS_COOKIE_MAX_AGE}; SameSite=Lax`;
+}
@@ -0,0 +1,199 @@
+import { cityKey, type City, type CityCollection } from "../schemas/city";
+import type { ErrorBody } from "../schemas/error";
+import type { Units, WeatherData, WeatherResponse } from "../schemas/weather";
+import { isMessageKey, type Translate } from "./i18n";
+
+// Where a forecast is for
+export interface Place {
+  name: string;
+  latitude: number;
+  longitude: number;
+  // "Name,Country" when the place is a known city
+  key?: string;
+}
+
+export const cityPlace = (city: City): Place => ({
+  name: `${city.name}, ${city.country}`,
+  latitude: city.latitude,
+  longitude: city.longitude,
+  key: cityKey(city),
+});
+
+export async function lookUpCity(context: any, key: string): Promise<Place> {
+  const response: Response = await context.fetchInternal(
+    `/api/cities/${encodeURIComponent(key)}`
+  );
+  if (response.status === 404) {
+    throw new Response(`Unknown city: ${key.replace(",", ", ")}`, {
+      status: 404,
+      statusText: "Not Found",
+    });
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Failed to look up city (Status: ${response.status} ${response.statusText})`
+    );
+  }
+  return cityPlace(await response.json());
+}
+
+// The API caches forecasts and falls back to a stale copy when Open-Meteo is
+// down, so only a forecast that was never cached fails here. Open-Meteo
+// converts, so even the first render is in the chosen units.
+export async function fetchForecast(
+  context: any,
+  place: Place,
+  units: Units,
+  // Extra query parameters, such as the mock scenarios of the README
+  params: Record<string, string> = {}
+): Promise<WeatherResponse> {
+  const query = new URLSearchParams({
+    lat: String(place.latitude),
+    lon: String(place.longitude),
+    temperature_unit: units.temperature,
+    wind_speed_unit: units.windSpeed,
+    ...params,
+  });
+  const response: Response = await context.fetchInternal(
+    `/api/weather?${query}`
+  );
+  if (!response.ok) {
+    const body: ErrorBody = await response.json();
+    throw new Response(`Failed to fetch weather data: ${body.error}`, {
+      status: response.status,
+      statusText: response.statusText,
+    });
+  }
+  return response.json();
+}
+
+export function getWeatherIcon(weatherCode: number, isDay: number): string {
+  // Unicode weather icons based on WMO codes
+  if (weatherCode === 0) {
+    return isDay === 1 ? "☀️" : "🌙";
+  } else if (weatherCode >= 1 && weatherCode <= 3) {
+    return "☁️";
+  } else if (
+    (weatherCode >= 45 && weatherCode <= 48) ||
+    (weatherCode >= 51 && weatherCode <= 67) ||
+    (weatherCode >= 80 && weatherCode <= 82)
+  ) {
+    return "🌧️";
+  } else if (
+    (weatherCode >= 71 && weatherCode <= 77) ||
+    (weatherCode >= 85 && weatherCode <= 86)
+  ) {
+    return "❄️";
+  } else if (weatherCode >= 95 && weatherCode <= 99) {
+    return "⛈️";
+  }
+
+  return isDay === 1 ? "☀️" : "🌙";
+}
+
+// WMO code in the active language, see the weather.code.* messages
+export function getWeatherDescription(
+  weatherCode: number,
+  t: Translate
+): string {
+  const key = `weather.code.${weatherCode}`;
+  return isMessageKey(key) ? t(key) : t("weather.code.unknown");
+}
+
+// Open-Meteo reports times as the city's wall clock without an offset
+// ("2026-10-19T07:22", or just the date for days). Read as UTC and formatted
+// in UTC they keep that wall clock whatever zone the server or browser is
+// in, so both render the same text.
+const wallClock = (time: string) =>
+  new Date(`${time.length === 10 ? `${time}T00:00` : time}Z`);
+
+export function formatCityTime(time: string, locale: string): string {
+  return wallClock(time).toLocaleTimeString(locale, {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: "UTC",
+  });
+}
+
+export function formatCityHour(time: string, locale: string): string {
+  return wallClock(time).toLocaleTimeString(locale, {
+    hour: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export function formatCityDate(time: string, locale: string): string {
+  return wallClock(time).toLocaleDateString(locale, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// "Today" and "Tomorrow" in the visitor's language, then weekdays
+export function getDayName(
+  dateString: string,
+  index: number,
+  locale: string
+): string {
+  if (index <= 1) {
+    const name = new Intl.RelativeTimeFormat(locale, {
+      numeric: "auto",
+    }).format(index, "day");
+    return name.charAt(0).toLocaleUpperCase(locale) + name.slice(1);
+  }
+  return wallClock(dateString).toLocaleDateString(locale, {
+    weekday: "short",
+    timeZone: "UTC",
+  });
+}
+
+// An instant, such as when a forecast was fetched, in the city's time zone.
+// Zones the runtime does not know fall back to the forecast's UTC offset.
+export function formatInCityZone(
+  instant: string,
+  weather: Pick<WeatherData, "timezone" | "utc_offset_seconds">,
+  locale: string
+): string {
+  const options: Intl.DateTimeFormatOptions = {
+    dateStyle: "medium",
+    timeStyle: "short",
+  };
+  try {
+    return new Date(instant).toLocaleString(locale, {
+      ...options,
+      timeZone: weather.timezone,
+    });
+  } catch {
+    const offsetMinutes = weather.utc_offset_seconds / 60;
+    const shifted = new Date(
+      new Date(instant).getTime() + offsetMinutes * 60 * 1000
+    );
+    const sign = offsetMinutes < 0 ? "-" : "+";
+    const hours = String(Math.floor(Math.abs(offsetMinutes) / 60));
+    const minutes = String(Math.abs(offsetMinutes) % 60).padStart(2, "0");
+    return `${shifted.toLocaleString(locale, {
+      ...options,
+      timeZone: "UTC",
+    })} UTC${sign}${hours}:${minutes}`;
+  }
+}
+
+// Favourite cities of the visitor, see workers/favorites.ts. They are a
+// shortcut, so failing to read them leaves the page usable without them.
+export async function fetchFavorites(context: any): Promise<City[]> {
+  try {
+    const response: Response = await context.fetchInternal("/api/favorites");
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch favourite cities (Status: ${response.status} ${response.statusText})`
+      );
+    }
+    const { cities }: CityCollection = await response.json();
+    return cities;
+  } catch (error) {
+    console.error("Error fetching favourite cities:", error);
+    return [];
+  }
+}
@@ -0,0 +1,400 @@
+import type { Messages } from "./en";
+
+export const de: Messages = {
+  "common.cancel": "Abbrechen",
+  "common.error": "Fehler",
+  "common.goHome": "Zur Startseite",
+  "common.loading": "Wird geladen...",
+  "common.tryAgain": "Erneut versuchen",
+  "common.undo": "Rückgängig",
+
+  "nav.label": "Hauptnavigation",
+  "nav.todos": "Aufgaben",
+  "nav.weather": "Wetter",
+  "language.label": "Sprache",
+  "theme.label": "Design",
+  "theme.mode": "Darstellung",
+  "theme.mode.system": "System",
+  "theme.mode.light": "Hell",
+  "theme.mode.dark": "Dunkel",
+  "theme.highContrast": "Hoher Kontrast",
+  "theme.accent": "Akzentfarbe",
+  "theme.accent.orange": "Orange",
+  "theme.accent.tomato": "Tomate",
+  "theme.accent.crimson": "Karmesin",
+  "theme.accent.plum": "Pflaume",
+  "theme.accent.violet": "Violett",
+  "theme.accent.indigo": "Indigo",
+  "theme.accent.blue": "Blau",
+  "theme.accent.cyan": "Cyan",
+  "theme.accent.teal": "Petrol",
+  "theme.accent.grass": "Gras",
+  "theme.accent.amber": "Bernstein",
+  "toast.region": "Benachrichtigungen",
+  "toast.close": "Schließen",
+
+  "error.title": "Hoppla!",
+  "error.status": "Fehler {status}",
+  "error.unexpected": "Ein unerwarteter Fehler ist aufgetreten.",
+  "notFound.title": "404 - Seite nicht gefunden",
+  "notFound.description":
+    "Die gesuchte Seite existiert leider nicht oder wurde verschoben.",
+  "notFound.home": "Zurück zur Startseite",
+
+  "home.meta.description":
+    "Moderne Full-Stack-Anwendung mit Cloudflare Workers, React Router 7 und aktuellen Webtechnologien",
+  "home.title": "Full-Stack-Demoanwendung",
+  "home.subtitle":
+    "Ein produktionsreifes Beispiel moderner Webentwicklung, das Sie in Ihren Produkten einsetzen können",
+  "home.description":
+    "Erleben Sie Edge Computing mit React Router 7, Cloudflare Workers und aktuellen Webtechnologien. Gebaut für Geschwindigkeit, Skalierbarkeit und Entwicklerfreundlichkeit.",
+  "home.viewTodos": "Zu den Aufgaben",
+  "home.viewWeather": "Zum Wetter",
+  "home.stats.responseTime": "Antwortzeit",
+  "home.stats.edgeLocations": "Edge-Standorte",
+  "home.keyboardHint":
+    "Mit der Tabulatortaste wechseln Sie zwischen den interaktiven Elementen. Mit der Eingabetaste öffnen Sie Links und lösen Schaltflächen aus.",
+  "home.tech.title": "Technologien & Architektur",
+  "home.tech.infrastructure": "Infrastruktur",
+  "home.tech.workers": "Cloudflare Workers (Edge Computing)",
+  "home.tech.kv": "Cloudflare KV (verteilte Datenbank)",
+  "home.tech.ssr": "Serverseitiges Rendering (SSR)",
+  "home.tech.frontend": "Frontend",
+  "home.tech.radix": "Radix-UI-Komponenten & -Themes",
+  "home.tech.cssModules": "Reine CSS-Module",
+  "home.tech.themeToggle":
+    "Designs per Cookie: System, Hell, Dunkel, hoher Kontrast und Akzentfarben",
+  "home.tech.i18n": "Internationalisierung (Englisch, Deutsch)",
+  "home.tech.animations": "Aufwendige Animationen",
+  "home.tech.loadingIndicator": "Ladeanzeige beim Seitenwechsel",
+  "home.tech.backend": "Backend & API",
+  "home.tech.rest": "REST-API-Architektur",
+  "home.tech.swagger": "Swagger-kompatible API",
+  "home.tech.actions": "React-Router-Actions",
+  "home.tech.kvDatabase": "Cloudflare-KV-Datenbank",
+  "home.tech.toasts": "Asynchrone Toast-Benachrichtigungen",
+  "home.tech.kvScripts": "Skripte für KV-Import und -Export",
+  "home.tech.accessibility": "Barrierefreiheit & UX",
+  "home.tech.semanticHtml": "Semantische HTML-Struktur",
+  "home.tech.aria": "ARIA-Labels & -Rollen",
+  "home.tech.keyboard": "Bedienung per Tastatur",
+  "home.tech.mobile": "Für Mobilgeräte optimiertes Design",
+  "home.tech.touch": "Touch-freundliche Bedienung",
+  "home.demos.title": "Interaktive Demos",
+  "home.demos.todos.title": "Aufgabenliste",
+  "home.demos.todos.description":
+    "Vollständiges CRUD mit Speicherung in Cloudflare KV, optimistischen UI-Updates und Validierung in Echtzeit",
+  "home.demos.weather.title": "Wettervorhersage",
+  "home.demos.weather.description":
+    "Dynamische Städteauswahl mit API-Anbindung und responsiver Datenvisualisierung",
+  "home.roadmap.title": "Roadmap & geplante Funktionen",
+  "home.roadmap.performance": "Performance",
+  "home.roadmap.serverCaching": "Serverseitiges Caching",
+  "home.roadmap.clientCaching": "API-Caching im Client (SWR/TanStack Query)",
+  "home.roadmap.pagination": "Seitenweises Laden & Infinite Scroll",
+  "home.roadmap.architecture": "Architektur",
+  "home.roadmap.zustand": "State-Management mit Zustand",
+  "home.roadmap.zod": "Schema-Validierung mit Zod",
+  "home.roadmap.cms": "Anbindung eines Headless CMS",
+  "home.roadmap.devops": "DevOps",
+  "home.roadmap.cicd": "Git-basierte CI/CD-Pipeline",
+  "home.roadmap.staging": "Staging-Umgebung",
+  "home.roadmap.testing": "Automatisierte Tests",
+
+  "login.meta.description": "Melden Sie sich an, um Ihre Aufgaben zu verwalten",
+  "login.title": "Anmelden",
+  "login.intro":
+    "Melden Sie sich an, um Ihre Aufgaben zu sehen, oder legen Sie ein Konto an.",
+  "login.email": "E-Mail",
+  "login.password": "Passwort",
+  "login.signIn": "Anmelden",
+  "login.createAccount": "Konto anlegen",
+  "login.backHome": "Zurück zur Startseite",
+  "login.fixErrors": "Bitte korrigieren Sie die Fehler unten",
+  "login.failed":
+    "{intent, select, signup {Registrierung fehlgeschlagen} other {Anmeldung fehlgeschlagen}} (Status: {status})",
+
+  "priority.1": "Hoch",
+  "priority.2": "Mittel",
+  "priority.3": "Niedrig",
+
+  "lists.label": "Aufgabenliste",
+  "lists.new": "Neue Liste anlegen",
+  "lists.delete": "Diese Liste mit allen Aufgaben löschen",
+  "lists.namePlaceholder": "Name der Liste...",
+  "lists.nameLabel": "Name der neuen Liste",
+  "lists.create": "Anlegen",
+
+  "todos.meta.description": "Verwalten Sie Ihre Aufgaben",
+  "todos.title": "Aufgaben",
+  "todos.signedInAs": "Angemeldet als {email}",
+  "todos.trash": "Papierkorb",
+  "todos.signOut": "Abmelden",
+  "todos.stats.of": "von",
+  "todos.stats.completed":
+    "{count, plural, one {Aufgabe erledigt} other {Aufgaben erledigt}}",
+  "todos.summary.label": "Tagesübersicht",
+  "todos.summary.text":
+    "{overdue} überfällig{newlyOverdue, plural, =0 {} other { (# neu)}}, {dueToday} heute fällig in allen Listen.",
+  "todos.summary.showOverdue": "Überfällige zeigen",
+  "todos.sort.label": "Aufgaben sortieren",
+  "todos.sort.prefix": "Sortierung:",
+  "todos.sort.manual": "Manuell",
+  "todos.sort.priority": "Priorität",
+  "todos.sort.created": "Neueste",
+  "todos.sort.updated": "Zuletzt geändert",
+  "todos.sort.title": "Titel",
+  "todos.sort.apply": "Sortieren",
+  "todos.sort.loadedOnly":
+    "{count, plural, one {Sortiert wird nur die # bisher geladene Aufgabe. Mit „Mehr laden“ kommen die übrigen dazu.} other {Sortiert werden nur die # bisher geladenen Aufgaben. Mit „Mehr laden“ kommen die übrigen dazu.}}",
+  "todos.filter.all": "Alle",
+  "todos.filter.active": "Offen",
+  "todos.filter.completed": "Erledigt",
+  "todos.filter.today": "Heute",
+  "todos.filter.upcoming": "Demnächst",
+  "todos.filter.overdue": "Überfällig",
+  "todos.add.heading": "Neue Aufgabe hinzufügen",
+  "todos.add.titleLabel": "Titel der Aufgabe",
+  "todos.add.placeholder": "Neue Aufgabe hinzufügen...",
+  "todos.add.priority": "Priorität der neuen Aufgabe",
+  "todos.add.dueDate": "Fälligkeitsdatum der neuen Aufgabe",
+  "todos.add.tagsPlaceholder": "Tags, durch Kommas getrennt",
+  "todos.add.tags": "Tags der neuen Aufgabe",
+  "todos.add.label": "Neue Aufgabe hinzufügen",
+  "todos.add.submit": "Hinzufügen",
+  "todos.list.heading": "Ihre Aufgaben",
+  "todos.list.label": "Aufgaben",
+  "todos.search.placeholder": "Titel und Tags durchsuchen...",
+  "todos.search.label": "Aufgaben durchsuchen",
+  "todos.search.submit": "Suchen",
+  "todos.search.clear": "Suche zurücksetzen",
+  "todos.tagFilter": "Nach Tag filtern",
+  "todos.bulk.label": "Sammelaktionen",
+  "todos.bulk.deleteSelected": "Ausgewählte löschen ({count})",
+  "todos.bulk.deleteChecked": "Ausgewählte löschen",
+  "todos.bulk.moveToTop": "Nach oben verschieben",
+  "todos.bulk.completeAll": "Alle erledigen",
+  "todos.bulk.clearCompleted": "Erledigte entfernen",
+  "todos.bulk.select": "Auswählen",
+  "todos.empty.noMatchTitle": "Keine passenden Aufgaben",
+  "todos.empty.noMatchQuery": "Nichts in dieser Liste passt zu „{q}“.",
+  "todos.empty.noMatchTag": "Nichts in dieser Liste trägt den Tag #{tag}.",
+  "todos.empty.noMatchBoth":
+    "Nichts in dieser Liste passt zu „{q}“ und trägt den Tag #{tag}.",
+  "todos.empty.title": "Noch keine Aufgaben",
+  "todos.empty.description":
+    "Fügen Sie oben Ihre erste Aufgabe hinzu, um loszulegen.",
+  "todos.empty.activeTitle": "Keine offenen Aufgaben",
+  "todos.empty.active": "Alles erledigt! Gut gemacht!",
+  "todos.empty.completedTitle": "Keine erledigten Aufgaben",
+  "todos.empty.completed":
+    "Noch nichts erledigt. Haken Sie Ihre ersten Aufgaben ab!",
+  "todos.empty.todayTitle": "Heute nichts fällig",
+  "todos.empty.today": "Heute ist nichts fällig.",
+  "todos.empty.upcomingTitle": "Demnächst nichts fällig",
+  "todos.empty.upcoming":
+    "{days, plural, one {Morgen ist nichts fällig.} other {In den nächsten # Tagen ist nichts fällig.}}",
+  "todos.empty.overdueTitle": "Keine überfälligen Aufgaben",
+  "todos.empty.overdue": "Sie halten jede Frist ein.",
+  "todos.item.select": "„{title}“ auswählen",
+  "todos.item.markComplete": "„{title}“ als erledigt markieren",
+  "todos.item.markIncomplete": "„{title}“ als offen markieren",
+  "todos.item.editTitle": "Titel bearbeiten",
+  "todos.item.editDueDate": "Fälligkeitsdatum bearbeiten",
+  "todos.item.editTagsPlaceholder": "Tags",
+  "todos.item.editTags": "Tags bearbeiten, durch Kommas getrennt",
+  "todos.item.priority": "Priorität von „{title}“",
+  "todos.item.savePriority": "Speichern",
+  "todos.item.due": "Fällig am",
+  "todos.item.overdue": "(überfällig)",
+  "todos.item.tags": "Tags",
+  "todos.item.actions": "Aktionen für die Aufgabe",
+  "todos.item.save": "Änderung speichern",
+  "todos.item.cancel": "Bearbeitung abbrechen",
+  "todos.item.moveUp": "„{title}“ nach oben schieben",
+  "todos.item.moveDown": "„{title}“ nach unten schieben",
+  "todos.item.edit": "Aufgabe bearbeiten",
+  "todos.item.move": "Aufgabe verschieben",
+  "todos.item.moveTo": "Nach {list} verschieben",
+  "todos.item.moveTarget": "Zielliste",
+  "todos.item.delete": "Aufgabe löschen",
+  "todos.loadMore": "Mehr laden",
+  "todos.deleteList.confirm": "Die Liste „{name}“ mit allen Aufgaben löschen?",
+  "todos.deleteConfirm.title": "„{title}“ löschen?",
+  "todos.deleteConfirm.description":
+    "Die Aufgabe kommt in den Papierkorb, aus dem Sie sie wiederherstellen können.",
+  "todos.deleteConfirm.submit": "In den Papierkorb",
+  "todos.deleted.title": "Aufgabe gelöscht",
+  "todos.deleted.description": "„{title}“ liegt jetzt im Papierkorb.",
+  "todos.deleted.descriptionUnknown": "Die Aufgabe liegt jetzt im Papierkorb.",
+  "todos.conflict.title": "Bearbeitungskonflikt",
+  "todos.conflict.description":
+    "„{title}“ wurde an anderer Stelle geändert, seit Sie die Seite geladen haben.",
+  "todos.conflict.keepMine": "Meine behalten",
+  "todos.conflict.takeTheirs": "Andere übernehmen",
+  "todos.batch.title": "Aufgaben aktualisiert",
+  "todos.batch.failedTitle": "Einige Änderungen fehlgeschlagen",
+  "todos.batch.trashed":
+    "{count, plural, one {# Aufgabe in den Papierkorb verschoben.} other {# Aufgaben in den Papierkorb verschoben.}}",
+  "todos.batch.completed":
+    "{count, plural, one {# Aufgabe als erledigt markiert.} other {# Aufgaben als erledigt markiert.}}",
+  "todos.batch.reordered": "Neue Reihenfolge gespeichert.",
+  "todos.batch.failed":
+    "{count, plural, one {# Aufgabe wurde an anderer Stelle geändert oder konnte nicht gespeichert werden.} other {# Aufgaben wurden an anderer Stelle geändert oder konnten nicht gespeichert werden.}}",
+  "todos.batch.openTrash": "Papierkorb öffnen",
+  "todos.sr.error": "Fehler: {error}",
+  "todos.sr.deleted": "Aufgabe in den Papierkorb verschoben",
+  "todos.sr.restored": "Aufgabe „{title}“ wiederhergestellt",
+  "todos.sr.updated": "Aufgabe „{title}“ aktualisiert",
+  "todos.sr.moved": "Aufgabe „{title}“ nach {list} verschoben",
+  "todos.sr.movedElsewhere":
+    "Aufgabe „{title}“ in eine andere Liste verschoben",
+  "todos.sr.conflict":
+    "Aufgabe „{title}“ wurde an anderer Stelle geändert. Behalten Sie Ihre Änderung oder übernehmen Sie die andere.",
+  "todos.sr.added": "Aufgabe „{title}“ hinzugefügt",
+  "todos.sr.position":
+    "Aufgabe „{title}“ an Position {position} von {total} verschoben",
+  "todos.error.toast": "Aufgabenfehler",
+  "todos.error.notFound": "Aufgaben nicht gefunden",
+  "todos.error.title": "Fehler beim Laden der Aufgaben",
+  "todos.error.listMissing": "Diese Aufgabenliste existiert nicht",
+  "todos.flash.listCreated.title": "Liste erstellt",
+  "todos.flash.listCreated.description": "Die Liste „{name}“ wurde erstellt",
+  "todos.flash.listDeleted.title": "Liste gelöscht",
+
+  "trash.meta.title": "Papierkorb - Aufgaben",
+  "trash.meta.description":
+    "Gelöschte Aufgaben wiederherstellen oder endgültig entfernen",
+  "trash.back": "Zurück zu den Aufgaben",
+  "trash.title": "Papierkorb",
+  "trash.intro":
+    "Gelöschte Aufgaben bleiben 30 Tage hier, bevor sie endgültig entfernt werden.",
+  "trash.empty": "Papierkorb leeren",
+  "trash.confirmEmpty": "Alle Aufgaben im Papierkorb endgültig löschen?",
+  "trash.isEmpty": "Der Papierkorb ist leer.",
+  "trash.label": "Gelöschte Aufgaben",
+  "trash.unknownList": "Unbekannte Liste",
+  "trash.deleted": "Gelöscht",
+  "trash.expires": "Läuft ab",
+  "trash.restore": "Wiederherstellen",
+  "trash.purge": "Endgültig löschen",
+  "trash.purgeLabel": "„{title}“ endgültig löschen",
+  "trash.nextPage": "Nächste Seite",
+  "trash.restored.title": "Aufgabe wiederhergestellt",
+  "trash.restored.description": "„{title}“ ist wieder in {list}.",
+  "trash.emptied.title": "Papierkorb geleert",
+  "trash.emptied.description":
+    "{count, plural, one {# Aufgabe endgültig gelöscht.} other {# Aufgaben endgültig gelöscht.}}",
+
+  "weather.meta.title": "Wetterdaten",
+  "weather.meta.description": "Wetterinformationen ansehen",
+  "weather.title": "Wetterinformationen",
+  "weather.yourLocation": "Ihr Standort",
+  "weather.stale":
+    "Die Wetterdaten sind möglicherweise veraltet. Der Wetterdienst ist nicht erreichbar, daher stammt diese Vorhersage von {time} Ortszeit.",
+  "weather.selectCity": "Stadt auswählen",
+  "weather.favorites": "Lieblingsstädte",
+  "weather.favorite": "Favorit",
+  "weather.favoritesNotSaved": "Favoriten nicht gespeichert",
+  "weather.compareAll": "Alle vergleichen",
+  "weather.compareFirst": "Erste {count} vergleichen",
+  "weather.useMyLocation": "Meinen Standort verwenden",
+  "weather.locating": "Standort wird ermittelt...",
+  "weather.locationUnavailable": "Standort nicht verfügbar",
+  "weather.locationUnsupported":
+    "Ihr Browser kann seinen Standort nicht teilen",
+  "weather.locationDenied":
+    "Die Berechtigung für Ihren Standort wurde verweigert",
+  "weather.locationFailed": "Ihr Standort konnte nicht ermittelt werden",
+  "weather.cityChanged.title": "Stadt gewechselt",
+  "weather.cityChanged.description": "Jetzt wird das Wetter für {city} gezeigt",
+  "weather.invalidCity": "Ungültiges Stadtformat",
+  "weather.changeCityFailed": "Stadt konnte nicht gewechselt werden",
+  "weather.current": "Aktuelles Wetter",
+  "weather.for": "Wetter für {city}",
+  "weather.temperature": "Temperatur",
+  "weather.windSpeed": "Windgeschwindigkeit",
+  "weather.humidity": "Luftfeuchtigkeit",
+  "weather.sunrise": "Sonnenaufgang",
+  "weather.sunset": "Sonnenuntergang",
+  "weather.uvIndex": "UV-Index",
+  "weather.rainChance": "Regenwahrscheinlichkeit",
+  "weather.uv.low": "Niedrig",
+  "weather.uv.moderate": "Mäßig",
+  "weather.uv.high": "Hoch",
+  "weather.uv.very-high": "Sehr hoch",
+  "weather.uv.extreme": "Extrem",
+  "weather.next48": "Nächste 48 Stunden",
+  "weather.48From": "48 Stunden ab {day}",
+  "weather.backToNow": "Zurück zu jetzt",
+  "weather.forecast": "7-Tage-Vorhersage",
+  "weather.error.toast": "Wetterfehler",
+  "weather.error.notFound": "Wetter nicht gefunden",
+  "weather.error.title": "Wetterfehler",
+  "weather.code.0": "Klarer Himmel",
+  "weather.code.1": "Überwiegend klar",
+  "weather.code.2": "Teilweise bewölkt",
+  "weather.code.3": "Bedeckt",
+  "weather.code.45": "Nebel",
+  "weather.code.48": "Nebel mit Raureif",
+  "weather.code.51": "Leichter Nieselregen",
+  "weather.code.53": "Mäßiger Nieselregen",
+  "weather.code.55": "Starker Nieselregen",
+  "weather.code.61": "Leichter Regen",
+  "weather.code.63": "Mäßiger Regen",
+  "weather.code.65": "Starker Regen",
+  "weather.code.71": "Leichter Schneefall",
+  "weather.code.73": "Mäßiger Schneefall",
+  "weather.code.75": "Starker Schneefall",
+  "weather.code.77": "Schneegriesel",
+  "weather.code.80": "Leichte Regenschauer",
+  "weather.code.81": "Mäßige Regenschauer",
+  "weather.code.82": "Heftige Regenschauer",
+  "weather.code.85": "Leichte Schneeschauer",
+  "weather.code.86": "Starke Schneeschauer",
+  "weather.code.95": "Gewitter",
+  "weather.code.96": "Gewitter mit leichtem Hagel",
+  "weather.code.99": "Gewitter mit starkem Hagel",
+  "weather.code.unknown": "Unbekanntes Wetter",
+  "weather.flash.favoriteAdded.title": "Favorit hinzugefügt",
+  "weather.flash.favoriteAdded.description":
+    "{city} gehört jetzt zu Ihren Favoriten",
+  "weather.flash.favoriteRemoved.title": "Favorit entfernt",
+  "weather.flash.favoriteRemoved.description":
+    "{city} gehört nicht mehr zu Ihren Favoriten",
+
+  "citySelector.label": "Stadt",
+  "citySelector.placeholder": "Stadt suchen...",
+  "citySelector.options": "Städte",
+  "citySelector.empty": "Keine Städte gefunden",
+  "units.temperature": "Temperatureinheit",
+  "units.windSpeed": "Einheit der Windgeschwindigkeit",
+
+  "timeline.temperature": "Temperatur",
+  "timeline.humidity": "Luftfeuchtigkeit",
+  "timeline.windSpeed": "Windgeschwindigkeit",
+  "timeline.chartTitle": "{title} von {low} bis {high}",
+  "timeline.range": "{from} bis {to}",
+  "timeline.charts": "Stündliche Diagramme, {range}",
+  "timeline.showTable": "Stündliche Daten als Tabelle zeigen",
+  "timeline.caption": "Stündliche Vorhersage, {range}",
+  "timeline.time": "Zeit",
+  "timeline.temperatureColumn": "Temperatur ({unit})",
+  "timeline.humidityColumn": "Luftfeuchtigkeit (%)",
+  "timeline.windColumn": "Wind ({unit})",
+
+  "compare.meta.title": "Wetter vergleichen",
+  "compare.meta.description":
+    "Aktuelles Wetter und Vorhersagen mehrerer Städte im Vergleich",
+  "compare.title": "Wetter vergleichen",
+  "compare.back": "Zurück zum Wetter",
+  "compare.empty":
+    "Markieren Sie auf der Wetterseite Städte als Favoriten, um sie hier zu vergleichen.",
+  "compare.tooMany": "Höchstens {count} Städte können verglichen werden",
+  "compare.caption": "Aktuelles Wetter und 7-Tage-Vorhersage nach Stadt",
+  "compare.openWeather": "Zur Wetterseite",
+  "compare.unavailable": "Vorhersage nicht verfügbar",
+  "compare.outdated": "Möglicherweise veraltet",
+  "compare.now": "Jetzt",
+  "compare.forecast": "7-Tage-Vorhersage, Höchst- und Tiefstwerte",
+};
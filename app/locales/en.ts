@@ -0,0 +1,398 @@
+// English messages, the reference catalog every other locale translates.
+// Messages use ICU MessageFormat, see formatMessage in lib/i18n.ts.
+export const en = {
+  "common.cancel": "Cancel",
+  "common.error": "Error",
+  "common.goHome": "Go Home",
+  "common.loading": "Loading...",
+  "common.tryAgain": "Try Again",
+  "common.undo": "Undo",
+
+  "nav.label": "Main navigation",
+  "nav.todos": "Todo List",
+  "nav.weather": "Weather",
+  "language.label": "Language",
+  "theme.label": "Theme",
+  "theme.mode": "Appearance",
+  "theme.mode.system": "System",
+  "theme.mode.light": "Light",
+  "theme.mode.dark": "Dark",
+  "theme.highContrast": "High contrast",
+  "theme.accent": "Accent colour",
+  "theme.accent.orange": "Orange",
+  "theme.accent.tomato": "Tomato",
+  "theme.accent.crimson": "Crimson",
+  "theme.accent.plum": "Plum",
+  "theme.accent.violet": "Violet",
+  "theme.accent.indigo": "Indigo",
+  "theme.accent.blue": "Blue",
+  "theme.accent.cyan": "Cyan",
+  "theme.accent.teal": "Teal",
+  "theme.accent.grass": "Grass",
+  "theme.accent.amber": "Amber",
+  "toast.region": "Notifications",
+  "toast.close": "Dismiss",
+
+  "error.title": "Oops!",
+  "error.status": "Error {status}",
+  "error.unexpected": "An unexpected error occurred.",
+  "notFound.title": "404 - Page Not Found",
+  "notFound.description":
+    "Sorry, the page you're looking for doesn't exist or has been moved.",
+  "notFound.home": "Go back home",
+
+  "home.meta.description":
+    "Modern full-stack application built with Cloudflare Workers, React Router 7, and cutting-edge web technologies",
+  "home.title": "Full-Stack Demo Application",
+  "home.subtitle":
+    "A production-ready showcase of modern web development practices that could be used in your products",
+  "home.description":
+    "Experience the power of edge computing with React Router 7, Cloudflare Workers, and cutting-edge web technologies. Built for speed, scalability, and developer experience.",
+  "home.viewTodos": "View TodoList",
+  "home.viewWeather": "View Weather",
+  "home.stats.responseTime": "Response Time",
+  "home.stats.edgeLocations": "Edge Locations",
+  "home.keyboardHint":
+    "Use Tab key to navigate through interactive elements. Press Enter to activate links and buttons.",
+  "home.tech.title": "Technologies & Architecture",
+  "home.tech.infrastructure": "Infrastructure",
+  "home.tech.workers": "Cloudflare Workers (Edge Computing)",
+  "home.tech.kv": "Cloudflare KV (Distributed Database)",
+  "home.tech.ssr": "Server-Side Rendering (SSR)",
+  "home.tech.frontend": "Frontend",
+  "home.tech.radix": "Radix UI Components & Themes",
+  "home.tech.cssModules": "Pure CSS Modules",
+  "home.tech.themeToggle":
+    "Cookie-based themes: system, light, dark, high contrast and accent colours",
+  "home.tech.i18n": "Internationalization (English, German)",
+  "home.tech.animations": "Advanced Animations",
+  "home.tech.loadingIndicator": "Page Loading Indicator",
+  "home.tech.backend": "Backend & API",
+  "home.tech.rest": "REST API Architecture",
+  "home.tech.swagger": "Swagger-Compatible API",
+  "home.tech.actions": "React Router Actions",
+  "home.tech.kvDatabase": "Cloudflare KV Database",
+  "home.tech.toasts": "Async Toast Notifications",
+  "home.tech.kvScripts": "KV Import/Export Scripts",
+  "home.tech.accessibility": "Accessibility & UX",
+  "home.tech.semanticHtml": "Semantic HTML Structure",
+  "home.tech.aria": "ARIA Labels & Roles",
+  "home.tech.keyboard": "Keyboard Navigation Support",
+  "home.tech.mobile": "Mobile-Optimized Design",
+  "home.tech.touch": "Touch-Friendly Interactions",
+  "home.demos.title": "Interactive Demos",
+  "home.demos.todos.title": "Todo List",
+  "home.demos.todos.description":
+    "Full CRUD operations with Cloudflare KV persistence, optimistic UI updates, and real-time validation",
+  "home.demos.weather.title": "Weather Forecast",
+  "home.demos.weather.description":
+    "Dynamic city selection with API integration and responsive data visualization",
+  "home.roadmap.title": "Roadmap & Planned Features",
+  "home.roadmap.performance": "Performance",
+  "home.roadmap.serverCaching": "Server-side caching",
+  "home.roadmap.clientCaching": "Client API caching (SWR/TanStack Query)",
+  "home.roadmap.pagination": "Pagination & infinite scroll",
+  "home.roadmap.architecture": "Architecture",
+  "home.roadmap.zustand": "Zustand state management",
+  "home.roadmap.zod": "Zod schema validation",
+  "home.roadmap.cms": "Headless CMS integration",
+  "home.roadmap.devops": "DevOps",
+  "home.roadmap.cicd": "Git-based CI/CD pipeline",
+  "home.roadmap.staging": "Staging environment",
+  "home.roadmap.testing": "Automated testing",
+
+  "login.meta.description": "Sign in to manage your todos",
+  "login.title": "Sign In",
+  "login.intro":
+    "Sign in to see your todos, or create an account to get started.",
+  "login.email": "Email",
+  "login.password": "Password",
+  "login.signIn": "Sign in",
+  "login.createAccount": "Create account",
+  "login.backHome": "Back to home",
+  "login.fixErrors": "Please fix the errors below",
+  "login.failed":
+    "{intent, select, signup {Failed to sign up} other {Failed to sign in}} (Status: {status})",
+
+  "priority.1": "High",
+  "priority.2": "Medium",
+  "priority.3": "Low",
+
+  "lists.label": "Todo list",
+  "lists.new": "Create a new list",
+  "lists.delete": "Delete this list and its todos",
+  "lists.namePlaceholder": "List name...",
+  "lists.nameLabel": "New list name",
+  "lists.create": "Create",
+
+  "todos.meta.description": "Manage your todos",
+  "todos.title": "Todo List",
+  "todos.signedInAs": "Signed in as {email}",
+  "todos.trash": "Trash",
+  "todos.signOut": "Sign out",
+  "todos.stats.of": "of",
+  "todos.stats.completed":
+    "{count, plural, one {todo completed} other {todos completed}}",
+  "todos.summary.label": "Daily summary",
+  "todos.summary.text":
+    "{overdue} overdue{newlyOverdue, plural, =0 {} other { (# new)}}, {dueToday} due today across all lists.",
+  "todos.summary.showOverdue": "Show overdue",
+  "todos.sort.label": "Sort todos",
+  "todos.sort.prefix": "Sort:",
+  "todos.sort.manual": "Manual",
+  "todos.sort.priority": "Priority",
+  "todos.sort.created": "Newest",
+  "todos.sort.updated": "Recently updated",
+  "todos.sort.title": "Title",
+  "todos.sort.apply": "Sort",
+  "todos.sort.loadedOnly":
+    "{count, plural, one {Sorted among the # todo loaded so far. Load more to include the rest.} other {Sorted among the # todos loaded so far. Load more to include the rest.}}",
+  "todos.filter.all": "All",
+  "todos.filter.active": "Active",
+  "todos.filter.completed": "Completed",
+  "todos.filter.today": "Today",
+  "todos.filter.upcoming": "Upcoming",
+  "todos.filter.overdue": "Overdue",
+  "todos.add.heading": "Add New Todo",
+  "todos.add.titleLabel": "Todo title",
+  "todos.add.placeholder": "Add a new todo...",
+  "todos.add.priority": "Priority of the new todo",
+  "todos.add.dueDate": "Due date of the new todo",
+  "todos.add.tagsPlaceholder": "Tags, comma separated",
+  "todos.add.tags": "Tags of the new todo",
+  "todos.add.label": "Add new todo",
+  "todos.add.submit": "Add",
+  "todos.list.heading": "Your Todos",
+  "todos.list.label": "Todo items",
+  "todos.search.placeholder": "Search titles and tags...",
+  "todos.search.label": "Search todos",
+  "todos.search.submit": "Search",
+  "todos.search.clear": "Clear search",
+  "todos.tagFilter": "Filter by tag",
+  "todos.bulk.label": "Bulk actions",
+  "todos.bulk.deleteSelected": "Delete selected ({count})",
+  "todos.bulk.deleteChecked": "Delete selected",
+  "todos.bulk.moveToTop": "Move to top",
+  "todos.bulk.completeAll": "Complete all",
+  "todos.bulk.clearCompleted": "Clear completed",
+  "todos.bulk.select": "Select",
+  "todos.empty.noMatchTitle": "No matching todos",
+  "todos.empty.noMatchQuery": 'Nothing in this list matches "{q}".',
+  "todos.empty.noMatchTag": "Nothing in this list matches the tag #{tag}.",
+  "todos.empty.noMatchBoth":
+    'Nothing in this list matches "{q}" with the tag #{tag}.',
+  "todos.empty.title": "No todos yet",
+  "todos.empty.description":
+    "Start organizing your tasks by adding your first todo above.",
+  "todos.empty.activeTitle": "No active todos",
+  "todos.empty.active": "All tasks are completed! Great job!",
+  "todos.empty.completedTitle": "No completed todos",
+  "todos.empty.completed":
+    "No completed tasks yet. Start checking off your todos!",
+  "todos.empty.todayTitle": "No todos due today",
+  "todos.empty.today": "Nothing is due today.",
+  "todos.empty.upcomingTitle": "No upcoming todos",
+  "todos.empty.upcoming":
+    "{days, plural, one {Nothing is due tomorrow.} other {Nothing is due in the next # days.}}",
+  "todos.empty.overdueTitle": "No overdue todos",
+  "todos.empty.overdue": "You are on top of every deadline.",
+  "todos.item.select": 'Select "{title}"',
+  "todos.item.markComplete": 'Mark "{title}" as complete',
+  "todos.item.markIncomplete": 'Mark "{title}" as incomplete',
+  "todos.item.editTitle": "Edit todo title",
+  "todos.item.editDueDate": "Edit due date",
+  "todos.item.editTagsPlaceholder": "Tags",
+  "todos.item.editTags": "Edit tags, comma separated",
+  "todos.item.priority": 'Priority of "{title}"',
+  "todos.item.savePriority": "Save",
+  "todos.item.due": "Due",
+  "todos.item.overdue": "(overdue)",
+  "todos.item.tags": "Tags",
+  "todos.item.actions": "Todo item actions",
+  "todos.item.save": "Save edit",
+  "todos.item.cancel": "Cancel edit",
+  "todos.item.moveUp": 'Move "{title}" up',
+  "todos.item.moveDown": 'Move "{title}" down',
+  "todos.item.edit": "Edit todo",
+  "todos.item.move": "Move todo",
+  "todos.item.moveTo": "Move to {list}",
+  "todos.item.moveTarget": "List to move to",
+  "todos.item.delete": "Delete todo",
+  "todos.loadMore": "Load more",
+  "todos.deleteList.confirm": 'Delete the list "{name}" and all of its todos?',
+  "todos.deleteConfirm.title": 'Delete "{title}"?',
+  "todos.deleteConfirm.description":
+    "The todo moves to the trash, where you can still restore it.",
+  "todos.deleteConfirm.submit": "Move to trash",
+  "todos.deleted.title": "Todo Deleted",
+  "todos.deleted.description": '"{title}" was moved to the trash.',
+  "todos.deleted.descriptionUnknown": "The todo was moved to the trash.",
+  "todos.conflict.title": "Edit Conflict",
+  "todos.conflict.description":
+    '"{title}" was changed somewhere else since you loaded it.',
+  "todos.conflict.keepMine": "Keep mine",
+  "todos.conflict.takeTheirs": "Take theirs",
+  "todos.batch.title": "Todos Updated",
+  "todos.batch.failedTitle": "Some Changes Failed",
+  "todos.batch.trashed":
+    "{count, plural, one {# todo moved to the trash.} other {# todos moved to the trash.}}",
+  "todos.batch.completed":
+    "{count, plural, one {# todo marked complete.} other {# todos marked complete.}}",
+  "todos.batch.reordered": "New order saved.",
+  "todos.batch.failed":
+    "{count, plural, one {# todo was changed elsewhere or could not be saved.} other {# todos were changed elsewhere or could not be saved.}}",
+  "todos.batch.openTrash": "Open trash",
+  "todos.sr.error": "Error: {error}",
+  "todos.sr.deleted": "Todo moved to the trash",
+  "todos.sr.restored": 'Todo "{title}" restored',
+  "todos.sr.updated": 'Todo "{title}" updated',
+  "todos.sr.moved": 'Todo "{title}" moved to {list}',
+  "todos.sr.movedElsewhere": 'Todo "{title}" moved to another list',
+  "todos.sr.conflict":
+    'Todo "{title}" was changed somewhere else. Keep your change or take theirs.',
+  "todos.sr.added": 'Todo "{title}" added',
+  "todos.sr.position": 'Todo "{title}" moved to position {position} of {total}',
+  "todos.error.toast": "Todo Error",
+  "todos.error.notFound": "Todos Not Found",
+  "todos.error.title": "Error Loading Todos",
+  "todos.error.listMissing": "This todo list does not exist",
+  "todos.flash.listCreated.title": "List Created",
+  "todos.flash.listCreated.description": 'Created the list "{name}"',
+  "todos.flash.listDeleted.title": "List Deleted",
+
+  "trash.meta.title": "Trash - Todo List",
+  "trash.meta.description": "Restore or purge deleted todos",
+  "trash.back": "Back to todos",
+  "trash.title": "Trash",
+  "trash.intro":
+    "Deleted todos stay here for 30 days before they are removed for good.",
+  "trash.empty": "Empty trash",
+  "trash.confirmEmpty": "Delete every todo in the trash for good?",
+  "trash.isEmpty": "The trash is empty.",
+  "trash.label": "Deleted todos",
+  "trash.unknownList": "Unknown list",
+  "trash.deleted": "Deleted",
+  "trash.expires": "Expires",
+  "trash.restore": "Restore",
+  "trash.purge": "Delete forever",
+  "trash.purgeLabel": 'Delete "{title}" for good',
+  "trash.nextPage": "Next page",
+  "trash.restored.title": "Todo Restored",
+  "trash.restored.description": '"{title}" is back in {list}.',
+  "trash.emptied.title": "Trash Emptied",
+  "trash.emptied.description":
+    "{count, plural, one {# todo deleted for good.} other {# todos deleted for good.}}",
+
+  "weather.meta.title": "Weather Data",
+  "weather.meta.description": "View weather information",
+  "weather.title": "Weather Information",
+  "weather.yourLocation": "Your location",
+  "weather.stale":
+    "Weather data may be outdated. The weather service is unavailable, so this forecast is from {time} local time.",
+  "weather.selectCity": "Select City",
+  "weather.favorites": "Favourite cities",
+  "weather.favorite": "Favourite",
+  "weather.favoritesNotSaved": "Favourites Not Saved",
+  "weather.compareAll": "Compare all",
+  "weather.compareFirst": "Compare first {count}",
+  "weather.useMyLocation": "Use my location",
+  "weather.locating": "Locating...",
+  "weather.locationUnavailable": "Location Unavailable",
+  "weather.locationUnsupported": "Your browser cannot share its location",
+  "weather.locationDenied": "Permission to use your location was denied",
+  "weather.locationFailed": "Your location could not be determined",
+  "weather.cityChanged.title": "City Changed",
+  "weather.cityChanged.description": "Now showing weather for {city}",
+  "weather.invalidCity": "Invalid city format",
+  "weather.changeCityFailed": "Failed to change city",
+  "weather.current": "Current Weather",
+  "weather.for": "Weather for {city}",
+  "weather.temperature": "Temperature",
+  "weather.windSpeed": "Wind Speed",
+  "weather.humidity": "Humidity",
+  "weather.sunrise": "Sunrise",
+  "weather.sunset": "Sunset",
+  "weather.uvIndex": "UV Index",
+  "weather.rainChance": "Rain Chance",
+  "weather.uv.low": "Low",
+  "weather.uv.moderate": "Moderate",
+  "weather.uv.high": "High",
+  "weather.uv.very-high": "Very High",
+  "weather.uv.extreme": "Extreme",
+  "weather.next48": "Next 48 Hours",
+  "weather.48From": "48 Hours from {day}",
+  "weather.backToNow": "Back to now",
+  "weather.forecast": "7-Day Forecast",
+  "weather.error.toast": "Weather Error",
+  "weather.error.notFound": "Weather Not Found",
+  "weather.error.title": "Weather Error",
+  "weather.code.0": "Clear sky",
+  "weather.code.1": "Mainly clear",
+  "weather.code.2": "Partly cloudy",
+  "weather.code.3": "Overcast",
+  "weather.code.45": "Fog",
+  "weather.code.48": "Depositing rime fog",
+  "weather.code.51": "Light drizzle",
+  "weather.code.53": "Moderate drizzle",
+  "weather.code.55": "Dense drizzle",
+  "weather.code.61": "Slight rain",
+  "weather.code.63": "Moderate rain",
+  "weather.code.65": "Heavy rain",
+  "weather.code.71": "Slight snow fall",
+  "weather.code.73": "Moderate snow fall",
+  "weather.code.75": "Heavy snow fall",
+  "weather.code.77": "Snow grains",
+  "weather.code.80": "Slight rain showers",
+  "weather.code.81": "Moderate rain showers",
+  "weather.code.82": "Violent rain showers",
+  "weather.code.85": "Slight snow showers",
+  "weather.code.86": "Heavy snow showers",
+  "weather.code.95": "Thunderstorm",
+  "weather.code.96": "Thunderstorm with slight hail",
+  "weather.code.99": "Thunderstorm with heavy hail",
+  "weather.code.unknown": "Unknown weather",
+  "weather.flash.favoriteAdded.title": "Favourite Added",
+  "weather.flash.favoriteAdded.description":
+    "{city} is now one of your favourites",
+  "weather.flash.favoriteRemoved.title": "Favourite Removed",
+  "weather.flash.favoriteRemoved.description":
+    "{city} is no longer one of your favourites",
+
+  "citySelector.label": "City",
+  "citySelector.placeholder": "Search city...",
+  "citySelector.options": "Cities",
+  "citySelector.empty": "No cities found",
+  "units.temperature": "Temperature unit",
+  "units.windSpeed": "Wind speed unit",
+
+  "timeline.temperature": "Temperature",
+  "timeline.humidity": "Humidity",
+  "timeline.windSpeed": "Wind speed",
+  "timeline.chartTitle": "{title} from {low} to {high}",
+  "timeline.range": "{from} to {to}",
+  "timeline.charts": "Hourly charts, {range}",
+  "timeline.showTable": "Show hourly data as a table",
+  "timeline.caption": "Hourly forecast, {range}",
+  "timeline.time": "Time",
+  "timeline.temperatureColumn": "Temperature ({unit})",
+  "timeline.humidityColumn": "Humidity (%)",
+  "timeline.windColumn": "Wind ({unit})",
+
+  "compare.meta.title": "Compare Weather",
+  "compare.meta.description":
+    "Current weather and forecasts of several cities side by side",
+  "compare.title": "Compare Weather",
+  "compare.back": "Back to weather",
+  "compare.empty":
+    "Mark cities as favourites on the weather page to compare them here.",
+  "compare.tooMany": "At most {count} cities can be compared",
+  "compare.caption": "Current weather and 7-day forecast by city",
+  "compare.openWeather": "Open the weather page",
+  "compare.unavailable": "Forecast unavailable",
+  "compare.outdated": "May be outdated",
+  "compare.now": "Now",
+  "compare.forecast": "7-Day Forecast, high and low",
+} as const;
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
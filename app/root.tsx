@@ -1,4 +1,3 @@
-import { useEffect, useState } from "react";
 import {
   isRouteErrorResponse,
   Links,
@@ -7,14 +6,30 @@ import {
   Scripts,
   ScrollRestoration,
   useNavigation,
+  useRouteLoaderData,
 } from "react-router";
 import { Theme, ThemePanel } from "@radix-ui/themes";
 import { ToastProvider } from "./context/toast-context";
+import { I18nProvider, useT } from "./context/i18n-context";
+import { ThemeProvider, useTheme } from "./context/theme-context";
 import { GlobalToast } from "./components/toast";
 import { NavigationTabs } from "./components/navigation-tabs";
 import { Logo } from "./components/logo";
 import { Favicon } from "./components/favicon";
 import { ThemeToggle } from "./components/theme-toggle";
+import { LanguageSwitcher } from "./components/language-switcher";
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  resolveLocale,
+  type Locale,
+} from "./lib/i18n";
+import {
+  DEFAULT_THEME,
+  SYSTEM_APPEARANCE_SCRIPT,
+  parseThemeCookie,
+} from "./lib/theme";
+import type { FlashMessage, FlashSession } from "./lib/flash";
 
 import type { Route } from "./+types/root";
 import "@radix-ui/themes/styles.css";
@@ -34,41 +49,73 @@ export const links: Route.LinksFunction = () => [
   },
 ];
 
-export function Layout({ children }: { children: React.ReactNode }) {
-  const isDev = import.meta.env.DEV;
-  const [appearance, setAppearance] = useState<"light" | "dark">("dark");
+export function loader({ request, params, context }: Route.LoaderArgs) {
+  // A first segment that is no supported language is no page either
+  if (params.lang !== undefined && !isLocale(params.lang)) {
+    throw new Response("Not Found", { status: 404, statusText: "Not Found" });
+  }
+  return {
+    locale: resolveLocale(request, params.lang),
+    lang: isLocale(params.lang) ? params.lang : null,
+    theme: parseThemeCookie(request.headers.get("Cookie")),
+    // Messages queued by an action, here or before a redirect
+    flash: (context.flash as FlashSession | undefined)?.take() ?? [],
+  };
+}
 
-  useEffect(() => {
-    // Get theme from localStorage on mount
-    const savedTheme = localStorage.getItem("theme") as "light" | "dark" | null;
-    if (savedTheme) {
-      setAppearance(savedTheme);
-    }
+export function Layout({ children }: { children: React.ReactNode }) {
+  // Missing when the root loader itself failed, e.g. for an unknown language
+  const root = useRouteLoaderData<typeof loader>("root");
 
-    // Listen for theme changes
-    const handleThemeChange = (event: CustomEvent<"light" | "dark">) => {
-      setAppearance(event.detail);
-    };
+  return (
+    <ThemeProvider theme={root?.theme ?? DEFAULT_THEME}>
+      <Document
+        locale={root?.locale ?? DEFAULT_LOCALE}
+        lang={root?.lang ?? null}
+        flash={root?.flash ?? []}
+      >
+        {children}
+      </Document>
+    </ThemeProvider>
+  );
+}
 
-    window.addEventListener("themechange", handleThemeChange as EventListener);
-    return () => {
-      window.removeEventListener(
-        "themechange",
-        handleThemeChange as EventListener
-      );
-    };
-  }, []);
+function Document({
+  locale,
+  lang,
+  flash,
+  children,
+}: {
+  locale: Locale;
+  lang: Locale | null;
+  flash: FlashMessage[];
+  children: React.ReactNode;
+}) {
+  const isDev = import.meta.env.DEV;
+  const { mode, contrast, accent } = useTheme().theme;
+  const isSystem = mode === "system";
+  const isHighContrast = contrast === "high";
 
   return (
-    <html lang="en">
+    // In "system" mode the script below adds the light or dark class
+    <html
+      lang={locale}
+      className={isSystem ? undefined : mode}
+      suppressHydrationWarning
+    >
       <head>
+        {isSystem && (
+          <script
+            dangerouslySetInnerHTML={{ __html: SYSTEM_APPEARANCE_SCRIPT }}
+          />
+        )}
         <Favicon />
         <meta charSet="utf-8" />
         <meta
           name="viewport"
           content="width=device-width, initial-scale=1, maximum-scale=5, user-scalable=yes"
         />
-        <meta name="color-scheme" content="light dark" />
+        <meta name="color-scheme" content={isSystem ? "light dark" : mode} />
         <meta name="theme-color" content="#0090ff" />
         <meta name="mobile-web-app-capable" content="yes" />
         <meta name="apple-mobile-web-app-capable" content="yes" />
@@ -80,12 +127,20 @@ export function Layout({ children }: { children: React.ReactNode }) {
         <Links />
       </head>
       <body>
-        <Theme appearance={appearance} accentColor="orange">
-          <ToastProvider>
-            {children}
-            <GlobalToast />
-            {isDev && <ThemePanel defaultOpen={false} />}
-          </ToastProvider>
+        <Theme
+          appearance={isSystem ? "inherit" : mode}
+          accentColor={accent}
+          grayColor={isHighContrast ? "gray" : "auto"}
+          panelBackground={isHighContrast ? "solid" : "translucent"}
+          className={isHighContrast ? styles.highContrast : undefined}
+        >
+          <I18nProvider locale={locale} lang={lang}>
+            <ToastProvider>
+              {children}
+              <GlobalToast flash={flash} />
+              {isDev && <ThemePanel defaultOpen={false} />}
+            </ToastProvider>
+          </I18nProvider>
         </Theme>
         <ScrollRestoration />
         <Scripts />
@@ -99,23 +154,26 @@ export default function App() {
     <>
       <NavigationTabs />
       <ThemeToggle />
+      <LanguageSwitcher />
       <Outlet />
     </>
   );
 }
 
 export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  const t = useT();
+
   if (isRouteErrorResponse(error) && error.status === 404) {
     return <NotFound />;
   }
 
   // For other errors, show a generic error message
-  let message = "Oops!";
-  let details = "An unexpected error occurred.";
+  let message = t("error.title");
+  let details = t("error.unexpected");
   let stack: string | undefined;
 
   if (isRouteErrorResponse(error)) {
-    message = `Error ${error.status}`;
+    message = t("error.status", { status: error.status });
     details = error.statusText || details;
   } else if (error instanceof Error) {
     details = error.message;
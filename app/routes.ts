@@ -7,7 +7,18 @@ import {
 } from "@react-router/dev/routes";
 
 export default [
-  index("routes/home.tsx"),
-  route("todos", "routes/todos.tsx"),
-  route("weather", "routes/weather.tsx"),
+  // Every page also lives under an optional /:lang/ prefix, e.g. /de/todos,
+  // see resolveLocale in lib/i18n.ts
+  ...prefix(":lang?", [
+    index("routes/home.tsx"),
+    route("todos", "routes/todos.tsx"),
+    route("todos/trash", "routes/todos-trash.tsx"),
+    route("todos/:listId", "routes/todos.tsx", { id: "routes/todos-list" }),
+    route("weather", "routes/weather.tsx"),
+    route("weather/compare", "routes/weather-compare.tsx"),
+    route("login", "routes/login.tsx"),
+    route("logout", "routes/logout.tsx"),
+  ]),
+  route("locale", "routes/locale.tsx"),
+  route("theme", "routes/theme.tsx"),
 ] satisfies RouteConfig;
@@ -2,15 +2,14 @@ import { Link } from "react-router";
 import styles from "./home.module.css";
 import type { LoaderFunctionArgs } from "react-router";
 import { Hero } from "../components/hero";
+import { useLocalizePath, useT } from "../context/i18n-context";
+import { metaTranslator, type MetaMatches } from "../lib/i18n";
 
-export function meta() {
+export function meta({ matches }: { matches: MetaMatches }) {
+  const t = metaTranslator(matches);
   return [
-    { title: "Full-Stack Demo Application" },
-    {
-      name: "description",
-      content:
-        "Modern full-stack application built with Cloudflare Workers, React Router 7, and cutting-edge web technologies",
-    },
+    { title: t("home.title") },
+    { name: "description", content: t("home.meta.description") },
   ];
 }
 
@@ -25,113 +24,108 @@ export default function Home({
 }: {
   loaderData: { message: string };
 }) {
+  const t = useT();
+  const localizePath = useLocalizePath();
+
   return (
     <main className={styles.container}>
       <Hero />
 
-      <p className={styles.visuallyHidden}>
-        Use Tab key to navigate through interactive elements. Press Enter to
-        activate links and buttons.
-      </p>
+      <p className={styles.visuallyHidden}>{t("home.keyboardHint")}</p>
 
       <section className={styles.techSection}>
-        <h2 className={styles.sectionTitle}>Technologies & Architecture</h2>
+        <h2 className={styles.sectionTitle}>{t("home.tech.title")}</h2>
         <div className={styles.techGrid}>
           <div className={styles.techCategory}>
-            <h3>🚀 Infrastructure</h3>
+            <h3>🚀 {t("home.tech.infrastructure")}</h3>
             <ul>
-              <li>Cloudflare Workers (Edge Computing)</li>
-              <li>Cloudflare KV (Distributed Database)</li>
-              <li>Server-Side Rendering (SSR)</li>
+              <li>{t("home.tech.workers")}</li>
+              <li>{t("home.tech.kv")}</li>
+              <li>{t("home.tech.ssr")}</li>
             </ul>
           </div>
           <div className={styles.techCategory}>
-            <h3>⚛️ Frontend</h3>
+            <h3>⚛️ {t("home.tech.frontend")}</h3>
             <ul>
               <li>React 19</li>
               <li>React Router v7 (Remix)</li>
-              <li>Radix UI Components & Themes</li>
-              <li>Pure CSS Modules</li>
-              <li>Dark/Light Theme Toggle</li>
-              <li>Advanced Animations</li>
-              <li>Page Loading Indicator</li>
+              <li>{t("home.tech.radix")}</li>
+              <li>{t("home.tech.cssModules")}</li>
+              <li>{t("home.tech.themeToggle")}</li>
+              <li>{t("home.tech.i18n")}</li>
+              <li>{t("home.tech.animations")}</li>
+              <li>{t("home.tech.loadingIndicator")}</li>
             </ul>
           </div>
           <div className={styles.techCategory}>
-            <h3>🔧 Backend & API</h3>
+            <h3>🔧 {t("home.tech.backend")}</h3>
             <ul>
-              <li>REST API Architecture</li>
-              <li>Swagger-Compatible API</li>
-              <li>React Router Actions</li>
-              <li>Cloudflare KV Database</li>
-              <li>Async Toast Notifications</li>
-              <li>KV Import/Export Scripts</li>
+              <li>{t("home.tech.rest")}</li>
+              <li>{t("home.tech.swagger")}</li>
+              <li>{t("home.tech.actions")}</li>
+              <li>{t("home.tech.kvDatabase")}</li>
+              <li>{t("home.tech.toasts")}</li>
+              <li>{t("home.tech.kvScripts")}</li>
             </ul>
           </div>
           <div className={styles.techCategory}>
-            <h3>♿ Accessibility & UX</h3>
+            <h3>♿ {t("home.tech.accessibility")}</h3>
             <ul>
-              <li>Semantic HTML Structure</li>
-              <li>ARIA Labels & Roles</li>
-              <li>Keyboard Navigation Support</li>
-              <li>Mobile-Optimized Design</li>
-              <li>Touch-Friendly Interactions</li>
+              <li>{t("home.tech.semanticHtml")}</li>
+              <li>{t("home.tech.aria")}</li>
+              <li>{t("home.tech.keyboard")}</li>
+              <li>{t("home.tech.mobile")}</li>
+              <li>{t("home.tech.touch")}</li>
             </ul>
           </div>
         </div>
       </section>
 
       <section className={styles.demoSection}>
-        <h2 className={styles.sectionTitle}>Interactive Demos</h2>
+        <h2 className={styles.sectionTitle}>{t("home.demos.title")}</h2>
         <div className={styles.cardGrid}>
-          <Link to="/todos" className={`${styles.card} ${styles.cardDelay1}`}>
-            <h3>📝 Todo List</h3>
-            <p>
-              Full CRUD operations with Cloudflare KV persistence, optimistic UI
-              updates, and real-time validation
-            </p>
+          <Link
+            to={localizePath("/todos")}
+            className={`${styles.card} ${styles.cardDelay1}`}
+          >
+            <h3>📝 {t("home.demos.todos.title")}</h3>
+            <p>{t("home.demos.todos.description")}</p>
           </Link>
-          <Link to="/weather" className={`${styles.card} ${styles.cardDelay2}`}>
-            <h3>🌤️ Weather Forecast</h3>
-            <p>
-              Dynamic city selection with API integration and responsive data
-              visualization
-            </p>
+          <Link
+            to={localizePath("/weather")}
+            className={`${styles.card} ${styles.cardDelay2}`}
+          >
+            <h3>🌤️ {t("home.demos.weather.title")}</h3>
+            <p>{t("home.demos.weather.description")}</p>
           </Link>
         </div>
       </section>
 
       <section className={styles.roadmapSection}>
-        <h2 className={styles.sectionTitle}>Roadmap & Planned Features</h2>
+        <h2 className={styles.sectionTitle}>{t("home.roadmap.title")}</h2>
         <div className={styles.roadmapGrid}>
           <div className={styles.roadmapColumn}>
-            <h3>🎨 UI/UX Enhancements</h3>
-            <ul>
-              <li>Internationalization (i18n)</li>
-            </ul>
-          </div>
-          <div className={styles.roadmapColumn}>
-            <h3>⚡ Performance</h3>
+            <h3>⚡ {t("home.roadmap.performance")}</h3>
             <ul>
-              <li>Server-side caching</li>
-              <li>Client API caching (SWR/TanStack Query)</li>
-              <li>Pagination & infinite scroll</li>
+              <li>{t("home.roadmap.serverCaching")}</li>
+              <li>{t("home.roadmap.clientCaching")}</li>
+              <li>{t("home.roadmap.pagination")}</li>
             </ul>
           </div>
           <div className={styles.roadmapColumn}>
-            <h3>🏗️ Architecture</h3>
+            <h3>🏗️ {t("home.roadmap.architecture")}</h3>
             <ul>
-              <li>Zustand state management</li>
-              <li>Zod schema validation</li>
-              <li>Headless CMS integration</li>
+              <li>{t("home.roadmap.zustand")}</li>
+              <li>{t("home.roadmap.zod")}</li>
+              <li>{t("home.roadmap.cms")}</li>
             </ul>
           </div>
           <div className={styles.roadmapColumn}>
-            <h3>🚢 DevOps</h3>
+            <h3>🚢 {t("home.roadmap.devops")}</h3>
             <ul>
-              <li>Git-based CI/CD pipeline</li>
-              <li>Staging environment</li>
-              <li>Automated testing</li>
+              <li>{t("home.roadmap.cicd")}</li>
+              <li>{t("home.roadmap.staging")}</li>
+              <li>{t("home.roadmap.testing")}</li>
             </ul>
           </div>
         </div>
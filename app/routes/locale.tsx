@@ -0,0 +1,34 @@
+import { redirect } from "react-router";
+import { isLocale, serializeLocaleCookie, stripLocale } from "../lib/i18n";
+
+// Switching the language only happens through the POST action
+export function loader() {
+  return redirect("/");
+}
+
+// Remembers the language picked with the switcher and goes back to the page
+// without a /:lang/ prefix, which would otherwise win over the cookie
+export async function action({ request }: { request: Request }) {
+  const formData = await request.formData();
+  const locale = formData.get("locale");
+  if (!isLocale(locale)) {
+    throw new Response("Unknown language", {
+      status: 400,
+      statusText: "Bad Request",
+    });
+  }
+
+  // Only same-origin targets are allowed, so the form cannot redirect
+  // elsewhere. Resolving it the way the browser would also catches paths
+  // such as "/\evil.com", which browsers read as "//evil.com".
+  const redirectTo = formData.get("redirectTo")?.toString() || "/";
+  const origin = new URL(request.url).origin;
+  const target = URL.canParse(redirectTo, request.url)
+    ? new URL(redirectTo, request.url)
+    : null;
+  const path =
+    target?.origin === origin ? `${target.pathname}${target.search}` : "/";
+  return redirect(stripLocale(path), {
+    headers: { "Set-Cookie": serializeLocaleCookie(locale) },
+  });
+}
@@ -0,0 +1,207 @@
+import {
+  Form,
+  Link,
+  redirect,
+  useActionData,
+  useNavigation,
+  useSearchParams,
+} from "react-router";
+import { Button, TextField } from "@radix-ui/themes";
+import { CredentialsSchema, PASSWORD_MIN_LENGTH } from "../schemas/auth";
+import {
+  toFieldErrors,
+  type FieldErrors,
+  type ValidationErrorBody,
+} from "../schemas/error";
+import { useLocalizePath, useT } from "../context/i18n-context";
+import {
+  createTranslator,
+  isLocale,
+  localizePath,
+  metaTranslator,
+  resolveLocale,
+  type MetaMatches,
+} from "../lib/i18n";
+import styles from "./login.module.css";
+
+export function meta({ matches }: { matches: MetaMatches }) {
+  const t = metaTranslator(matches);
+  return [
+    { title: t("login.title") },
+    { name: "description", content: t("login.meta.description") },
+  ];
+}
+
+// Only same-site paths are allowed, so the form cannot redirect elsewhere
+function safeRedirectTo(
+  value: FormDataEntryValue | string | null,
+  lang?: string
+): string {
+  const path = value?.toString() ?? "";
+  return path.startsWith("/") && !path.startsWith("//")
+    ? path
+    : localizePath("/todos", isLocale(lang) ? lang : null);
+}
+
+export async function loader({
+  request,
+  params,
+  context,
+}: {
+  request: Request;
+  params: { lang?: string };
+  context: any;
+}) {
+  if (context.user) {
+    const url = new URL(request.url);
+    throw redirect(
+      safeRedirectTo(url.searchParams.get("redirectTo"), params.lang)
+    );
+  }
+  return null;
+}
+
+type ActionData = { error: string; fields?: FieldErrors };
+
+export async function action({
+  request,
+  params,
+  context,
+}: {
+  request: Request;
+  params: { lang?: string };
+  context: any;
+}): Promise<ActionData | Response> {
+  const t = createTranslator(resolveLocale(request, params.lang));
+  const formData = await request.formData();
+  const intent = formData.get("intent") === "signup" ? "signup" : "login";
+
+  const parsed = CredentialsSchema.safeParse({
+    email: formData.get("email")?.toString() ?? "",
+    password: formData.get("password")?.toString() ?? "",
+  });
+  if (!parsed.success) {
+    return {
+      error: t("login.fixErrors"),
+      fields: toFieldErrors(parsed.error),
+    };
+  }
+
+  const response: Response = await context.fetchInternal(
+    `/api/auth/${intent}`,
+    { method: "POST", body: JSON.stringify(parsed.data) }
+  );
+
+  if (response.status === 422) {
+    const body: ValidationErrorBody = await response.json();
+    return { error: t("login.fixErrors"), fields: body.fields };
+  }
+  if (!response.ok) {
+    const body = (await response.json().catch(() => ({}))) as {
+      error?: string;
+    };
+    return {
+      error:
+        body.error ?? t("login.failed", { intent, status: response.status }),
+    };
+  }
+
+  // Hand the session cookie set by the API on to the browser
+  return redirect(safeRedirectTo(formData.get("redirectTo"), params.lang), {
+    headers: { "Set-Cookie": response.headers.get("Set-Cookie") ?? "" },
+  });
+}
+
+export default function LoginPage() {
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const [searchParams] = useSearchParams();
+  const t = useT();
+  const localizePath = useLocalizePath();
+  const busy = navigation.state !== "idle";
+  const emailError = actionData?.fields?.email?.[0];
+  const passwordError = actionData?.fields?.password?.[0];
+
+  return (
+    <main className={styles.container}>
+      <h1>{t("login.title")}</h1>
+      <p className={styles.intro}>{t("login.intro")}</p>
+      <Form method="post" className={styles.form} noValidate>
+        <input
+          type="hidden"
+          name="redirectTo"
+          value={searchParams.get("redirectTo") ?? localizePath("/todos")}
+        />
+        <label htmlFor="login-email" className={styles.label}>
+          {t("login.email")}
+        </label>
+        <TextField.Root
+          id="login-email"
+          name="email"
+          type="email"
+          autoComplete="email"
+          size="3"
+          required
+          aria-invalid={emailError ? true : undefined}
+          aria-describedby={emailError ? "login-email-error" : undefined}
+        />
+        {emailError && (
+          <p id="login-email-error" className={styles.fieldError}>
+            {emailError}
+          </p>
+        )}
+
+        <label htmlFor="login-password" className={styles.label}>
+          {t("login.password")}
+        </label>
+        <TextField.Root
+          id="login-password"
+          name="password"
+          type="password"
+          autoComplete="current-password"
+          size="3"
+          required
+          minLength={PASSWORD_MIN_LENGTH}
+          aria-invalid={passwordError ? true : undefined}
+          aria-describedby={passwordError ? "login-password-error" : undefined}
+        />
+        {passwordError && (
+          <p id="login-password-error" className={styles.fieldError}>
+            {passwordError}
+          </p>
+        )}
+
+        {actionData?.error && !actionData.fields && (
+          <p role="alert" className={styles.formError}>
+            {actionData.error}
+          </p>
+        )}
+
+        <div className={styles.actions}>
+          <Button
+            type="submit"
+            name="intent"
+            value="login"
+            size="3"
+            disabled={busy}
+          >
+            {t("login.signIn")}
+          </Button>
+          <Button
+            type="submit"
+            name="intent"
+            value="signup"
+            size="3"
+            variant="soft"
+            disabled={busy}
+          >
+            {t("login.createAccount")}
+          </Button>
+        </div>
+      </Form>
+      <Link to={localizePath("/")} className={styles.homeLink}>
+        {t("login.backHome")}
+      </Link>
+    </main>
+  );
+}
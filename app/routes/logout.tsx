@@ -0,0 +1,25 @@
+import { redirect } from "react-router";
+import { isLocale, localizePath } from "../lib/i18n";
+
+// Logging out changes state, so it only happens through the POST action
+export function loader() {
+  return redirect("/");
+}
+
+export async function action({
+  params,
+  context,
+}: {
+  params: { lang?: string };
+  context: any;
+}) {
+  const response: Response = await context.fetchInternal("/api/auth/logout", {
+    method: "POST",
+  });
+
+  // Hand the cleared session cookie on to the browser
+  const lang = isLocale(params.lang) ? params.lang : null;
+  return redirect(localizePath("/login", lang), {
+    headers: { "Set-Cookie": response.headers.get("Set-Cookie") ?? "" },
+  });
+}
@@ -0,0 +1,25 @@
+import { redirect } from "react-router";
+import { ThemeSchema, serializeThemeCookie } from "../lib/theme";
+
+// Changing the theme only happens through the POST action
+export function loader() {
+  return redirect("/");
+}
+
+// Remembers the theme picked in the theme menu; the root loader reads it back
+// from the cookie on every request
+export async function action({ request }: { request: Request }) {
+  const formData = await request.formData();
+  const theme = ThemeSchema.safeParse(Object.fromEntries(formData));
+  if (!theme.success) {
+    throw new Response("Unknown theme", {
+      status: 400,
+      statusText: "Bad Request",
+    });
+  }
+  // A resource route, so it answers with a plain Response
+  return Response.json(
+    { theme: theme.data },
+    { headers: { "Set-Cookie": serializeThemeCookie(theme.data) } }
+  );
+}
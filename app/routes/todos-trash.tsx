@@ -0,0 +1,321 @@
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import { useCallback, useEffect, useMemo, type FormEvent } from "react";
+import { Button } from "@radix-ui/themes";
+import { ArrowLeftIcon, ResetIcon, TrashIcon } from "@radix-ui/react-icons";
+import { useToast } from "../context/toast-context";
+import { useLocalizePath, useT } from "../context/i18n-context";
+import { requireSignedIn } from "../lib/auth";
+import {
+  metaTranslator,
+  resolveFormatLocale,
+  type MetaMatches,
+} from "../lib/i18n";
+import type { List, ListCollection } from "../schemas/list";
+import type { Todo, TrashedTodo, TrashPage } from "../schemas/todo";
+import styles from "./todos-trash.module.css";
+
+const TRASH_PAGE_SIZE = 100;
+
+export function meta({ matches }: { matches: MetaMatches }) {
+  const t = metaTranslator(matches);
+  return [
+    { title: t("trash.meta.title") },
+    { name: "description", content: t("trash.meta.description") },
+  ];
+}
+
+export async function loader({
+  request,
+  params,
+  context,
+}: {
+  request: Request;
+  params: { lang?: string };
+  context: any;
+}) {
+  requireSignedIn(request, context);
+  try {
+    const query = new URLSearchParams({ limit: String(TRASH_PAGE_SIZE) });
+    const cursor = new URL(request.url).searchParams.get("cursor");
+    if (cursor) query.set("cursor", cursor);
+
+    const [response, listsResponse] = await Promise.all([
+      context.fetchInternal(`/api/trash?${query}`),
+      context.fetchInternal("/api/lists"),
+    ]);
+    if (!response.ok)
+      throw new Error(
+        `Failed to load trash (Status: ${response.status} ${response.statusText})`
+      );
+    if (!listsResponse.ok)
+      throw new Error(
+        `Failed to load lists (Status: ${listsResponse.status} ${listsResponse.statusText})`
+      );
+    const { todos, next_cursor }: TrashPage = await response.json();
+    const { lists }: ListCollection = await listsResponse.json();
+
+    return {
+      todos,
+      nextCursor: next_cursor,
+      lists,
+      locale: resolveFormatLocale(request, params.lang),
+      clientTimezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  } catch (error) {
+    console.error("Error in trash loader:", error);
+    throw error;
+  }
+}
+
+type ActionData =
+  | { intent: "restore"; data: Todo }
+  | { intent: "purge"; data: { id: string } }
+  | { intent: "empty"; data: { deletedTodos: number } }
+  | { intent: "error"; data: { error: string } };
+
+export async function action({
+  request,
+  context,
+}: {
+  request: Request;
+  context: any;
+}): Promise<ActionData> {
+  requireSignedIn(request, context);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const listId = formData.get("listId")?.toString() ?? "";
+  const id = formData.get("id")?.toString() ?? "";
+
+  try {
+    switch (intent) {
+      case "restore": {
+        const response: Response = await context.fetchInternal(
+          `/api/lists/${listId}/todos/${id}/restore`,
+          { method: "POST" }
+        );
+        if (!response.ok)
+          throw new Error(
+            `Failed to restore todo (Status: ${response.status} ${response.statusText})`
+          );
+        return { intent: "restore", data: await response.json() };
+      }
+
+      case "purge": {
+        const response: Response = await context.fetchInternal(
+          `/api/trash/${listId}/${id}`,
+          { method: "DELETE" }
+        );
+        if (!response.ok)
+          throw new Error(
+            `Failed to delete todo (Status: ${response.status} ${response.statusText})`
+          );
+        return { intent: "purge", data: { id } };
+      }
+
+      case "empty": {
+        const response: Response = await context.fetchInternal("/api/trash", {
+          method: "DELETE",
+        });
+        if (!response.ok)
+          throw new Error(
+            `Failed to empty trash (Status: ${response.status} ${response.statusText})`
+          );
+        const { deletedTodos }: { deletedTodos: number } =
+          await response.json();
+        return { intent: "empty", data: { deletedTodos } };
+      }
+
+      default:
+        throw new Error(`Unknown intent: ${intent}`);
+    }
+  } catch (error) {
+    console.error(`Error in trash action (${intent}):`, error);
+    return {
+      intent: "error",
+      data: {
+        error: error instanceof Error ? error.message : "An error occurred",
+      },
+    };
+  }
+}
+
+interface LoaderData {
+  todos: TrashedTodo[];
+  nextCursor: string | null;
+  lists: List[];
+  locale: string;
+  clientTimezone: string;
+}
+
+export default function TrashPage() {
+  const { todos, nextCursor, lists, locale, clientTimezone } =
+    useLoaderData<LoaderData>();
+  const actionData = useActionData<ActionData>();
+  const navigation = useNavigation();
+  const { addToast } = useToast();
+  const t = useT();
+  const localizePath = useLocalizePath();
+  const busy = navigation.state !== "idle";
+
+  const formatDateTime = useCallback(
+    (date: string): string =>
+      new Intl.DateTimeFormat(locale, {
+        dateStyle: "medium",
+        timeStyle: "short",
+        timeZone: clientTimezone || undefined,
+      }).format(new Date(date)),
+    [locale, clientTimezone]
+  );
+
+  // Most recently deleted first
+  const sortedTodos = useMemo(
+    () => [...todos].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)),
+    [todos]
+  );
+
+  const listName = (listId: string) =>
+    lists.find((list) => list.id === listId)?.name ?? t("trash.unknownList");
+
+  useEffect(() => {
+    if (navigation.state !== "idle" || !actionData) return;
+
+    switch (actionData.intent) {
+      case "restore":
+        addToast({
+          title: t("trash.restored.title"),
+          variant: "success",
+          description: t("trash.restored.description", {
+            title: actionData.data.title,
+            list: listName(actionData.data.listId),
+          }),
+          duration: 3000,
+        });
+        break;
+      case "empty":
+        addToast({
+          title: t("trash.emptied.title"),
+          variant: "success",
+          description: t("trash.emptied.description", {
+            count: actionData.data.deletedTodos,
+          }),
+          duration: 3000,
+        });
+        break;
+      case "error":
+        addToast({
+          title: t("common.error"),
+          description: actionData.data.error,
+          variant: "error",
+          duration: 3000,
+        });
+        break;
+    }
+  }, [actionData, navigation.state]);
+
+  const confirmEmpty = (e: FormEvent<HTMLFormElement>) => {
+    if (!window.confirm(t("trash.confirmEmpty"))) {
+      e.preventDefault();
+    }
+  };
+
+  return (
+    <main className={styles.container}>
+      <header className={styles.header}>
+        <div>
+          <Link to={localizePath("/todos")} className={styles.backLink}>
+            <ArrowLeftIcon aria-hidden="true" />
+            {t("trash.back")}
+          </Link>
+          <h1>{t("trash.title")}</h1>
+          <p className={styles.intro}>{t("trash.intro")}</p>
+        </div>
+        {todos.length > 0 && (
+          <Form method="post" onSubmit={confirmEmpty}>
+            <Button
+              type="submit"
+              name="intent"
+              value="empty"
+              color="red"
+              variant="soft"
+              disabled={busy}
+            >
+              {t("trash.empty")}
+            </Button>
+          </Form>
+        )}
+      </header>
+
+      {sortedTodos.length === 0 ? (
+        <div className={styles.emptyState}>
+          <TrashIcon width="32" height="32" aria-hidden="true" />
+          <p>{t("trash.isEmpty")}</p>
+        </div>
+      ) : (
+        <ul className={styles.trashList} aria-label={t("trash.label")}>
+          {sortedTodos.map((todo) => (
+            <li key={`${todo.listId}:${todo.id}`} className={styles.trashItem}>
+              <article className={styles.trashContent}>
+                <span className={styles.trashTitle}>{todo.title}</span>
+                <span className={styles.trashMeta}>
+                  {listName(todo.listId)}
+                  {" · "}
+                  {t("trash.deleted")}{" "}
+                  <time dateTime={todo.deletedAt}>
+                    {formatDateTime(todo.deletedAt)}
+                  </time>
+                  {" · "}
+                  {t("trash.expires")}{" "}
+                  <time dateTime={todo.expiresAt}>
+                    {formatDateTime(todo.expiresAt)}
+                  </time>
+                </span>
+              </article>
+              <Form method="post" className={styles.trashActions}>
+                <input type="hidden" name="listId" value={todo.listId} />
+                <input type="hidden" name="id" value={todo.id} />
+                <Button
+                  type="submit"
+                  name="intent"
+                  value="restore"
+                  variant="soft"
+                  disabled={busy}
+                >
+                  <ResetIcon aria-hidden="true" />
+                  {t("trash.restore")}
+                </Button>
+                <Button
+                  type="submit"
+                  name="intent"
+                  value="purge"
+                  color="red"
+                  variant="ghost"
+                  disabled={busy}
+                  aria-label={t("trash.purgeLabel", { title: todo.title })}
+                >
+                  <TrashIcon aria-hidden="true" />
+                  {t("trash.purge")}
+                </Button>
+              </Form>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {nextCursor && (
+        <div className={styles.pagination}>
+          <Button asChild variant="soft">
+            <Link to={`?${new URLSearchParams({ cursor: nextCursor })}`}>
+              {t("trash.nextPage")}
+            </Link>
+          </Button>
+        </div>
+      )}
+    </main>
+  );
+}
@@ -8,8 +8,13 @@ import {
   Form,
   useRouteError,
   isRouteErrorResponse,
+  useNavigate,
+  useSearchParams,
+  useRevalidator,
+  redirect,
 } from "react-router";
 import {
+  Fragment,
   useState,
   useRef,
   useEffect,
@@ -24,22 +29,85 @@ import {
   Cross2Icon,
   CheckIcon,
   TrashIcon,
+  ArrowRightIcon,
+  ArrowUpIcon,
+  ArrowDownIcon,
+  ChevronDownIcon,
+  MagnifyingGlassIcon,
 } from "@radix-ui/react-icons";
 import * as Checkbox from "@radix-ui/react-checkbox";
+import * as Select from "@radix-ui/react-select";
 import { useToast } from "../context/toast-context";
+import { useLocalizePath, useT } from "../context/i18n-context";
+import { ListSwitcher } from "../components/list-switcher";
+import { PrioritySelect } from "../components/priority-select";
+import { requireSignedIn } from "../lib/auth";
+import type { FlashSession } from "../lib/flash";
+import { useHydrated } from "../lib/hydration";
+import {
+  createTranslator,
+  isLocale,
+  localizePath,
+  metaTranslator,
+  resolveFormatLocale,
+  resolveLocale,
+  type MetaMatches,
+} from "../lib/i18n";
+import {
+  isDueToday,
+  isOverdue,
+  isUpcoming,
+  toIsoDate,
+  UPCOMING_DAYS,
+} from "../lib/due-dates";
+import {
+  DEFAULT_LIST_ID,
+  ListCreateSchema,
+  type List,
+  type ListCollection,
+} from "../schemas/list";
+import type { User } from "../schemas/auth";
+import {
+  DEFAULT_TODO_PRIORITY,
+  TODO_BATCH_MAX_OPERATIONS,
+  TODOS_PAGE_MAX_LIMIT,
+  TodoCreateSchema,
+  TodoEventSchema,
+  TodoUpdateSchema,
+  type DailySummary,
+  type Todo as TodoRecord,
+  type TodoBatchOperation,
+  type TodoBatchResponse,
+  type TodoBatchResult,
+  type TodoEvent,
+  type TodoPage,
+  type TodoPriority,
+} from "../schemas/todo";
+import {
+  toFieldErrors,
+  type FieldErrors,
+  type ValidationErrorBody,
+} from "../schemas/error";
 import styles from "./todos.module.css";
 
-export function meta() {
+export function meta({ matches }: { matches: MetaMatches }) {
+  const t = metaTranslator(matches);
   return [
-    { title: "Todo List" },
-    { name: "description", content: "Manage your todos" },
+    { title: t("todos.title") },
+    { name: "description", content: t("todos.meta.description") },
   ];
 }
 
 export function shouldRevalidate({
+  currentUrl,
+  nextUrl,
+  formMethod,
   actionResult,
   defaultShouldRevalidate,
 }: {
+  currentUrl: URL;
+  nextUrl: URL;
+  formMethod?: string;
   actionResult?: { shouldRevalidate?: boolean };
   defaultShouldRevalidate: boolean;
 }) {
@@ -47,54 +115,278 @@ export function shouldRevalidate({
     return false;
   }
 
+  // Sorting, filtering, selecting, opening the inline editor and asking to
+  // confirm a delete all happen in the browser, so switching them needs no
+  // reload
+  if (!formMethod && currentUrl.pathname === nextUrl.pathname) {
+    const currentParams = new URLSearchParams(currentUrl.search);
+    const nextParams = new URLSearchParams(nextUrl.search);
+    for (const name of ["sort", "filter", "select", "edit", "delete"]) {
+      currentParams.delete(name);
+      nextParams.delete(name);
+    }
+    if (currentParams.toString() === nextParams.toString()) return false;
+  }
+
   return defaultShouldRevalidate;
 }
 
-interface Todo {
-  id: string;
-  title: string;
-  completed: boolean;
-  priority: number; // 1 = highest priority
-  createdAt: string;
-  updatedAt?: string;
+// Message of each sort's label
+const TODO_SORTS = {
+  manual: "todos.sort.manual",
+  priority: "todos.sort.priority",
+  created: "todos.sort.created",
+  updated: "todos.sort.updated",
+  title: "todos.sort.title",
+} as const;
+
+type TodoSort = keyof typeof TODO_SORTS;
+
+function parseSort(value: string | null): TodoSort {
+  return value && value in TODO_SORTS ? (value as TodoSort) : "manual";
+}
+
+// Message of each filter's label
+const TODO_FILTERS = {
+  all: "todos.filter.all",
+  active: "todos.filter.active",
+  completed: "todos.filter.completed",
+  today: "todos.filter.today",
+  upcoming: "todos.filter.upcoming",
+  overdue: "todos.filter.overdue",
+} as const;
+
+type TodoFilter = keyof typeof TODO_FILTERS;
+
+function parseFilter(value: string | null): TodoFilter {
+  return value && value in TODO_FILTERS ? (value as TodoFilter) : "all";
+}
+
+// Due-date filters work on calendar days in the user's time zone
+function matchesFilter(todo: TodoRecord, filter: TodoFilter, today: string) {
+  switch (filter) {
+    case "active":
+      return !todo.completed;
+    case "completed":
+      return todo.completed;
+    case "today":
+      return isDueToday(todo, today);
+    case "upcoming":
+      return isUpcoming(todo, today);
+    case "overdue":
+      return isOverdue(todo, today);
+    default:
+      return true;
+  }
+}
+
+const byNewest = (a: TodoRecord, b: TodoRecord) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+// Comparator for each sort. In manual order, todos placed by a reorder keep
+// their position below newer, unplaced ones.
+function compareTodos(sort: TodoSort, locale: string) {
+  switch (sort) {
+    case "priority":
+      return (a: TodoRecord, b: TodoRecord) =>
+        a.priority - b.priority || byNewest(a, b);
+    case "created":
+      return byNewest;
+    case "updated":
+      return (a: TodoRecord, b: TodoRecord) =>
+        new Date(b.updatedAt ?? b.createdAt).getTime() -
+        new Date(a.updatedAt ?? a.createdAt).getTime();
+    case "title":
+      return (a: TodoRecord, b: TodoRecord) =>
+        a.title.localeCompare(b.title, locale) || byNewest(a, b);
+    default:
+      return (a: TodoRecord, b: TodoRecord) => {
+        if (a.order !== undefined && b.order !== undefined)
+          return a.order - b.order;
+        if (a.order !== undefined) return 1;
+        if (b.order !== undefined) return -1;
+        return byNewest(a, b);
+      };
+  }
+}
+
+// A manual order with one todo put where another one is, shifting the ones
+// between; null when there is nothing to move
+function moveTo<T extends TodoRecord>(
+  ordered: T[],
+  id: string,
+  targetId: string
+): T[] | null {
+  const from = ordered.findIndex((todo) => todo.id === id);
+  const to = ordered.findIndex((todo) => todo.id === targetId);
+  if (from < 0 || to < 0 || from === to) return null;
+
+  const reordered = [...ordered];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered;
+}
+
+// A manual order with the given todos on top, keeping their relative order
+function moveToTop<T extends TodoRecord>(ordered: T[], ids: Set<string>) {
+  return [
+    ...ordered.filter((todo) => ids.has(todo.id)),
+    ...ordered.filter((todo) => !ids.has(todo.id)),
+  ];
+}
+
+// Positions to write for a new manual order, only for the todos whose
+// position changes
+function orderChanges<T extends TodoRecord>(ordered: T[]) {
+  return ordered.flatMap((todo, order) =>
+    todo.order === order ? [] : [{ todo, order }]
+  );
+}
+
+interface Todo extends TodoRecord {
   pendingDelete?: boolean;
   pendingDeletion?: boolean;
   pendingUpdate?: boolean;
   deleteTimer?: number;
 }
 
-function getPreferredLocale(acceptLanguage: string | null): string {
-  if (!acceptLanguage) return "en-US";
-  // Get the first language from the Accept-Language header
-  const preferredLang = acceptLanguage.split(",")[0].trim().split("-");
-  const language = preferredLang[0];
-  const region = preferredLang[1] || language.toUpperCase();
-  return `${language}-${region}`;
+// Error carrying per-field validation messages from the schema or the API
+class TodoValidationError extends Error {
+  constructor(public fields: FieldErrors) {
+    super(Object.values(fields).flat().join(", ") || "Validation failed");
+    this.name = "TodoValidationError";
+  }
+}
+
+// Error for a write rejected with 412 because the todo changed in the meantime
+class TodoConflictError extends Error {
+  constructor(public current: TodoRecord) {
+    super(`"${current.title}" was changed somewhere else`);
+    this.name = "TodoConflictError";
+  }
+}
+
+async function assertResponseOk(response: Response, failure: string) {
+  if (response.ok) return;
+  if (response.status === 422) {
+    const body: ValidationErrorBody = await response.json();
+    throw new TodoValidationError(body.fields);
+  }
+  if (response.status === 412) {
+    throw new TodoConflictError(await response.json());
+  }
+  throw new Error(
+    `${failure} (Status: ${response.status} ${response.statusText})`
+  );
+}
+
+const TODOS_PAGE_SIZE = 50;
+
+// The default list lives at /todos, every other list at /todos/:listId;
+// links add the page's /:lang/ prefix with localizePath
+function todosPath(listId: string) {
+  return listId === DEFAULT_LIST_ID ? "/todos" : `/todos/${listId}`;
+}
+
+// Tags are edited as one comma separated field
+function parseTags(value: string) {
+  return value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
 }
 
 export async function loader({
   request,
+  params,
   context,
 }: {
   request: Request;
+  params: { lang?: string; listId?: string };
   context: any;
 }) {
+  requireSignedIn(request, context);
+  const t = createTranslator(resolveLocale(request, params.lang));
   try {
-    const response = await context.fetchInternal("/api/todos");
-    if (!response.ok)
+    const listId = params.listId ?? DEFAULT_LIST_ID;
+    const searchParams = new URL(request.url).searchParams;
+    // Searching happens in the API, so a search URL renders on the server too
+    const q = searchParams.get("q")?.trim() ?? "";
+    const tag = searchParams.get("tag") ?? "";
+    // Every "Load more" adds the next page's ?cursor=, so without JavaScript
+    // the page shows the first page and each one loaded since. The page's
+    // script asks with ?append for the newest page alone and adds it itself.
+    const cursors = searchParams.getAll("cursor");
+    const pageCursors = searchParams.has("append")
+      ? cursors.slice(-1)
+      : [null, ...cursors];
+    const pagePath = (cursor: string | null) => {
+      const query = new URLSearchParams({ limit: String(TODOS_PAGE_SIZE) });
+      if (cursor) query.set("cursor", cursor);
+      if (q) query.set("q", q);
+      if (tag) query.set("tag", tag);
+      return `/api/lists/${listId}/todos?${query}`;
+    };
+
+    const [responses, listsResponse, summaryResponse] = await Promise.all([
+      Promise.all(
+        pageCursors.map((cursor) => context.fetchInternal(pagePath(cursor)))
+      ),
+      context.fetchInternal("/api/lists"),
+      context.fetchInternal("/api/summary"),
+    ]);
+    for (const response of responses) {
+      if (response.status === 422) {
+        const body: ValidationErrorBody = await response.json();
+        throw new Response(
+          Object.values(body.fields).flat().join(", ") || "Invalid search",
+          { status: 400, statusText: "Bad Request" }
+        );
+      }
+      if (response.status === 404)
+        throw new Response(t("todos.error.listMissing"), {
+          status: 404,
+          statusText: "Not Found",
+        });
+      if (!response.ok)
+        throw new Error(
+          `Failed to load todos (Status: ${response.status} ${response.statusText})`
+        );
+    }
+    if (!listsResponse.ok)
       throw new Error(
-        `Failed to load todos (Status: ${response.status} ${response.statusText})`
+        `Failed to load lists (Status: ${listsResponse.status} ${listsResponse.statusText})`
+      );
+    const pages: TodoPage[] = await Promise.all(
+      responses.map((response): Promise<TodoPage> => response.json())
+    );
+    const todos = pages.flatMap((page) => page.todos);
+    const { lists }: ListCollection = await listsResponse.json();
+    // The summary is a nicety; 404 just means the daily check has not run
+    if (!summaryResponse.ok && summaryResponse.status !== 404)
+      console.error(
+        `Failed to load summary (Status: ${summaryResponse.status} ${summaryResponse.statusText})`
       );
-    const todos = await response.json();
+    const summary: DailySummary | null = summaryResponse.ok
+      ? await summaryResponse.json()
+      : null;
 
-    // Get the preferred locale from the Accept-Language header
-    const acceptLanguage = request.headers.get("accept-language");
-    const locale = getPreferredLocale(acceptLanguage);
+    // Dates and sorting follow the page's language
+    const locale = resolveFormatLocale(request, params.lang);
 
     return {
       todos,
+      nextCursor: pages[pages.length - 1].next_cursor,
+      listId,
+      lists,
+      user: context.user as User,
       locale,
       clientTimezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      summary,
+      q,
+      tag,
+      // Computed here so server and browser agree on which day it is
+      today: toIsoDate(new Date(), context.clientTimezone),
     };
   } catch (error) {
     console.error("Error in todos loader:", error);
@@ -104,13 +396,21 @@ export async function loader({
 
 export async function action({
   request,
+  params,
   context,
 }: {
   request: Request;
+  params: { lang?: string; listId?: string };
   context: any;
 }) {
+  requireSignedIn(request, context);
   const formData = await request.formData();
   const intent = formData.get("intent");
+  const listId = params.listId ?? DEFAULT_LIST_ID;
+  const lang = isLocale(params.lang) ? params.lang : null;
+  const t = createTranslator(resolveLocale(request, params.lang));
+  // Shown by the root loader, even after a redirect or without JavaScript
+  const flash: FlashSession = context.flash;
 
   // Get the base URL for the API
   const url = new URL(request.url);
@@ -134,28 +434,97 @@ export async function action({
     });
   };
 
+  // Send the version the page last saw so the API rejects stale writes
+  const version = formData.get("version")?.toString();
+  const ifMatch: Record<string, string> = version
+    ? { "If-Match": `"${version}"` }
+    : {};
+
+  // Bulk intents post the affected todos as parallel id/version fields, or
+  // as "<id>:<version>" from the selection checkboxes, which only post when
+  // checked
+  const bulkTargets = () => {
+    const ids = formData.getAll("id").map(String);
+    const versions = formData.getAll("version").map(Number);
+    for (const selected of formData.getAll("selected")) {
+      const [id, version] = String(selected).split(":");
+      ids.push(id);
+      versions.push(Number(version));
+    }
+    if (ids.length === 0) throw new Error("No todos selected");
+    return ids.map((id, index) => ({ id, version: versions[index] }));
+  };
+
+  // Send operations through the batch endpoint, split into requests it accepts
+  const runBatch = async (operations: TodoBatchOperation[]) => {
+    const results: TodoBatchResult[] = [];
+    for (let i = 0; i < operations.length; i += TODO_BATCH_MAX_OPERATIONS) {
+      const response = await fetchApi(`/lists/${listId}/todos/batch`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          operations: operations.slice(i, i + TODO_BATCH_MAX_OPERATIONS),
+        }),
+      });
+      await assertResponseOk(response, "Failed to apply changes");
+      const body: TodoBatchResponse = await response.json();
+      results.push(...body.results);
+    }
+    return results;
+  };
+
+  // Reorders posted without JavaScript leave the new positions to the action,
+  // which works them out from every todo of the list
+  const loadManualOrder = async () => {
+    const todos: TodoRecord[] = [];
+    let cursor: string | null = null;
+    do {
+      const query = new URLSearchParams({
+        limit: String(TODOS_PAGE_MAX_LIMIT),
+      });
+      if (cursor) query.set("cursor", cursor);
+      const response = await fetchApi(`/lists/${listId}/todos?${query}`);
+      await assertResponseOk(response, "Failed to load todos");
+      const page: TodoPage = await response.json();
+      todos.push(...page.todos);
+      cursor = page.next_cursor;
+    } while (cursor);
+    return todos.sort(
+      compareTodos("manual", resolveFormatLocale(request, params.lang))
+    );
+  };
+  const runReorder = (ordered: TodoRecord[]) =>
+    runBatch(
+      orderChanges(ordered).map(({ todo, order }) => ({
+        op: "update",
+        id: todo.id,
+        version: todo.version,
+        changes: { order },
+      }))
+    );
+
   try {
     switch (intent) {
       case "create": {
-        const title = formData.get("title")?.toString().trim();
-        if (!title) throw new Error("Title is required");
-
-        const newTodo = {
-          title,
-          completed: false,
-          createdAt: new Date().toISOString(),
-        };
+        const priority = formData.get("priority");
+        const dueAt = formData.get("dueAt")?.toString();
+        const tags = formData.get("tags")?.toString();
+        const parsed = TodoCreateSchema.safeParse({
+          title: formData.get("title")?.toString() ?? "",
+          ...(priority !== null && { priority: Number(priority) }),
+          ...(dueAt && { dueAt }),
+          ...(tags && { tags: parseTags(tags) }),
+        });
+        if (!parsed.success)
+          throw new TodoValidationError(toFieldErrors(parsed.error));
 
-        const response = await fetchApi("/todos", {
+        const response = await fetchApi(`/lists/${listId}/todos`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(newTodo),
+          body: JSON.stringify(parsed.data),
         });
 
-        if (!response.ok)
-          throw new Error(
-            `Failed to create todo (Status: ${response.status} ${response.statusText})`
-          );
+        await assertResponseOk(response, "Failed to create todo");
         return {
           intent: "create",
           data: await response.json(),
@@ -167,24 +536,30 @@ export async function action({
         const id = formData.get("id")?.toString();
         const title = formData.get("title")?.toString();
         const completed = formData.get("completed");
+        const priority = formData.get("priority");
+        const dueAt = formData.get("dueAt")?.toString();
+        const tags = formData.get("tags")?.toString();
 
         if (!id) throw new Error("Todo ID is required");
 
-        const updates: any = { id };
-        if (title !== null) updates.title = title;
-        if (completed !== null) updates.completed = completed === "true";
+        // An empty date input clears the due date
+        const parsed = TodoUpdateSchema.safeParse({
+          ...(title !== undefined && { title }),
+          ...(completed !== null && { completed: completed === "true" }),
+          ...(priority !== null && { priority: Number(priority) }),
+          ...(dueAt !== undefined && { dueAt: dueAt || null }),
+          ...(tags !== undefined && { tags: parseTags(tags) }),
+        });
+        if (!parsed.success)
+          throw new TodoValidationError(toFieldErrors(parsed.error));
 
-        const response = await fetchApi(`/todos/${id}`, {
+        const response = await fetchApi(`/lists/${listId}/todos/${id}`, {
           method: "PUT",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(updates),
+          headers: { "Content-Type": "application/json", ...ifMatch },
+          body: JSON.stringify(parsed.data),
         });
 
-        if (!response.ok) {
-          throw new Error(
-            `Failed to update todo (Status: ${response.status} ${response.statusText})`
-          );
-        }
+        await assertResponseOk(response, "Failed to update todo");
 
         try {
           const result = await response.json();
@@ -199,49 +574,261 @@ export async function action({
         const id = formData.get("id")?.toString();
         if (!id) throw new Error("Todo ID is required");
 
-        const response = await fetchApi(`/todos/${id}`, {
+        const response = await fetchApi(`/lists/${listId}/todos/${id}`, {
           method: "DELETE",
+          headers: ifMatch,
         });
 
-        if (!response.ok)
-          throw new Error(
-            `Failed to delete todo (Status: ${response.status} ${response.statusText})`
-          );
+        await assertResponseOk(response, "Failed to delete todo");
         return { intent: "delete", data: { id }, shouldRevalidate: false };
       }
 
+      case "restore": {
+        const id = formData.get("id")?.toString();
+        if (!id) throw new Error("Todo ID is required");
+
+        const response = await fetchApi(
+          `/lists/${listId}/todos/${id}/restore`,
+          { method: "POST" }
+        );
+
+        await assertResponseOk(response, "Failed to restore todo");
+        return {
+          intent: "restore",
+          data: await response.json(),
+          shouldRevalidate: false,
+        };
+      }
+
+      case "move": {
+        const id = formData.get("id")?.toString();
+        if (!id) throw new Error("Todo ID is required");
+
+        const parsed = TodoUpdateSchema.safeParse({
+          listId: formData.get("listId")?.toString() ?? "",
+        });
+        if (!parsed.success)
+          throw new TodoValidationError(toFieldErrors(parsed.error));
+
+        const response = await fetchApi(`/lists/${listId}/todos/${id}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json", ...ifMatch },
+          body: JSON.stringify(parsed.data),
+        });
+
+        await assertResponseOk(response, "Failed to move todo");
+        return {
+          intent: "move",
+          data: await response.json(),
+          shouldRevalidate: false,
+        };
+      }
+
+      case "complete-all": {
+        const results = await runBatch(
+          bulkTargets().map(({ id, version }) => ({
+            op: "update",
+            id,
+            version,
+            changes: { completed: true },
+          }))
+        );
+        return {
+          intent: "batch",
+          data: { action: intent, results },
+          shouldRevalidate: false,
+        };
+      }
+
+      case "clear-completed":
+      case "delete-selected": {
+        const results = await runBatch(
+          bulkTargets().map(({ id, version }) => ({
+            op: "delete",
+            id,
+            version,
+          }))
+        );
+        return {
+          intent: "batch",
+          data: { action: intent, results },
+          shouldRevalidate: false,
+        };
+      }
+
+      // Each id comes with the position it moves to
+      case "reorder": {
+        const orders = formData.getAll("order").map(Number);
+        const results = await runBatch(
+          bulkTargets().map(({ id, version }, index) => ({
+            op: "update",
+            id,
+            version,
+            changes: { order: orders[index] },
+          }))
+        );
+        return {
+          intent: "batch",
+          data: { action: intent, results },
+          shouldRevalidate: false,
+        };
+      }
+
+      // Move up and down: id takes the place of the neighbour targetId
+      case "move-to": {
+        const id = formData.get("id")?.toString();
+        const targetId = formData.get("targetId")?.toString();
+        if (!id || !targetId) throw new Error("Todo ID is required");
+
+        const ordered = moveTo(await loadManualOrder(), id, targetId);
+        const results = ordered ? await runReorder(ordered) : [];
+        return {
+          intent: "batch",
+          data: { action: "reorder", results },
+          shouldRevalidate: false,
+        };
+      }
+
+      case "move-to-top": {
+        const ids = new Set(bulkTargets().map(({ id }) => id));
+        const results = await runReorder(
+          moveToTop(await loadManualOrder(), ids)
+        );
+        return {
+          intent: "batch",
+          data: { action: "reorder", results },
+          shouldRevalidate: false,
+        };
+      }
+
+      case "create-list": {
+        const parsed = ListCreateSchema.safeParse({
+          name: formData.get("name")?.toString() ?? "",
+        });
+        if (!parsed.success)
+          throw new TodoValidationError(toFieldErrors(parsed.error));
+
+        const response = await fetchApi("/lists", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(parsed.data),
+        });
+
+        await assertResponseOk(response, "Failed to create list");
+        const list: List = await response.json();
+        flash.queue({
+          title: t("todos.flash.listCreated.title"),
+          description: t("todos.flash.listCreated.description", {
+            name: list.name,
+          }),
+          variant: "success",
+        });
+        return redirect(localizePath(todosPath(list.id), lang));
+      }
+
+      case "delete-list": {
+        const response = await fetchApi(`/lists/${listId}`, {
+          method: "DELETE",
+        });
+
+        await assertResponseOk(response, "Failed to delete list");
+        flash.queue({
+          title: t("todos.flash.listDeleted.title"),
+          variant: "success",
+        });
+        return redirect(localizePath(todosPath(DEFAULT_LIST_ID), lang));
+      }
+
       default:
         throw new Error(`Unknown intent: ${intent}`);
     }
   } catch (error) {
+    if (error instanceof TodoConflictError) {
+      // Hand back the stored todo and the rejected form so the page can
+      // either resubmit it against the new version or adopt the stored one
+      return {
+        intent: "conflict",
+        data: {
+          todo: error.current,
+          submission: Object.fromEntries(formData) as Record<string, string>,
+        },
+      };
+    }
     console.error(`Error in todo action (${intent}):`, error);
+    const message =
+      error instanceof Error ? error.message : "An error occurred";
+    flash.queue({
+      title: t("common.error"),
+      description: message,
+      variant: "error",
+    });
     return {
       intent: "error",
       data: {
-        error: error instanceof Error ? error.message : "An error occurred",
+        error: message,
+        fields: error instanceof TodoValidationError ? error.fields : undefined,
       },
     };
   }
 }
 
+type BulkIntent =
+  | "complete-all"
+  | "clear-completed"
+  | "delete-selected"
+  | "reorder";
+
 type ActionData =
   | { intent: "create"; data: Todo }
   | { intent: "update"; data: Todo }
   | { intent: "delete"; data: { id: string } }
-  | { intent: "error"; data: { error: string } };
+  | { intent: "restore"; data: Todo }
+  | { intent: "move"; data: Todo }
+  | {
+      intent: "batch";
+      data: { action: BulkIntent; results: TodoBatchResult[] };
+    }
+  | {
+      intent: "conflict";
+      data: { todo: TodoRecord; submission: Record<string, string> };
+    }
+  | { intent: "error"; data: { error: string; fields?: FieldErrors } };
 
 interface LoaderData {
   todos: Todo[];
+  nextCursor: string | null;
+  listId: string;
+  lists: List[];
+  user: User;
   locale: string;
   clientTimezone: string;
+  summary: DailySummary | null;
+  q: string;
+  tag: string;
+  today: string;
 }
 
 export default function TodosPage() {
   const {
     todos: initialTodos,
+    nextCursor: initialNextCursor,
+    listId,
+    lists,
+    user,
     locale,
     clientTimezone,
+    summary,
+    q,
+    tag,
+    today,
   } = useLoaderData<LoaderData>();
+  const t = useT();
+  const localizePath = useLocalizePath();
+  const actionPath = localizePath(todosPath(listId));
+  const currentList = lists.find((list) => list.id === listId);
+  const navigate = useNavigate();
+  const loadMore = useFetcher<LoaderData>();
+  const hydrated = useHydrated();
 
   const formatDateTime = useCallback(
     (date: Date | string): string => {
@@ -260,39 +847,197 @@ export default function TodosPage() {
     [locale, clientTimezone]
   );
 
+  // Due dates are calendar days, so they are formatted without a time zone
+  const formatDueDate = useCallback(
+    (isoDate: string): string =>
+      new Intl.DateTimeFormat(locale, {
+        dateStyle: "medium",
+        timeZone: "UTC",
+      }).format(new Date(`${isoDate}T00:00:00Z`)),
+    [locale]
+  );
+
   const [todos, setTodos] = useState<Todo[]>(initialTodos);
-  const [filter, setFilter] = useState<"all" | "active" | "completed">("all");
   const [newTodoTitle, setNewTodoTitle] = useState("");
+  const [newTodoDueAt, setNewTodoDueAt] = useState("");
+  const [newTodoTags, setNewTodoTags] = useState("");
+  const [newTodoPriority, setNewTodoPriority] = useState<TodoPriority>(
+    DEFAULT_TODO_PRIORITY
+  );
   const newTodoInputRef = useRef<HTMLInputElement>(null);
-  const [editingTodoId, setEditingTodoId] = useState<string | null>(null);
-  const [editTodoTitle, setEditTodoTitle] = useState("");
-  const { addToast } = useToast();
+  const { addToast, removeToastById } = useToast();
   const [deletingTodoId, setDeletingTodoId] = useState<string | null>(null);
-  const deletingTodoIdRef = useRef<string | null>(null);
   const [srAnnouncement, setSrAnnouncement] = useState("");
   const [animatingFilter, setAnimatingFilter] = useState<string | null>(null);
   const prevCountsRef = useRef({ all: 0, active: 0, completed: 0 });
 
-  const sortedTodos = useMemo(() => {
-    return [...todos].sort((a, b) => {
-      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-    });
-  }, [todos]);
-
-  const filteredTodos = useMemo(() => {
-    switch (filter) {
-      case "active":
-        return sortedTodos.filter((todo) => !todo.completed);
-      case "completed":
-        return sortedTodos.filter((todo) => todo.completed);
-      default:
-        return sortedTodos;
-    }
-  }, [sortedTodos, filter]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const sort = parseSort(searchParams.get("sort"));
+  const filter = parseFilter(searchParams.get("filter"));
+  // ?select shows the checkboxes that pick todos for the bulk actions
+  const selecting = searchParams.has("select");
+  // ?edit=<id> opens a todo's inline editor and ?delete=<id> asks to confirm
+  // its deletion, so both are plain links that work without JavaScript
+  const editingTodoId = searchParams.get("edit");
+  const confirmDeleteId = searchParams.get("delete");
+  // The current search without the editor or the confirmation; the forms post
+  // there so the page they come back to shows the list again
+  const listSearch = useMemo(() => {
+    const params = new URLSearchParams(searchParams);
+    params.delete("edit");
+    params.delete("delete");
+    return params.toString();
+  }, [searchParams]);
+  const actionWith = (search: string) =>
+    search ? `${actionPath}?${search}` : actionPath;
+  const formAction = actionWith(listSearch);
+  const searchWith = (
+    name: "filter" | "select" | "edit" | "delete",
+    value: string
+  ) => {
+    const params = new URLSearchParams(listSearch);
+    params.set(name, value);
+    return `?${params}`;
+  };
+  const searchWithout = (...names: string[]) => {
+    const params = new URLSearchParams(listSearch);
+    for (const name of names) params.delete(name);
+    return params.toString();
+  };
+  // Hidden fields that carry the rest of the search through a GET form which
+  // sets names itself
+  const searchFields = (...names: string[]) =>
+    [...new URLSearchParams(searchWithout(...names))].map(([name, value]) => (
+      <input key={`${name}=${value}`} type="hidden" name={name} value={value} />
+    ));
+
+  // Reordering always works on the manual order, whatever the current sort
+  const manualTodos = useMemo(
+    () => [...todos].sort(compareTodos("manual", locale)),
+    [todos, locale]
+  );
+
+  const sortedTodos = useMemo(
+    () =>
+      sort === "manual"
+        ? manualTodos
+        : [...todos].sort(compareTodos(sort, locale)),
+    [todos, manualTodos, sort, locale]
+  );
+
+  const handleSortChange = (value: string) => {
+    setSearchParams(
+      (prevParams) => {
+        const nextParams = new URLSearchParams(prevParams);
+        if (value === "manual") nextParams.delete("sort");
+        else nextParams.set("sort", value);
+        return nextParams;
+      },
+      { replace: true, preventScrollReset: true }
+    );
+  };
+
+  const tagsInUse = useMemo(() => {
+    const values = new Set(todos.flatMap((todo) => todo.tags));
+    if (tag) values.add(tag);
+    return [...values].sort((a, b) => a.localeCompare(b, locale));
+  }, [todos, tag, locale]);
+
+  // Search string that toggles a tag filter, keeping the search and sort
+  const tagSearch = (value: string) => {
+    const nextParams = new URLSearchParams(searchParams);
+    nextParams.delete("cursor");
+    if (value === tag) nextParams.delete("tag");
+    else nextParams.set("tag", value);
+    return nextParams.toString();
+  };
+
+  const [draggedTodoId, setDraggedTodoId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Turning selection mode on or off starts with nothing selected
+  useEffect(() => setSelectedIds(new Set()), [selecting]);
+
+  const filteredTodos = useMemo(
+    () => sortedTodos.filter((todo) => matchesFilter(todo, filter, today)),
+    [sortedTodos, filter, today]
+  );
+
+  const [nextCursor, setNextCursor] = useState(initialNextCursor);
 
   useEffect(() => {
     setTodos(initialTodos);
-  }, [initialTodos]);
+    setNextCursor(initialNextCursor);
+  }, [initialTodos, initialNextCursor]);
+
+  // Append the next page fetched by the "Load more" form
+  useEffect(() => {
+    if (loadMore.state !== "idle" || !loadMore.data) return;
+    const page = loadMore.data;
+    setTodos((prevTodos) => {
+      const known = new Set(prevTodos.map((todo) => todo.id));
+      return [
+        ...prevTodos,
+        ...page.todos.filter((todo) => !known.has(todo.id)),
+      ];
+    });
+    setNextCursor(page.nextCursor);
+  }, [loadMore.state, loadMore.data]);
+
+  // Live changes from other tabs and devices. A page's own writes come back
+  // as well and are skipped unless they are newer than what it shows.
+  const revalidator = useRevalidator();
+  // Read through a ref: the revalidator changes with every revalidation,
+  // which must not reopen the stream
+  const revalidatorRef = useRef(revalidator);
+  revalidatorRef.current = revalidator;
+
+  useEffect(() => {
+    const applyEvent = (event: TodoEvent) =>
+      setTodos((prevTodos) => {
+        if (event.type === "deleted") {
+          return prevTodos.filter(
+            (todo) => todo.id !== event.id || todo.listId !== event.listId
+          );
+        }
+        const changed = event.todo;
+        const existing = prevTodos.find((todo) => todo.id === changed.id);
+        // Moved to another list
+        if (changed.listId !== listId) {
+          return existing
+            ? prevTodos.filter((todo) => todo.id !== changed.id)
+            : prevTodos;
+        }
+        if (existing) {
+          return existing.version >= changed.version
+            ? prevTodos
+            : prevTodos.map((todo) =>
+                todo.id === changed.id ? changed : todo
+              );
+        }
+        // New todos may not match the current search
+        return q || tag ? prevTodos : [...prevTodos, changed];
+      });
+
+    const events = new EventSource("/api/todos/events");
+    let disconnected = false;
+    events.addEventListener("todo", (message) => {
+      const event = TodoEventSchema.safeParse(JSON.parse(message.data));
+      if (event.success) applyEvent(event.data);
+    });
+    // EventSource reconnects by itself; reload what was missed meanwhile
+    events.addEventListener("error", () => {
+      disconnected = true;
+    });
+    events.addEventListener("open", () => {
+      if (!disconnected) return;
+      disconnected = false;
+      revalidatorRef.current.revalidate();
+    });
+    return () => events.close();
+  }, [listId, q, tag]);
 
   // Track count changes and trigger animations based on active filter
   useEffect(() => {
@@ -331,153 +1076,361 @@ export default function TodosPage() {
   const navigation = useNavigation();
   const submit = useSubmit();
 
+  // Forms that are still posting show their outcome right away
+  const pendingForm = navigation.formData;
+  const pendingDeleteId =
+    deletingTodoId ??
+    (pendingForm?.get("intent") === "delete" ? pendingForm.get("id") : null);
+  const isCompleted = (todo: Todo) =>
+    pendingForm?.get("intent") === "update" &&
+    pendingForm.get("id") === todo.id &&
+    pendingForm.has("completed")
+      ? pendingForm.get("completed") === "true"
+      : todo.completed;
+  const confirmingTodo = confirmDeleteId
+    ? todos.find((todo) => todo.id === confirmDeleteId)
+    : undefined;
+
   // Handle action responses and errors
   useEffect(() => {
     if (navigation.state !== "idle") return;
 
+    // The error itself comes back as a flash message
     if (actionData?.intent === "error") {
-      addToast({
-        title: "Error",
-        description: actionData.data.error,
-        duration: 3000,
-      });
-      setSrAnnouncement(`Error: ${actionData.data.error}`);
+      setSrAnnouncement(t("todos.sr.error", { error: actionData.data.error }));
+      setDeletingTodoId(null);
     } else if (actionData?.intent === "delete") {
-      setTodos((prevTodos) =>
-        prevTodos.filter((todo) => todo.id !== actionData.data.id)
-      );
+      const { id } = actionData.data;
+      const deletedTodo = todos.find((todo) => todo.id === id);
+      setTodos((prevTodos) => prevTodos.filter((todo) => todo.id !== id));
       setDeletingTodoId(null);
-      deletingTodoIdRef.current = null;
-      setSrAnnouncement("Todo deleted");
+      addToast({
+        id: `todo-delete-${id}`,
+        title: t("todos.deleted.title"),
+        variant: "success",
+        description: deletedTodo
+          ? t("todos.deleted.description", { title: deletedTodo.title })
+          : t("todos.deleted.descriptionUnknown"),
+        duration: 5000,
+        action: {
+          label: t("common.undo"),
+          onClick: () => handleUndoDelete(id),
+        },
+      });
+      setSrAnnouncement(t("todos.sr.deleted"));
+    } else if (actionData?.intent === "restore") {
+      const restoredTodo = actionData.data;
+      setTodos((prevTodos) => [
+        ...prevTodos.filter((todo) => todo.id !== restoredTodo.id),
+        restoredTodo,
+      ]);
+      setSrAnnouncement(t("todos.sr.restored", { title: restoredTodo.title }));
     } else if (actionData?.intent === "update") {
       const updatedTodo = actionData.data;
+      // Replace rather than merge, so a cleared due date is dropped too
       setTodos((prevTodos) =>
         prevTodos.map((todo) =>
-          todo.id === updatedTodo.id ? { ...todo, ...updatedTodo } : todo
+          todo.id === updatedTodo.id ? updatedTodo : todo
         )
       );
-      setEditingTodoId(null);
-      setSrAnnouncement(`Todo "${updatedTodo.title}" updated`);
+      setSrAnnouncement(t("todos.sr.updated", { title: updatedTodo.title }));
+    } else if (actionData?.intent === "move") {
+      const movedTodo = actionData.data;
+      const target = lists.find((list) => list.id === movedTodo.listId);
+      setTodos((prevTodos) =>
+        prevTodos.filter((todo) => todo.id !== movedTodo.id)
+      );
+      setSrAnnouncement(
+        target
+          ? t("todos.sr.moved", { title: movedTodo.title, list: target.name })
+          : t("todos.sr.movedElsewhere", { title: movedTodo.title })
+      );
+    } else if (actionData?.intent === "conflict") {
+      const { todo: current, submission } = actionData.data;
+      const toastId = `todo-conflict-${current.id}`;
+      const takeTheirs = () => {
+        setTodos((prevTodos) =>
+          prevTodos.map((todo) => (todo.id === current.id ? current : todo))
+        );
+      };
+
+      setDeletingTodoId(null);
+      addToast({
+        id: toastId,
+        title: t("todos.conflict.title"),
+        variant: "warning",
+        description: t("todos.conflict.description", { title: current.title }),
+        duration: 15000,
+        action: {
+          label: t("todos.conflict.keepMine"),
+          onClick: () => {
+            removeToastById(toastId);
+            submit(
+              { ...submission, version: String(current.version) },
+              { method: "post", action: formAction }
+            );
+          },
+        },
+        secondaryAction: {
+          label: t("todos.conflict.takeTheirs"),
+          onClick: () => {
+            removeToastById(toastId);
+            takeTheirs();
+          },
+        },
+        onDismiss: takeTheirs,
+      });
+      setSrAnnouncement(t("todos.sr.conflict", { title: current.title }));
+    } else if (actionData?.intent === "batch") {
+      const { action, results } = actionData.data;
+      const deletedIds = new Set(
+        results
+          .filter((result) => result.op === "delete" && result.status === 200)
+          .map((result) => result.id)
+      );
+      // Stale operations come back with the stored todo, which replaces ours
+      const writtenTodos = new Map(
+        results.flatMap((result) =>
+          result.todo ? [[result.id, result.todo] as const] : []
+        )
+      );
+      setTodos((prevTodos) =>
+        prevTodos
+          .filter((todo) => !deletedIds.has(todo.id))
+          .map((todo) => writtenTodos.get(todo.id) ?? todo)
+      );
+      setSelectedIds(new Set());
+
+      const failed = results.filter((result) => result.status >= 400).length;
+      const succeeded = results.length - failed;
+      const deleting =
+        action === "clear-completed" || action === "delete-selected";
+      const summary = deleting
+        ? t("todos.batch.trashed", { count: succeeded })
+        : action === "reorder"
+        ? t("todos.batch.reordered")
+        : t("todos.batch.completed", { count: succeeded });
+      const description = failed
+        ? `${summary} ${t("todos.batch.failed", { count: failed })}`
+        : summary;
+      setSrAnnouncement(description);
+      // Reordering happens in place, so only failures need a toast
+      if (action === "reorder" && !failed) return;
+      addToast({
+        title: t(failed ? "todos.batch.failedTitle" : "todos.batch.title"),
+        variant: failed ? "warning" : "success",
+        description,
+        duration: 5000,
+        ...(deleting && {
+          action: {
+            label: t("todos.batch.openTrash"),
+            onClick: () => navigate(localizePath("/todos/trash")),
+          },
+        }),
+      });
     } else if (actionData?.intent === "create") {
-      setTodos((prevTodos) => [...prevTodos, actionData.data]);
+      // The live update for this todo may have arrived first
+      setTodos((prevTodos) => [
+        ...prevTodos.filter((todo) => todo.id !== actionData.data.id),
+        actionData.data,
+      ]);
       setNewTodoTitle("");
+      setNewTodoDueAt("");
+      setNewTodoTags("");
       newTodoInputRef.current?.focus();
-      setSrAnnouncement(`Todo "${actionData.data.title}" added`);
+      setSrAnnouncement(t("todos.sr.added", { title: actionData.data.title }));
     }
   }, [actionData, navigation.state]);
 
+  // The form posts itself, with or without JavaScript; this only keeps
+  // empty titles and double submissions from reaching the action
   const handleAddTodo = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newTodoTitle.trim() || navigation.state === "submitting") return;
-
-    const newTodo = {
-      title: newTodoTitle.trim(),
-      completed: false,
-      createdAt: new Date().toISOString(),
-    };
+    if (!newTodoTitle.trim() || navigation.state === "submitting") {
+      e.preventDefault();
+      return;
+    }
 
-    // Optimistically add the todo
+    // Optimistically clear the title; the form data is already read
     setNewTodoTitle("");
+  };
+
+  const closeEditor = () =>
+    navigate(
+      { search: listSearch },
+      { replace: true, preventScrollReset: true }
+    );
+
+  // Deleting moves the todo to the server-side trash right away; the undo
+  // toast shown afterwards restores it from there
+  const handleDeleteTodo = ({ id, version }: Todo) => {
+    if (deletingTodoId) return;
+
+    setDeletingTodoId(id);
 
     const formData = new FormData();
-    formData.append("intent", "create");
-    formData.append("title", newTodo.title);
+    formData.append("intent", "delete");
+    formData.append("id", id);
+    formData.append("version", String(version));
 
     submit(formData, {
       method: "post",
-      action: "/todos",
-      replace: true,
+      action: formAction,
     });
   };
 
-  const handleToggleComplete = (id: string, completed: boolean) => {
+  const handleMoveTodo = (todo: Todo, targetListId: string) => {
     if (navigation.state != "idle") return;
 
-    const newCompleted = !completed;
-
     const formData = new FormData();
-    formData.append("intent", "update");
-    formData.append("id", id);
-    formData.append("completed", String(newCompleted));
+    formData.append("intent", "move");
+    formData.append("id", todo.id);
+    formData.append("version", String(todo.version));
+    formData.append("listId", targetListId);
 
     submit(formData, {
       method: "post",
-      action: "/todos",
-      replace: true,
+      action: formAction,
     });
   };
 
-  const handleEditTodo = (todo: Todo) => {
-    setEditingTodoId(todo.id);
-    setEditTodoTitle(todo.title);
+  const handleToggleSelected = (id: string) => {
+    setSelectedIds((prevIds) => {
+      const nextIds = new Set(prevIds);
+      if (!nextIds.delete(id)) nextIds.add(id);
+      return nextIds;
+    });
   };
 
-  const handleSaveEdit = (e?: React.FormEvent | React.MouseEvent) => {
-    e?.preventDefault();
-    if (!editingTodoId || !editTodoTitle.trim() || navigation.state != "idle")
-      return;
+  // Save a new manual order. Only todos whose position changed are sent,
+  // and the list shows the new order before the server confirms it.
+  const handleReorder = (ordered: Todo[], action = formAction) => {
+    if (navigation.state != "idle") return;
+
+    const moved = orderChanges(ordered);
+    if (moved.length === 0) return;
 
-    const updatedTitle = editTodoTitle.trim();
+    const positions = new Map(moved.map(({ todo, order }) => [todo.id, order]));
+    setTodos((prevTodos) =>
+      prevTodos.map((todo) =>
+        positions.has(todo.id)
+          ? { ...todo, order: positions.get(todo.id) }
+          : todo
+      )
+    );
+
+    const formData = new FormData();
+    formData.append("intent", "reorder");
+    for (const { todo, order } of moved) {
+      formData.append("id", todo.id);
+      formData.append("version", String(todo.version));
+      formData.append("order", String(order));
+    }
+
+    submit(formData, { method: "post", action });
+  };
+
+  // Put a todo where another one currently is, shifting the ones between
+  const handleMoveTo = (id: string, targetId: string) => {
+    const ordered = moveTo(manualTodos, id, targetId);
+    if (!ordered) return;
+
+    handleReorder(ordered);
+    const position = ordered.findIndex((todo) => todo.id === id);
+    setSrAnnouncement(
+      t("todos.sr.position", {
+        title: ordered[position].title,
+        position: position + 1,
+        total: ordered.length,
+      })
+    );
+  };
+
+  // Keyboard alternative to dragging: swap with the visible neighbour
+  const handleMoveBy = (todo: Todo, offset: -1 | 1) => {
+    const index = filteredTodos.findIndex(({ id }) => id === todo.id);
+    const neighbour = filteredTodos[index + offset];
+    if (neighbour) handleMoveTo(todo.id, neighbour.id);
+  };
+
+  // Selected todos move to the top, keeping their relative order. Selection
+  // mode ends and the list goes back to the manual order, which shows them
+  // there.
+  const moveToTopAction = actionWith(searchWithout("select", "sort"));
+  const handleMoveSelectedToTop = () => {
+    handleReorder(moveToTop(manualTodos, selectedIds), moveToTopAction);
+  };
+
+  const handleChangePriority = (todo: Todo, priority: TodoPriority) => {
+    if (navigation.state != "idle" || priority === todo.priority) return;
 
     const formData = new FormData();
     formData.append("intent", "update");
-    formData.append("id", editingTodoId);
-    formData.append("title", updatedTitle);
+    formData.append("id", todo.id);
+    formData.append("version", String(todo.version));
+    formData.append("priority", String(priority));
 
     submit(formData, {
       method: "post",
-      action: "/todos",
+      action: formAction,
+      replace: true,
     });
   };
 
-  const handleCancelEdit = () => {
-    setEditingTodoId(null);
-    setEditTodoTitle("");
-  };
+  // Hidden id/version pairs of the todos a bulk form acts on
+  const targetFields = (targets: Todo[]) =>
+    targets.map((todo) => (
+      <Fragment key={todo.id}>
+        <input type="hidden" name="id" value={todo.id} />
+        <input type="hidden" name="version" value={todo.version} />
+      </Fragment>
+    ));
 
-  const handleDeleteTodo = (id: string) => {
-    if (deletingTodoId) return;
+  // Manual positions can only be changed while the list shows them
+  const canReorder = sort === "manual" && !selecting;
 
-    deletingTodoIdRef.current = id;
-    setDeletingTodoId(id);
-    const toastId = `todo-delete-${id}`;
+  const selectedTodos = sortedTodos.filter((todo) => selectedIds.has(todo.id));
+  const activeTodos = sortedTodos.filter((todo) => !todo.completed);
+  const completedTodos = sortedTodos.filter((todo) => todo.completed);
 
-    addToast({
-      id: toastId,
-      title: "Todo Deleted",
-      description: "Todo has been deleted. Click to undo.",
-      duration: 1000,
-      action: {
-        label: "Undo",
-        onClick: () => {
-          handleUndoDelete(id);
-          // The toast will be removed by the handleUndoDelete function
-        },
-      },
-      onDismiss: async () => {
-        if (deletingTodoIdRef.current === id) {
-          const formData = new FormData();
-          formData.append("intent", "delete");
-          formData.append("id", id);
-
-          await submit(formData, {
-            method: "post",
-            action: "/todos",
-          });
-        }
-      },
-    });
+  const handleCreateList = (name: string) => {
+    const formData = new FormData();
+    formData.append("intent", "create-list");
+    formData.append("name", name);
+
+    submit(formData, { method: "post", action: actionPath });
   };
 
-  const { removeToastById } = useToast();
+  const handleDeleteList = () => {
+    if (
+      !window.confirm(
+        t("todos.deleteList.confirm", { name: currentList?.name ?? "" })
+      )
+    )
+      return;
+
+    const formData = new FormData();
+    formData.append("intent", "delete-list");
+
+    submit(formData, { method: "post", action: actionPath });
+  };
 
   const handleUndoDelete = (id: string) => {
-    deletingTodoIdRef.current = null;
-    setDeletingTodoId(null);
     const toastId = `todo-delete-${id}`;
     removeToastById(toastId);
+
+    const formData = new FormData();
+    formData.append("intent", "restore");
+    formData.append("id", id);
+
+    submit(formData, {
+      method: "post",
+      action: formAction,
+    });
   };
 
+  const titleError =
+    actionData?.intent === "error" ? actionData.data.fields?.title?.[0] : null;
+
   const completedCount = todos.filter((todo) => todo.completed).length;
   const totalCount = todos.length;
   const completionPercentage =
@@ -494,14 +1447,44 @@ export default function TodosPage() {
         {srAnnouncement}
       </div>
       <header className={styles.headerContainer}>
-        <h1>Todo List</h1>
+        <div className={styles.headerTitle}>
+          <h1>{currentList?.name ?? t("todos.title")}</h1>
+          <ListSwitcher
+            lists={lists}
+            value={listId}
+            onValueChange={(id) => navigate(localizePath(todosPath(id)))}
+            onCreate={handleCreateList}
+            onDelete={listId !== DEFAULT_LIST_ID ? handleDeleteList : undefined}
+            disabled={navigation.state != "idle"}
+          />
+        </div>
+        <Form
+          method="post"
+          action={localizePath("/logout")}
+          className={styles.accountBar}
+        >
+          <span className={styles.accountEmail}>
+            {t("todos.signedInAs", { email: user.email })}
+          </span>
+          <Link to={localizePath("/todos/trash")}>
+            <TrashIcon aria-hidden="true" />
+            {t("todos.trash")}
+          </Link>
+          <Button type="submit" variant="ghost" size="1">
+            {t("todos.signOut")}
+          </Button>
+        </Form>
         {totalCount > 0 && (
           <div className={styles.statsContainer}>
             <div className={styles.statsText}>
               <span className={styles.completedCount}>{completedCount}</span>
-              <span className={styles.statseparator}>of</span>
+              <span className={styles.statseparator}>
+                {t("todos.stats.of")}
+              </span>
               <span className={styles.totalCount}>{totalCount}</span>
-              <span className={styles.statsLabel}>completed</span>
+              <span className={styles.statsLabel}>
+                {t("todos.stats.completed", { count: totalCount })}
+              </span>
             </div>
             <Progress
               value={completionPercentage}
@@ -512,20 +1495,48 @@ export default function TodosPage() {
         )}
       </header>
 
+      {summary && (summary.overdue > 0 || summary.dueToday > 0) && (
+        <aside
+          className={styles.summaryBanner}
+          aria-label={t("todos.summary.label")}
+        >
+          <p>
+            <strong>{formatDueDate(summary.date)}:</strong>{" "}
+            {t("todos.summary.text", {
+              overdue: summary.overdue,
+              newlyOverdue: summary.newlyOverdue,
+              dueToday: summary.dueToday,
+            })}
+          </p>
+          {summary.overdue > 0 && (
+            <Button asChild variant="soft" color="red" size="1">
+              <Link
+                to={{ search: searchWith("filter", "overdue") }}
+                replace
+                preventScrollReset
+              >
+                {t("todos.summary.showOverdue")}
+              </Link>
+            </Button>
+          )}
+        </aside>
+      )}
+
       <section aria-labelledby="add-todo-heading">
         <h2 id="add-todo-heading" className={styles.visuallyHidden}>
-          Add New Todo
+          {t("todos.add.heading")}
         </h2>
         <Form
           method="post"
-          action="/todos"
+          action={formAction}
+          replace
           onSubmit={handleAddTodo}
           className={styles.todoForm}
         >
           <div className={styles.todoFormContent}>
             <div className={styles.todoInput}>
               <label htmlFor="new-todo-input" className={styles.visuallyHidden}>
-                Todo title
+                {t("todos.add.titleLabel")}
               </label>
               <input type="hidden" name="intent" value="create" />
               <TextField.Root
@@ -535,22 +1546,59 @@ export default function TodosPage() {
                 onChange={(e: ChangeEvent<HTMLInputElement>) =>
                   setNewTodoTitle(e.target.value)
                 }
-                placeholder="Add a new todo..."
+                placeholder={t("todos.add.placeholder")}
                 size="3"
+                required
                 disabled={navigation.state != "idle"}
                 ref={newTodoInputRef}
+                aria-invalid={titleError ? true : undefined}
+                aria-describedby={titleError ? "new-todo-error" : undefined}
               />
+              {titleError && (
+                <p id="new-todo-error" className={styles.fieldError}>
+                  {titleError}
+                </p>
+              )}
             </div>
+            <PrioritySelect
+              value={newTodoPriority}
+              onValueChange={setNewTodoPriority}
+              name="priority"
+              label={t("todos.add.priority")}
+              disabled={navigation.state != "idle"}
+            />
+            <TextField.Root
+              type="date"
+              name="dueAt"
+              value={newTodoDueAt}
+              onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                setNewTodoDueAt(e.target.value)
+              }
+              size="3"
+              disabled={navigation.state != "idle"}
+              aria-label={t("todos.add.dueDate")}
+              className={styles.dueDateInput}
+            />
+            <TextField.Root
+              name="tags"
+              value={newTodoTags}
+              onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                setNewTodoTags(e.target.value)
+              }
+              placeholder={t("todos.add.tagsPlaceholder")}
+              size="3"
+              disabled={navigation.state != "idle"}
+              aria-label={t("todos.add.tags")}
+              className={styles.tagsInput}
+            />
             <Button
               type="submit"
               size="3"
               variant="solid"
-              disabled={
-                navigation.state != "idle" || newTodoTitle.trim() === ""
-              }
-              aria-label="Add new todo"
+              disabled={navigation.state != "idle"}
+              aria-label={t("todos.add.label")}
             >
-              Add
+              {t("todos.add.submit")}
             </Button>
           </div>
         </Form>
@@ -558,111 +1606,529 @@ export default function TodosPage() {
 
       <section aria-labelledby="todo-list-heading">
         <h2 id="todo-list-heading" className={styles.visuallyHidden}>
-          Your Todos
+          {t("todos.list.heading")}
         </h2>
+        {(sortedTodos.length > 0 || q || tag) && (
+          <div className={styles.searchBar}>
+            <Form method="get" role="search" className={styles.searchForm}>
+              {tag && <input type="hidden" name="tag" value={tag} />}
+              {sort !== "manual" && (
+                <input type="hidden" name="sort" value={sort} />
+              )}
+              <TextField.Root
+                key={q}
+                type="search"
+                name="q"
+                defaultValue={q}
+                placeholder={t("todos.search.placeholder")}
+                size="2"
+                aria-label={t("todos.search.label")}
+                className={styles.searchInput}
+              >
+                <TextField.Slot>
+                  <MagnifyingGlassIcon aria-hidden="true" />
+                </TextField.Slot>
+              </TextField.Root>
+              <Button type="submit" size="2" variant="soft">
+                {t("todos.search.submit")}
+              </Button>
+              {(q || tag) && (
+                <Link
+                  to={{ search: sort !== "manual" ? `sort=${sort}` : "" }}
+                  className={styles.clearSearch}
+                >
+                  {t("todos.search.clear")}
+                </Link>
+              )}
+            </Form>
+            {tagsInUse.length > 0 && (
+              <ul className={styles.tagChips} aria-label={t("todos.tagFilter")}>
+                {tagsInUse.map((value) => (
+                  <li key={value}>
+                    <Link
+                      to={{ search: tagSearch(value) }}
+                      className={styles.tagChip}
+                      aria-current={value === tag ? "true" : undefined}
+                    >
+                      #{value}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
         {sortedTodos.length > 0 && (
-          <div className={styles.filterContainer}>
-            <button
-              className={[
-                styles.filterButton,
-                filter === "all" && styles.filterActive,
-              ]
-                .filter(Boolean)
-                .join(" ")}
-              onClick={() => setFilter("all")}
-              aria-pressed={filter === "all"}
-            >
-              All ({sortedTodos.length})
-            </button>
-            <button
-              className={[
-                styles.filterButton,
-                filter === "active" && styles.filterActive,
-                animatingFilter === "active" && styles.filterAnimating,
-              ]
-                .filter(Boolean)
-                .join(" ")}
-              onClick={() => setFilter("active")}
-              aria-pressed={filter === "active"}
+          <div className={styles.toolbar}>
+            <Form
+              method="get"
+              replace
+              preventScrollReset
+              className={styles.filterContainer}
             >
-              Active ({sortedTodos.filter((t) => !t.completed).length})
-            </button>
-            <button
-              className={[
-                styles.filterButton,
-                filter === "completed" && styles.filterActive,
-                animatingFilter === "completed" && styles.filterAnimating,
-              ]
-                .filter(Boolean)
-                .join(" ")}
-              onClick={() => setFilter("completed")}
-              aria-pressed={filter === "completed"}
+              {searchFields("filter")}
+              {(Object.keys(TODO_FILTERS) as TodoFilter[]).map((value) => (
+                <button
+                  key={value}
+                  type="submit"
+                  name="filter"
+                  value={value}
+                  className={[
+                    styles.filterButton,
+                    filter === value && styles.filterActive,
+                    animatingFilter === value && styles.filterAnimating,
+                  ]
+                    .filter(Boolean)
+                    .join(" ")}
+                  aria-pressed={filter === value}
+                >
+                  {t(TODO_FILTERS[value])} (
+                  {
+                    sortedTodos.filter((todo) =>
+                      matchesFilter(todo, value, today)
+                    ).length
+                  }
+                  )
+                </button>
+              ))}
+            </Form>
+            {hydrated ? (
+              <Select.Root value={sort} onValueChange={handleSortChange}>
+                <Select.Trigger
+                  className={styles.sortTrigger}
+                  aria-label={t("todos.sort.label")}
+                >
+                  {t("todos.sort.prefix")} <Select.Value />
+                  <Select.Icon>
+                    <ChevronDownIcon />
+                  </Select.Icon>
+                </Select.Trigger>
+                <Select.Portal>
+                  <Select.Content className={styles.moveMenu} position="popper">
+                    <Select.Viewport>
+                      {(Object.keys(TODO_SORTS) as TodoSort[]).map((value) => (
+                        <Select.Item
+                          key={value}
+                          value={value}
+                          className={styles.moveMenuItem}
+                        >
+                          <Select.ItemText>
+                            {t(TODO_SORTS[value])}
+                          </Select.ItemText>
+                        </Select.Item>
+                      ))}
+                    </Select.Viewport>
+                  </Select.Content>
+                </Select.Portal>
+              </Select.Root>
+            ) : (
+              <Form
+                method="get"
+                replace
+                preventScrollReset
+                className={styles.inlineForm}
+              >
+                {searchFields("sort")}
+                <select
+                  name="sort"
+                  defaultValue={sort}
+                  aria-label={t("todos.sort.label")}
+                  className={styles.sortTrigger}
+                >
+                  {(Object.keys(TODO_SORTS) as TodoSort[]).map((value) => (
+                    <option key={value} value={value}>
+                      {t(TODO_SORTS[value])}
+                    </option>
+                  ))}
+                </select>
+                <Button type="submit" size="2" variant="soft">
+                  {t("todos.sort.apply")}
+                </Button>
+              </Form>
+            )}
+            <div
+              role="toolbar"
+              aria-label={t("todos.bulk.label")}
+              className={styles.bulkActions}
             >
-              Completed ({sortedTodos.filter((t) => t.completed).length})
-            </button>
+              {selecting ? (
+                <>
+                  {/* Bulk actions end selection mode, so they post where it
+                      is off */}
+                  <Form
+                    id="bulk-selected"
+                    method="post"
+                    action={actionWith(searchWithout("select"))}
+                    replace
+                    preventScrollReset
+                    className={styles.inlineForm}
+                  >
+                    {hydrated && targetFields(selectedTodos)}
+                    <Button
+                      type="submit"
+                      name="intent"
+                      value="delete-selected"
+                      size="2"
+                      variant="soft"
+                      color="red"
+                      disabled={
+                        navigation.state != "idle" ||
+                        (hydrated && selectedTodos.length === 0)
+                      }
+                    >
+                      {hydrated
+                        ? t("todos.bulk.deleteSelected", {
+                            count: selectedTodos.length,
+                          })
+                        : t("todos.bulk.deleteChecked")}
+                    </Button>
+                    <Button
+                      type="submit"
+                      name="intent"
+                      value="move-to-top"
+                      formAction={moveToTopAction}
+                      size="2"
+                      variant="soft"
+                      disabled={
+                        navigation.state != "idle" ||
+                        (hydrated && selectedTodos.length === 0)
+                      }
+                      onClick={(e) => {
+                        e.preventDefault();
+                        handleMoveSelectedToTop();
+                      }}
+                    >
+                      {t("todos.bulk.moveToTop")}
+                    </Button>
+                  </Form>
+                  <Button asChild size="2" variant="ghost" color="gray">
+                    <Link
+                      to={{ search: searchWithout("select") }}
+                      replace
+                      preventScrollReset
+                    >
+                      {t("common.cancel")}
+                    </Link>
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Form
+                    method="post"
+                    action={formAction}
+                    replace
+                    preventScrollReset
+                    className={styles.inlineForm}
+                  >
+                    <input type="hidden" name="intent" value="complete-all" />
+                    {targetFields(activeTodos)}
+                    <Button
+                      type="submit"
+                      size="2"
+                      variant="soft"
+                      disabled={
+                        navigation.state != "idle" || activeTodos.length === 0
+                      }
+                    >
+                      {t("todos.bulk.completeAll")}
+                    </Button>
+                  </Form>
+                  <Form
+                    method="post"
+                    action={formAction}
+                    replace
+                    preventScrollReset
+                    className={styles.inlineForm}
+                  >
+                    <input
+                      type="hidden"
+                      name="intent"
+                      value="clear-completed"
+                    />
+                    {targetFields(completedTodos)}
+                    <Button
+                      type="submit"
+                      size="2"
+                      variant="soft"
+                      color="gray"
+                      disabled={
+                        navigation.state != "idle" ||
+                        completedTodos.length === 0
+                      }
+                    >
+                      {t("todos.bulk.clearCompleted")}
+                    </Button>
+                  </Form>
+                  <Button asChild size="2" variant="ghost">
+                    <Link
+                      to={{ search: searchWith("select", "1") }}
+                      replace
+                      preventScrollReset
+                    >
+                      {t("todos.bulk.select")}
+                    </Link>
+                  </Button>
+                </>
+              )}
+            </div>
+            {/* Sorting happens here on the loaded pages, so todos past
+                "Load more" are not part of it yet */}
+            {nextCursor && (
+              <p className={styles.sortNote}>
+                {t("todos.sort.loadedOnly", { count: sortedTodos.length })}
+              </p>
+            )}
           </div>
         )}
-        {sortedTodos.length === 0 ? (
+        {/* Stands in for the undo toast until hydration and for good
+            without JavaScript */}
+        {!hydrated && actionData?.intent === "delete" && (
+          <Form
+            method="post"
+            action={formAction}
+            replace
+            preventScrollReset
+            className={styles.undoNotice}
+          >
+            <input type="hidden" name="intent" value="restore" />
+            <input type="hidden" name="id" value={actionData.data.id} />
+            <p role="status">{t("todos.deleted.descriptionUnknown")}</p>
+            <Button type="submit" size="2" variant="soft">
+              {t("common.undo")}
+            </Button>
+          </Form>
+        )}
+        {confirmingTodo ? (
+          <section
+            className={styles.deleteConfirm}
+            aria-labelledby="delete-confirm-heading"
+          >
+            <h3 id="delete-confirm-heading" className={styles.emptyStateTitle}>
+              {t("todos.deleteConfirm.title", { title: confirmingTodo.title })}
+            </h3>
+            <p className={styles.emptyStateDescription}>
+              {t("todos.deleteConfirm.description")}
+            </p>
+            <Form
+              method="post"
+              action={formAction}
+              replace
+              className={styles.deleteConfirmActions}
+            >
+              <input type="hidden" name="intent" value="delete" />
+              <input type="hidden" name="id" value={confirmingTodo.id} />
+              <input
+                type="hidden"
+                name="version"
+                value={confirmingTodo.version}
+              />
+              <Button
+                type="submit"
+                color="red"
+                size="3"
+                disabled={navigation.state != "idle"}
+              >
+                <TrashIcon />
+                {t("todos.deleteConfirm.submit")}
+              </Button>
+              <Button asChild color="gray" variant="soft" size="3">
+                <Link to={{ search: listSearch }} replace>
+                  {t("common.cancel")}
+                </Link>
+              </Button>
+            </Form>
+          </section>
+        ) : sortedTodos.length === 0 && (q || tag) ? (
+          <div className={styles.emptyState}>
+            <div className={styles.emptyStateIcon}>🔍</div>
+            <h3 className={styles.emptyStateTitle}>
+              {t("todos.empty.noMatchTitle")}
+            </h3>
+            <p className={styles.emptyStateDescription}>
+              {q && tag
+                ? t("todos.empty.noMatchBoth", { q, tag })
+                : q
+                ? t("todos.empty.noMatchQuery", { q })
+                : t("todos.empty.noMatchTag", { tag })}
+            </p>
+          </div>
+        ) : sortedTodos.length === 0 ? (
           <div className={styles.emptyState}>
             <div className={styles.emptyStateIcon}>📝</div>
-            <h3 className={styles.emptyStateTitle}>No todos yet</h3>
+            <h3 className={styles.emptyStateTitle}>{t("todos.empty.title")}</h3>
             <p className={styles.emptyStateDescription}>
-              Start organizing your tasks by adding your first todo above.
+              {t("todos.empty.description")}
             </p>
           </div>
         ) : filteredTodos.length === 0 ? (
           <div className={styles.emptyState}>
             <div className={styles.emptyStateIcon}>🔍</div>
-            <h3 className={styles.emptyStateTitle}>No {filter} todos</h3>
-            <p className={styles.emptyStateDescription}>
-              {filter === "active" && "All tasks are completed! Great job!"}
-              {filter === "completed" &&
-                "No completed tasks yet. Start checking off your todos!"}
-            </p>
+            {filter !== "all" && (
+              <>
+                <h3 className={styles.emptyStateTitle}>
+                  {t(`todos.empty.${filter}Title`)}
+                </h3>
+                <p className={styles.emptyStateDescription}>
+                  {t(`todos.empty.${filter}`, { days: UPCOMING_DAYS })}
+                </p>
+              </>
+            )}
           </div>
         ) : (
-          <ul className={styles.todoList} aria-label="Todo items">
-            {filteredTodos.map((todo) => (
+          <ul className={styles.todoList} aria-label={t("todos.list.label")}>
+            {filteredTodos.map((todo, index) => (
               <li
                 key={todo.id}
-                className={`${styles.todoItem} ${
-                  deletingTodoId === todo.id ? styles.pendingDelete : ""
-                } ${todo.completed ? styles.completed : ""}`}
+                className={[
+                  styles.todoItem,
+                  pendingDeleteId === todo.id && styles.pendingDelete,
+                  isCompleted(todo) && styles.completed,
+                  draggedTodoId === todo.id && styles.dragging,
+                  dropTargetId === todo.id &&
+                    draggedTodoId !== todo.id &&
+                    styles.dropTarget,
+                ]
+                  .filter(Boolean)
+                  .join(" ")}
+                draggable={canReorder && editingTodoId !== todo.id}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  e.dataTransfer.setData("text/plain", todo.id);
+                  setDraggedTodoId(todo.id);
+                }}
+                onDragOver={(e) => {
+                  if (!draggedTodoId) return;
+                  e.preventDefault();
+                  e.dataTransfer.dropEffect = "move";
+                  setDropTargetId(todo.id);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (draggedTodoId) handleMoveTo(draggedTodoId, todo.id);
+                  setDraggedTodoId(null);
+                  setDropTargetId(null);
+                }}
+                onDragEnd={() => {
+                  setDraggedTodoId(null);
+                  setDropTargetId(null);
+                }}
               >
+                {selecting &&
+                  (hydrated ? (
+                    <Checkbox.Root
+                      checked={selectedIds.has(todo.id)}
+                      onCheckedChange={() => handleToggleSelected(todo.id)}
+                      className={styles.selectCheckbox}
+                      aria-label={t("todos.item.select", { title: todo.title })}
+                    >
+                      <Checkbox.Indicator className={styles.checkboxIndicator}>
+                        ✓
+                      </Checkbox.Indicator>
+                    </Checkbox.Root>
+                  ) : (
+                    <input
+                      type="checkbox"
+                      form="bulk-selected"
+                      name="selected"
+                      value={`${todo.id}:${todo.version}`}
+                      className={styles.selectCheckbox}
+                      aria-label={t("todos.item.select", { title: todo.title })}
+                    />
+                  ))}
                 <article className={styles.todoContent}>
-                  <Checkbox.Root
-                    checked={todo.completed}
-                    onCheckedChange={() =>
-                      handleToggleComplete(todo.id, todo.completed)
-                    }
-                    className={styles.todoCheckbox}
-                    id={`todo-${todo.id}`}
-                    disabled={navigation.state != "idle"}
-                    aria-label={`Mark "${todo.title}" as ${
-                      todo.completed ? "incomplete" : "complete"
-                    }`}
+                  <Form
+                    method="post"
+                    action={formAction}
+                    replace
+                    preventScrollReset
+                    className={styles.inlineForm}
                   >
-                    <Checkbox.Indicator className={styles.checkboxIndicator}>
-                      ✓
-                    </Checkbox.Indicator>
-                  </Checkbox.Root>
+                    <input type="hidden" name="intent" value="update" />
+                    <input type="hidden" name="id" value={todo.id} />
+                    <input type="hidden" name="version" value={todo.version} />
+                    <input
+                      type="hidden"
+                      name="completed"
+                      value={String(!todo.completed)}
+                    />
+                    <Checkbox.Root
+                      type="submit"
+                      checked={isCompleted(todo)}
+                      className={styles.todoCheckbox}
+                      id={`todo-${todo.id}`}
+                      disabled={navigation.state != "idle"}
+                      aria-label={t(
+                        todo.completed
+                          ? "todos.item.markIncomplete"
+                          : "todos.item.markComplete",
+                        { title: todo.title }
+                      )}
+                    >
+                      <Checkbox.Indicator className={styles.checkboxIndicator}>
+                        ✓
+                      </Checkbox.Indicator>
+                    </Checkbox.Root>
+                  </Form>
 
                   {editingTodoId === todo.id ? (
                     <div className={styles.todoEditInput}>
                       <TextField.Root
-                        value={editTodoTitle}
+                        form={`edit-${todo.id}`}
+                        name="title"
+                        defaultValue={todo.title}
+                        required
                         disabled={navigation.state != "idle"}
-                        onChange={(e: ChangeEvent<HTMLInputElement>) =>
-                          setEditTodoTitle(e.target.value)
-                        }
                         autoFocus={true}
                         onKeyDown={(e: KeyboardEvent<HTMLInputElement>) => {
-                          if (e.key === "Enter") handleSaveEdit();
-                          if (e.key === "Escape") handleCancelEdit();
+                          if (e.key === "Escape") closeEditor();
                         }}
                         size="3"
-                        aria-label="Edit todo title"
+                        aria-label={t("todos.item.editTitle")}
                       />
+                      <TextField.Root
+                        form={`edit-${todo.id}`}
+                        type="date"
+                        name="dueAt"
+                        defaultValue={todo.dueAt ?? ""}
+                        disabled={navigation.state != "idle"}
+                        onKeyDown={(e: KeyboardEvent<HTMLInputElement>) => {
+                          if (e.key === "Escape") closeEditor();
+                        }}
+                        size="3"
+                        aria-label={t("todos.item.editDueDate")}
+                        className={styles.dueDateInput}
+                      />
+                      <TextField.Root
+                        form={`edit-${todo.id}`}
+                        name="tags"
+                        defaultValue={todo.tags.join(", ")}
+                        disabled={navigation.state != "idle"}
+                        onKeyDown={(e: KeyboardEvent<HTMLInputElement>) => {
+                          if (e.key === "Escape") closeEditor();
+                        }}
+                        placeholder={t("todos.item.editTagsPlaceholder")}
+                        size="3"
+                        aria-label={t("todos.item.editTags")}
+                        className={styles.tagsInput}
+                      />
+                      {/* The fields and the save button sit in different
+                          parts of the row, so they join the form by id */}
+                      <Form
+                        id={`edit-${todo.id}`}
+                        method="post"
+                        action={formAction}
+                        replace
+                        preventScrollReset
+                        className={styles.inlineForm}
+                      >
+                        <input type="hidden" name="intent" value="update" />
+                        <input type="hidden" name="id" value={todo.id} />
+                        <input
+                          type="hidden"
+                          name="version"
+                          value={todo.version}
+                        />
+                      </Form>
                     </div>
                   ) : (
                     <label
@@ -673,6 +2139,73 @@ export default function TodosPage() {
                     </label>
                   )}
                   <footer className={styles.todoDates}>
+                    <Form
+                      method="post"
+                      action={formAction}
+                      replace
+                      preventScrollReset
+                      className={styles.inlineForm}
+                    >
+                      <input type="hidden" name="intent" value="update" />
+                      <input type="hidden" name="id" value={todo.id} />
+                      <input
+                        type="hidden"
+                        name="version"
+                        value={todo.version}
+                      />
+                      <PrioritySelect
+                        value={todo.priority}
+                        onValueChange={(priority) =>
+                          handleChangePriority(todo, priority)
+                        }
+                        name="priority"
+                        label={t("todos.item.priority", { title: todo.title })}
+                        disabled={navigation.state != "idle"}
+                      />
+                      {/* With JavaScript a new priority saves right away */}
+                      {!hydrated && (
+                        <Button type="submit" size="1" variant="soft">
+                          {t("todos.item.savePriority")}
+                        </Button>
+                      )}
+                    </Form>
+                    {todo.dueAt && (
+                      <span
+                        className={styles.dueDate}
+                        data-due={
+                          isOverdue(todo, today)
+                            ? "overdue"
+                            : isDueToday(todo, today)
+                            ? "today"
+                            : undefined
+                        }
+                      >
+                        {t("todos.item.due")}{" "}
+                        <time dateTime={todo.dueAt}>
+                          {formatDueDate(todo.dueAt)}
+                        </time>
+                        {isOverdue(todo, today) &&
+                          ` ${t("todos.item.overdue")}`}
+                      </span>
+                    )}
+                    {todo.tags.length > 0 && (
+                      <ul
+                        className={styles.tagChips}
+                        aria-label={t("todos.item.tags")}
+                      >
+                        {todo.tags.map((value) => (
+                          <li key={value}>
+                            <Link
+                              to={{ search: tagSearch(value) }}
+                              className={styles.tagChip}
+                              aria-current={value === tag ? "true" : undefined}
+                            >
+                              #{value}
+                            </Link>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                     <time dateTime={todo.updatedAt || todo.createdAt}>
                       {formatDateTime(todo.updatedAt || todo.createdAt)}
                     </time>
@@ -680,54 +2213,239 @@ export default function TodosPage() {
                 </article>
                 <aside
                   className={styles.todoActions}
-                  aria-label="Todo item actions"
+                  aria-label={t("todos.item.actions")}
                 >
                   {editingTodoId === todo.id ? (
                     <>
                       <IconButton
+                        type="submit"
+                        form={`edit-${todo.id}`}
                         disabled={navigation.state != "idle"}
-                        onClick={handleSaveEdit}
                         color="green"
                         variant="soft"
                         size="3"
                         className={styles.saveEditButton}
-                        aria-label="Save edit"
+                        aria-label={t("todos.item.save")}
                       >
                         <CheckIcon width="24" height="24" />
                       </IconButton>
-                      <IconButton
-                        disabled={navigation.state != "idle"}
-                        onClick={handleCancelEdit}
-                        color="gray"
-                        variant="soft"
-                        size="3"
-                        aria-label="Cancel edit"
-                      >
-                        <Cross2Icon width="24" height="24" />
+                      <IconButton asChild color="gray" variant="soft" size="3">
+                        <Link
+                          to={{ search: listSearch }}
+                          replace
+                          preventScrollReset
+                          aria-label={t("todos.item.cancel")}
+                        >
+                          <Cross2Icon width="24" height="24" />
+                        </Link>
                       </IconButton>
                     </>
                   ) : (
                     <>
+                      {/* Without JavaScript the action works out the new
+                          positions; with it they are sent from here */}
+                      {canReorder && (
+                        <>
+                          <Form
+                            method="post"
+                            action={formAction}
+                            replace
+                            preventScrollReset
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              handleMoveBy(todo, -1);
+                            }}
+                            className={styles.inlineForm}
+                          >
+                            <input
+                              type="hidden"
+                              name="intent"
+                              value="move-to"
+                            />
+                            <input type="hidden" name="id" value={todo.id} />
+                            {index > 0 && (
+                              <input
+                                type="hidden"
+                                name="targetId"
+                                value={filteredTodos[index - 1].id}
+                              />
+                            )}
+                            <IconButton
+                              type="submit"
+                              color="gray"
+                              variant="ghost"
+                              size="3"
+                              aria-label={t("todos.item.moveUp", {
+                                title: todo.title,
+                              })}
+                              disabled={
+                                navigation.state != "idle" || index === 0
+                              }
+                            >
+                              <ArrowUpIcon width="24" height="24" />
+                            </IconButton>
+                          </Form>
+                          <Form
+                            method="post"
+                            action={formAction}
+                            replace
+                            preventScrollReset
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              handleMoveBy(todo, 1);
+                            }}
+                            className={styles.inlineForm}
+                          >
+                            <input
+                              type="hidden"
+                              name="intent"
+                              value="move-to"
+                            />
+                            <input type="hidden" name="id" value={todo.id} />
+                            {index < filteredTodos.length - 1 && (
+                              <input
+                                type="hidden"
+                                name="targetId"
+                                value={filteredTodos[index + 1].id}
+                              />
+                            )}
+                            <IconButton
+                              type="submit"
+                              color="gray"
+                              variant="ghost"
+                              size="3"
+                              aria-label={t("todos.item.moveDown", {
+                                title: todo.title,
+                              })}
+                              disabled={
+                                navigation.state != "idle" ||
+                                index === filteredTodos.length - 1
+                              }
+                            >
+                              <ArrowDownIcon width="24" height="24" />
+                            </IconButton>
+                          </Form>
+                        </>
+                      )}
                       <IconButton
-                        onClick={(e: React.MouseEvent) => handleEditTodo(todo)}
+                        asChild
                         color="blue"
                         variant="ghost"
                         size="3"
                         className={styles.editActionButton}
-                        aria-label="Edit todo"
-                        disabled={navigation.state != "idle"}
                       >
-                        <Pencil1Icon width="24" height="24" />
+                        <Link
+                          to={{ search: searchWith("edit", todo.id) }}
+                          preventScrollReset
+                          aria-label={t("todos.item.edit")}
+                        >
+                          <Pencil1Icon width="24" height="24" />
+                        </Link>
                       </IconButton>
-                      <IconButton
-                        onClick={() => handleDeleteTodo(todo.id)}
-                        color="red"
-                        variant="ghost"
-                        size="3"
-                        aria-label="Delete todo"
-                        disabled={navigation.state != "idle"}
-                      >
-                        <TrashIcon width="24" height="24" />
+                      {lists.length > 1 &&
+                        (hydrated ? (
+                          <Select.Root
+                            value=""
+                            onValueChange={(targetListId) =>
+                              handleMoveTodo(todo, targetListId)
+                            }
+                            disabled={navigation.state != "idle"}
+                          >
+                            <Select.Trigger
+                              asChild
+                              aria-label={t("todos.item.move")}
+                            >
+                              <IconButton color="gray" variant="ghost" size="3">
+                                <ArrowRightIcon width="24" height="24" />
+                              </IconButton>
+                            </Select.Trigger>
+                            <Select.Portal>
+                              <Select.Content
+                                className={styles.moveMenu}
+                                position="popper"
+                              >
+                                <Select.Viewport>
+                                  {lists
+                                    .filter((list) => list.id !== listId)
+                                    .map((list) => (
+                                      <Select.Item
+                                        key={list.id}
+                                        value={list.id}
+                                        className={styles.moveMenuItem}
+                                      >
+                                        <Select.ItemText>
+                                          {t("todos.item.moveTo", {
+                                            list: list.name,
+                                          })}
+                                        </Select.ItemText>
+                                      </Select.Item>
+                                    ))}
+                                </Select.Viewport>
+                              </Select.Content>
+                            </Select.Portal>
+                          </Select.Root>
+                        ) : (
+                          <Form
+                            method="post"
+                            action={formAction}
+                            replace
+                            className={styles.inlineForm}
+                          >
+                            <input type="hidden" name="intent" value="move" />
+                            <input type="hidden" name="id" value={todo.id} />
+                            <input
+                              type="hidden"
+                              name="version"
+                              value={todo.version}
+                            />
+                            <select
+                              name="listId"
+                              aria-label={t("todos.item.moveTarget")}
+                              className={styles.moveSelect}
+                            >
+                              {lists
+                                .filter((list) => list.id !== listId)
+                                .map((list) => (
+                                  <option key={list.id} value={list.id}>
+                                    {list.name}
+                                  </option>
+                                ))}
+                            </select>
+                            <IconButton
+                              type="submit"
+                              color="gray"
+                              variant="ghost"
+                              size="3"
+                              aria-label={t("todos.item.move")}
+                            >
+                              <ArrowRightIcon width="24" height="24" />
+                            </IconButton>
+                          </Form>
+                        ))}
+                      <IconButton asChild color="red" variant="ghost" size="3">
+                        {/* With JavaScript the todo goes straight to the
+                            trash and the undo toast stands in for the
+                            confirmation page; opening the link in a new tab
+                            or window still shows the confirmation */}
+                        <Link
+                          to={{ search: searchWith("delete", todo.id) }}
+                          onClick={(e) => {
+                            if (
+                              e.button !== 0 ||
+                              e.metaKey ||
+                              e.ctrlKey ||
+                              e.shiftKey ||
+                              e.altKey
+                            )
+                              return;
+                            e.preventDefault();
+                            if (navigation.state == "idle")
+                              handleDeleteTodo(todo);
+                          }}
+                          aria-label={t("todos.item.delete")}
+                        >
+                          <TrashIcon width="24" height="24" />
+                        </Link>
                       </IconButton>
                     </>
                   )}
@@ -737,6 +2455,27 @@ export default function TodosPage() {
             ))}
           </ul>
         )}
+        {nextCursor && (
+          <loadMore.Form
+            method="get"
+            action={actionPath}
+            className={styles.loadMoreContainer}
+          >
+            {searchFields()}
+            <input type="hidden" name="cursor" value={nextCursor} />
+            {hydrated && <input type="hidden" name="append" value="true" />}
+            <Button
+              type="submit"
+              variant="soft"
+              size="3"
+              disabled={loadMore.state !== "idle"}
+            >
+              {loadMore.state !== "idle"
+                ? t("common.loading")
+                : t("todos.loadMore")}
+            </Button>
+          </loadMore.Form>
+        )}
       </section>
     </main>
   );
@@ -745,8 +2484,10 @@ export default function TodosPage() {
 export function ErrorBoundary() {
   const error = useRouteError();
   const { addToast } = useToast();
+  const t = useT();
+  const localizePath = useLocalizePath();
 
-  let errorMessage = "An unexpected error occurred";
+  let errorMessage = t("error.unexpected");
   let errorStatus = 500;
 
   if (isRouteErrorResponse(error)) {
@@ -758,8 +2499,9 @@ export function ErrorBoundary() {
 
   useEffect(() => {
     addToast({
-      title: "Todo Error",
+      title: t("todos.error.toast"),
       description: errorMessage,
+      variant: "error",
       duration: 5000,
     });
   }, [errorMessage, addToast]);
@@ -769,15 +2511,17 @@ export function ErrorBoundary() {
       <div className={styles.errorContainer}>
         <div className={styles.errorIcon}>⚠️</div>
         <h1 className={styles.errorTitle}>
-          {errorStatus === 404 ? "Todos Not Found" : "Error Loading Todos"}
+          {t(
+            errorStatus === 404 ? "todos.error.notFound" : "todos.error.title"
+          )}
         </h1>
         <p className={styles.errorMessage}>{errorMessage}</p>
         <div className={styles.errorActions}>
           <Button asChild size="3">
-            <Link to="/todos">Try Again</Link>
+            <Link to={localizePath("/todos")}>{t("common.tryAgain")}</Link>
           </Button>
           <Button asChild variant="soft" size="3">
-            <Link to="/">Go Home</Link>
+            <Link to={localizePath("/")}>{t("common.goHome")}</Link>
           </Button>
         </div>
       </div>
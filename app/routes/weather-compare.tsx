@@ -0,0 +1,304 @@
+import {
+  Link,
+  isRouteErrorResponse,
+  useLoaderData,
+  useRouteError,
+} from "react-router";
+import type { ReactNode } from "react";
+import { ArrowLeftIcon, StarIcon } from "@radix-ui/react-icons";
+import { COMPARE_CITIES_MAX, cityKey } from "../schemas/city";
+import type { Units, WeatherResponse } from "../schemas/weather";
+import {
+  TEMPERATURE_SYMBOLS,
+  WIND_SPEED_SYMBOLS,
+  parseUnitsCookie,
+} from "../lib/units";
+import { useLocalizePath, useT } from "../context/i18n-context";
+import {
+  createTranslator,
+  metaTranslator,
+  resolveFormatLocale,
+  resolveLocale,
+  type MetaMatches,
+} from "../lib/i18n";
+import {
+  fetchFavorites,
+  fetchForecast,
+  getDayName,
+  getWeatherDescription,
+  getWeatherIcon,
+  lookUpCity,
+  type Place,
+} from "../lib/weather";
+import styles from "./weather-compare.module.css";
+
+export function meta({ matches }: { matches: MetaMatches }) {
+  const t = metaTranslator(matches);
+  return [
+    { title: t("compare.meta.title") },
+    { name: "description", content: t("compare.meta.description") },
+  ];
+}
+
+// One city of the comparison; forecast is null when it could not be fetched
+interface Column {
+  place: Place;
+  forecast: WeatherResponse | null;
+}
+
+// ?cities= repeats once per city, e.g. ?cities=Paris,France&cities=Oslo,Norway;
+// without it the first favourites are compared
+export async function loader({
+  request,
+  params,
+  context,
+}: {
+  request: Request;
+  params: { lang?: string };
+  context: any;
+}) {
+  try {
+    const url = new URL(request.url);
+    let keys = url.searchParams.getAll("cities").filter(Boolean);
+    if (keys.length === 0) {
+      keys = (await fetchFavorites(context))
+        .slice(0, COMPARE_CITIES_MAX)
+        .map(cityKey);
+    }
+    if (keys.length > COMPARE_CITIES_MAX) {
+      const t = createTranslator(resolveLocale(request, params.lang));
+      throw new Response(t("compare.tooMany", { count: COMPARE_CITIES_MAX }), {
+        status: 400,
+        statusText: "Bad Request",
+      });
+    }
+
+    const places = await Promise.all(
+      keys.map((key) => lookUpCity(context, key))
+    );
+    // The same city spelled differently is only shown once
+    const uniquePlaces = places.filter(
+      (place, index) =>
+        places.findIndex((other) => other.key === place.key) === index
+    );
+
+    // One city failing leaves the others to compare
+    const units = parseUnitsCookie(request.headers.get("Cookie"));
+    const columns: Column[] = await Promise.all(
+      uniquePlaces.map(async (place) => {
+        try {
+          return {
+            place,
+            forecast: await fetchForecast(context, place, units),
+          };
+        } catch (error) {
+          console.error(`Error fetching weather for ${place.name}:`, error);
+          return { place, forecast: null };
+        }
+      })
+    );
+
+    return {
+      columns,
+      units,
+      locale: resolveFormatLocale(request, params.lang),
+    };
+  } catch (error) {
+    console.error("Error in weather compare loader:", error);
+
+    if (error instanceof Response) {
+      throw error;
+    }
+
+    throw new Response(
+      error instanceof Error ? error.message : "Failed to load weather data",
+      { status: 500 }
+    );
+  }
+}
+
+const weatherSearch = (place: Place) =>
+  `?${new URLSearchParams({ city: place.key ?? place.name })}`;
+
+export default function WeatherComparePage() {
+  const { columns, units, locale } = useLoaderData() as {
+    columns: Column[];
+    units: Units;
+    locale: string;
+  };
+  const t = useT();
+  const localizePath = useLocalizePath();
+  const temperatureSymbol = TEMPERATURE_SYMBOLS[units.temperature];
+  const windSpeedSymbol = WIND_SPEED_SYMBOLS[units.windSpeed];
+
+  // Days are the cities' own, so row n is each city's nth local day
+  const days = columns.find(({ forecast }) => forecast)?.forecast?.weather.daily
+    .time;
+
+  // A row per measure, the cities' values lined up in columns beside it
+  const row = (
+    label: string,
+    value: (forecast: WeatherResponse) => ReactNode
+  ) => (
+    <tr>
+      <th scope="row">{label}</th>
+      {columns.map(({ place, forecast }) => (
+        <td key={place.key}>{forecast ? value(forecast) : "—"}</td>
+      ))}
+    </tr>
+  );
+
+  return (
+    <main className={styles.container}>
+      <header className={styles.header}>
+        <Link to={localizePath("/weather")} className={styles.backLink}>
+          <ArrowLeftIcon aria-hidden="true" />
+          {t("compare.back")}
+        </Link>
+        <h1>{t("compare.title")}</h1>
+      </header>
+
+      {columns.length === 0 ? (
+        <div className={styles.emptyState}>
+          <StarIcon width="32" height="32" aria-hidden="true" />
+          <p>{t("compare.empty")}</p>
+          <Link to={localizePath("/weather")}>{t("compare.openWeather")}</Link>
+        </div>
+      ) : (
+        <div className={styles.tableScroller}>
+          <table className={styles.table}>
+            <caption className={styles.visuallyHidden}>
+              {t("compare.caption")}
+            </caption>
+            <thead>
+              <tr>
+                <td />
+                {columns.map(({ place, forecast }) => (
+                  <th key={place.key} scope="col">
+                    <Link
+                      to={`${localizePath("/weather")}${weatherSearch(place)}`}
+                    >
+                      {place.name}
+                    </Link>
+                    {forecast === null && (
+                      <span className={styles.unavailable}>
+                        {t("compare.unavailable")}
+                      </span>
+                    )}
+                    {forecast?.stale && (
+                      <span className={styles.unavailable}>
+                        {t("compare.outdated")}
+                      </span>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {row(t("compare.now"), ({ weather }) => (
+                <span className={styles.condition}>
+                  <span aria-hidden>
+                    {getWeatherIcon(
+                      weather.current.weather_code,
+                      weather.current.is_day
+                    )}
+                  </span>
+                  {getWeatherDescription(weather.current.weather_code, t)}
+                </span>
+              ))}
+              {row(t("weather.temperature"), ({ weather }) => (
+                <span className={styles.temperature}>
+                  {weather.current.temperature_2m.toFixed(1)}
+                  {temperatureSymbol}
+                </span>
+              ))}
+              {row(t("weather.windSpeed"), ({ weather }) => (
+                <>
+                  {weather.current.wind_speed_10m.toFixed(1)} {windSpeedSymbol}
+                </>
+              ))}
+              {row(
+                t("weather.rainChance"),
+                ({ weather }) =>
+                  `${weather.daily.precipitation_probability_max[0]}%`
+              )}
+            </tbody>
+            {days && (
+              <tbody>
+                <tr>
+                  <th
+                    scope="colgroup"
+                    colSpan={columns.length + 1}
+                    className={styles.sectionHeading}
+                  >
+                    {t("compare.forecast")}
+                  </th>
+                </tr>
+                {days.map((date, index) => (
+                  <tr key={date}>
+                    <th scope="row">{getDayName(date, index, locale)}</th>
+                    {columns.map(({ place, forecast }) => {
+                      const daily = forecast?.weather.daily;
+                      if (!daily || index >= daily.time.length) {
+                        return <td key={place.key}>—</td>;
+                      }
+                      return (
+                        <td key={place.key}>
+                          <span className={styles.day}>
+                            <span
+                              role="img"
+                              aria-label={getWeatherDescription(
+                                daily.weather_code[index],
+                                t
+                              )}
+                            >
+                              {getWeatherIcon(daily.weather_code[index], 1)}
+                            </span>
+                            <span className={styles.max}>
+                              {daily.temperature_2m_max[index].toFixed(0)}°
+                            </span>
+                            <span className={styles.min}>
+                              {daily.temperature_2m_min[index].toFixed(0)}°
+                            </span>
+                          </span>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            )}
+          </table>
+        </div>
+      )}
+    </main>
+  );
+}
+
+export function ErrorBoundary() {
+  const error = useRouteError();
+  const t = useT();
+  const localizePath = useLocalizePath();
+
+  let errorMessage = t("error.unexpected");
+  if (isRouteErrorResponse(error)) {
+    errorMessage = error.data || error.statusText;
+  } else if (error instanceof Error) {
+    errorMessage = error.message;
+  }
+
+  return (
+    <main className={styles.container}>
+      <header className={styles.header}>
+        <Link to={localizePath("/weather")} className={styles.backLink}>
+          <ArrowLeftIcon aria-hidden="true" />
+          {t("compare.back")}
+        </Link>
+        <h1>{t("compare.title")}</h1>
+      </header>
+      <p className={styles.error} role="alert">
+        {errorMessage}
+      </p>
+    </main>
+  );
+}
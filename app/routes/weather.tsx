@@ -1,108 +1,194 @@
-import { useLoaderData, useSearchParams, useRouteError, isRouteErrorResponse } from "react-router";
+import { data, useFetcher, useLoaderData, useSearchParams, useRouteError, isRouteErrorResponse } from "react-router";
 import { Link } from "react-router";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import styles from "./weather.module.css";
 import { CitySelector } from "../components/city-selector";
-import citiesData from "../../src/data/world-cities.json";
+import { UnitToggle } from "../components/unit-toggle";
+import { HourlyTimeline, TIMELINE_HOURS } from "../components/hourly-timeline";
 import { useToast } from "../context/toast-context";
+import { useLocalizePath, useT } from "../context/i18n-context";
 import { Button } from "@radix-ui/themes";
-
-export function meta() {
+import {
+  SewingPinIcon,
+  StarFilledIcon,
+  StarIcon,
+} from "@radix-ui/react-icons";
+import { UnitsSchema, type Units, type WeatherData } from "../schemas/weather";
+import type { ErrorBody } from "../schemas/error";
+import type { FlashSession } from "../lib/flash";
+import {
+  COMPARE_CITIES_MAX,
+  cityKey,
+  type City,
+  type NearestCity,
+} from "../schemas/city";
+import {
+  TEMPERATURE_SYMBOLS,
+  WIND_SPEED_SYMBOLS,
+  parseUnitsCookie,
+  serializeUnitsCookie,
+} from "../lib/units";
+import {
+  createTranslator,
+  metaTranslator,
+  resolveFormatLocale,
+  resolveLocale,
+  type Locale,
+  type MetaMatches,
+} from "../lib/i18n";
+import {
+  cityPlace,
+  fetchFavorites,
+  fetchForecast,
+  formatCityTime,
+  formatInCityZone,
+  getDayName,
+  getWeatherDescription,
+  getWeatherIcon,
+  lookUpCity,
+  type Place,
+} from "../lib/weather";
+
+export function meta({ matches }: { matches: MetaMatches }) {
+  const t = metaTranslator(matches);
   return [
-    { title: "Weather Data" },
-    { name: "description", content: "View weather information" },
+    { title: t("weather.meta.title") },
+    { name: "description", content: t("weather.meta.description") },
   ];
 }
 
-interface WeatherData {
-  generationtime_ms: number;
-  current: {
-    temperature_2m: number;
-    wind_speed_10m: number;
-    weather_code: number;
-    is_day: number;
-  };
-  hourly: {
-    time: string[];
-    temperature_2m: number[];
-    relative_humidity_2m: number[];
-    wind_speed_10m: number[];
-  };
-  daily: {
-    time: string[];
-    weather_code: number[];
-    temperature_2m_max: number[];
-    temperature_2m_min: number[];
-    sunrise: string[];
-    sunset: string[];
-    uv_index_max: number[];
-    precipitation_probability_max: number[];
-  };
-}
+// Shown when neither the URL nor the visitor's location names a place
+const DEFAULT_CITY = "Tokyo,Japan";
+
+// A known city at most this far away stands in for a location
+const NEAREST_CITY_MAX_KM = 50;
 
-interface City {
-  name: string;
-  country: string;
+// Visitor location from Cloudflare's IP geolocation, see workers/app.ts
+interface VisitorLocation {
   latitude: number;
   longitude: number;
-  population: number;
+  city?: string;
+  // ISO 3166 code, e.g. "DE"
+  country?: string;
 }
 
-// Get the first 10 cities directly from world-cities.json
+// The nearest known city when one is close, otherwise the exact coordinates
+async function placeAt(
+  context: any,
+  latitude: number,
+  longitude: number,
+  name: string
+): Promise<Place> {
+  const query = new URLSearchParams({
+    lat: String(latitude),
+    lon: String(longitude),
+  });
+  const response: Response = await context.fetchInternal(
+    `/api/cities/nearest?${query}`
+  );
+  if (response.status === 422) {
+    throw new Response("Invalid coordinates", {
+      status: 400,
+      statusText: "Bad Request",
+    });
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Failed to find the nearest city (Status: ${response.status} ${response.statusText})`
+    );
+  }
+  const nearest: NearestCity = await response.json();
+  return nearest.distanceKm <= NEAREST_CITY_MAX_KM
+    ? cityPlace(nearest.city)
+    : { name, latitude, longitude };
+}
 
-export async function loader({ request }: { request: Request }) {
+// Name of a country code in the page's language; undefined for codes that
+// are no region, such as "T1" for Tor
+function regionName(code: string, locale: Locale) {
   try {
-    const url = new URL(request.url);
-    const cityParam = url.searchParams.get("city");
+    const name = new Intl.DisplayNames([locale], { type: "region" }).of(code);
+    return name === code ? undefined : name;
+  } catch {
+    return undefined;
+  }
+}
 
-    const cities = citiesData as City[];
-    
-    if (!cities || cities.length === 0) {
-      throw new Error("No cities data available");
-    }
+// ?city= first, then ?lat=&lon= from "Use my location", then where
+// Cloudflare places the visitor
+function resolvePlace(url: URL, context: any, locale: Locale): Promise<Place> {
+  const city = url.searchParams.get("city");
+  if (city) return lookUpCity(context, city);
+
+  const yourLocation = createTranslator(locale)("weather.yourLocation");
+  const lat = url.searchParams.get("lat");
+  const lon = url.searchParams.get("lon");
+  if (lat && lon) {
+    return placeAt(context, Number(lat), Number(lon), yourLocation);
+  }
 
-    const defaultCity = cities[0];
-    let latitude = defaultCity.latitude;
-    let longitude = defaultCity.longitude;
-    let cityName = `${defaultCity.name}, ${defaultCity.country}`;
-
-    if (cityParam) {
-      const [name, country] = cityParam.split(",");
-      const city = [...cities.slice(0, 10)].find(
-        (c) => c.name === name && c.country === country
-      );
-      if (city) {
-        latitude = city.latitude;
-        longitude = city.longitude;
-        cityName = `${city.name}, ${city.country}`;
-      }
-    }
+  const visitor: VisitorLocation | null = context.visitorLocation;
+  if (visitor) {
+    const name = [
+      visitor.city,
+      visitor.country && regionName(visitor.country, locale),
+    ]
+      .filter(Boolean)
+      .join(", ");
+    return placeAt(
+      context,
+      visitor.latitude,
+      visitor.longitude,
+      name || yourLocation
+    );
+  }
 
-    const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,wind_speed_10m,weather_code,is_day&hourly=temperature_2m,relative_humidity_2m,wind_speed_10m&daily=weather_code,temperature_2m_max,temperature_2m_min,sunrise,sunset,uv_index_max,precipitation_probability_max&timezone=auto&forecast_days=7`;
-    
-    const response = await fetch(weatherUrl);
+  return lookUpCity(context, DEFAULT_CITY);
+}
 
-    if (!response.ok) {
-      throw new Response(
-        `Failed to fetch weather data: ${response.statusText}`,
-        {
-          status: response.status,
-          statusText: response.statusText,
-        }
-      );
-    }
+export async function loader({
+  request,
+  params,
+  context,
+}: {
+  request: Request;
+  params: { lang?: string };
+  context: any;
+}) {
+  try {
+    const url = new URL(request.url);
+    const place = await resolvePlace(
+      url,
+      context,
+      resolveLocale(request, params.lang)
+    );
 
-    const weatherData: WeatherData = await response.json();
-    
-    // Validate weather data
-    if (!weatherData.current || !weatherData.hourly) {
-      throw new Error("Invalid weather data received from API");
+    const preferredUnits = parseUnitsCookie(request.headers.get("Cookie"));
+    // Mock scenarios, see the README; ignored unless MOCK_API is enabled
+    const mockParams: Record<string, string> = {};
+    for (const name of ["mock", "code"]) {
+      const value = url.searchParams.get(name);
+      if (value) mockParams[name] = value;
     }
+    const [
+      { weather: weatherData, units, stale, fetchedAt },
+      favorites,
+    ] = await Promise.all([
+      fetchForecast(context, place, preferredUnits, mockParams),
+      fetchFavorites(context),
+    ]);
 
     return { 
       weatherData, 
-      cityName, 
-      cities: (citiesData as City[]).slice(0, 10) 
+      units,
+      stale,
+      fetchedAt,
+      cityName: place.name,
+      cityKey: place.key ?? null,
+      favorites,
+      // Dates are formatted in the city's zone, so only the language comes
+      // from the visitor
+      locale: resolveFormatLocale(request, params.lang),
     };
   } catch (error) {
     console.error("Error in weather loader:", error);
@@ -118,112 +204,228 @@ export async function loader({ request }: { request: Request }) {
   }
 }
 
-function getWeatherIcon(weatherCode: number, isDay: number): string {
-  // Unicode weather icons based on WMO codes
-  if (weatherCode === 0) {
-    return isDay === 1 ? "☀️" : "🌙";
-  } else if (weatherCode >= 1 && weatherCode <= 3) {
-    return "☁️";
-  } else if (
-    (weatherCode >= 45 && weatherCode <= 48) ||
-    (weatherCode >= 51 && weatherCode <= 67) ||
-    (weatherCode >= 80 && weatherCode <= 82)
-  ) {
-    return "🌧️";
-  } else if (
-    (weatherCode >= 71 && weatherCode <= 77) ||
-    (weatherCode >= 85 && weatherCode <= 86)
-  ) {
-    return "❄️";
-  } else if (weatherCode >= 95 && weatherCode <= 99) {
-    return "⛈️";
+// Saves the unit preference or adds and removes a favourite city; the loader
+// then reads them back from the cookies or KV
+export async function action({
+  request,
+  params,
+  context,
+}: {
+  request: Request;
+  params: { lang?: string };
+  context: any;
+}) {
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const flash: FlashSession = context.flash;
+
+  if (intent === "favorite" || intent === "unfavorite") {
+    const city = String(formData.get("city") ?? "");
+    const response: Response = await context.fetchInternal(
+      `/api/favorites/${encodeURIComponent(city)}`,
+      { method: intent === "favorite" ? "PUT" : "DELETE" }
+    );
+    if (!response.ok) {
+      const body: ErrorBody = await response.json();
+      return data({ error: body.error }, { status: response.status });
+    }
+    const t = createTranslator(resolveLocale(request, params.lang));
+    const added = intent === "favorite";
+    flash.queue({
+      title: t(
+        added
+          ? "weather.flash.favoriteAdded.title"
+          : "weather.flash.favoriteRemoved.title"
+      ),
+      description: t(
+        added
+          ? "weather.flash.favoriteAdded.description"
+          : "weather.flash.favoriteRemoved.description",
+        { city: city.replace(",", ", ") }
+      ),
+      variant: "success",
+    });
+    // Signed out, the favourites live in a cookie the browser has to keep
+    const cookie = response.headers.get("Set-Cookie");
+    return data(
+      { error: null },
+      { headers: cookie ? { "Set-Cookie": cookie } : undefined }
+    );
   }
 
-  return isDay === 1 ? "☀️" : "🌙";
-}
-
-function getWeatherDescription(weatherCode: number): string {
-  const weatherDescriptions: { [key: number]: string } = {
-    0: "Clear sky",
-    1: "Mainly clear",
-    2: "Partly cloudy",
-    3: "Overcast",
-    45: "Fog",
-    48: "Depositing rime fog",
-    51: "Light drizzle",
-    53: "Moderate drizzle",
-    55: "Dense drizzle",
-    61: "Slight rain",
-    63: "Moderate rain",
-    65: "Heavy rain",
-    71: "Slight snow fall",
-    73: "Moderate snow fall",
-    75: "Heavy snow fall",
-    77: "Snow grains",
-    80: "Slight rain showers",
-    81: "Moderate rain showers",
-    82: "Violent rain showers",
-    85: "Slight snow showers",
-    86: "Heavy snow showers",
-    95: "Thunderstorm",
-    96: "Thunderstorm with slight hail",
-    99: "Thunderstorm with heavy hail",
-  };
-
-  return weatherDescriptions[weatherCode] || "Unknown weather";
-}
-
-function formatTime(timeString: string): string {
-  const date = new Date(timeString);
-  return date.toLocaleTimeString("en-US", {
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: true,
+  const units = UnitsSchema.safeParse({
+    temperature: formData.get("temperature"),
+    windSpeed: formData.get("windSpeed"),
   });
+  if (!units.success) {
+    throw new Response("Unknown units", {
+      status: 400,
+      statusText: "Bad Request",
+    });
+  }
+  return data(
+    { units: units.data },
+    { headers: { "Set-Cookie": serializeUnitsCookie(units.data) } }
+  );
 }
 
-function getUVIndexLevel(uvIndex: number): { level: string; color: string } {
-  if (uvIndex <= 2) return { level: "Low", color: "var(--green-9)" };
-  if (uvIndex <= 5) return { level: "Moderate", color: "var(--yellow-9)" };
-  if (uvIndex <= 7) return { level: "High", color: "var(--orange-9)" };
-  if (uvIndex <= 10) return { level: "Very High", color: "var(--red-9)" };
-  return { level: "Extreme", color: "var(--purple-9)" };
-}
+type UVLevel = "low" | "moderate" | "high" | "very-high" | "extreme";
 
-function getDayName(dateString: string, index: number): string {
-  if (index === 0) return "Today";
-  if (index === 1) return "Tomorrow";
-  const date = new Date(dateString);
-  return date.toLocaleDateString("en-US", { weekday: "short" });
+function getUVIndexLevel(uvIndex: number): { level: UVLevel; color: string } {
+  if (uvIndex <= 2) return { level: "low", color: "var(--green-9)" };
+  if (uvIndex <= 5) return { level: "moderate", color: "var(--yellow-9)" };
+  if (uvIndex <= 7) return { level: "high", color: "var(--orange-9)" };
+  if (uvIndex <= 10) return { level: "very-high", color: "var(--red-9)" };
+  return { level: "extreme", color: "var(--purple-9)" };
 }
 
 export default function WeatherPage() {
-  const { weatherData, cityName, cities } = useLoaderData() as {
+  const {
+    weatherData,
+    units,
+    stale,
+    fetchedAt,
+    cityName,
+    cityKey: currentCityKey,
+    favorites,
+    locale,
+  } = useLoaderData() as {
     weatherData: WeatherData;
+    units: Units;
+    stale: boolean;
+    fetchedAt: string;
     cityName: string;
-    cities: City[];
+    cityKey: string | null;
+    favorites: City[];
+    locale: string;
   };
 
   const [searchParams, setSearchParams] = useSearchParams();
   const { addToast } = useToast();
+  const t = useT();
+  const localizePath = useLocalizePath();
+  const unitsFetcher = useFetcher();
+  // Show the new units right away; the numbers follow once reloaded
+  const selectedUnits: Units = unitsFetcher.formData
+    ? {
+        temperature: unitsFetcher.formData.get("temperature") as Units["temperature"],
+        windSpeed: unitsFetcher.formData.get("windSpeed") as Units["windSpeed"],
+      }
+    : units;
+  const temperatureSymbol = TEMPERATURE_SYMBOLS[units.temperature];
+  const windSpeedSymbol = WIND_SPEED_SYMBOLS[units.windSpeed];
+
+  // Opt-in upgrade over the IP-based default: the browser asks for permission
+  const [locating, setLocating] = useState(false);
+  const handleUseMyLocation = () => {
+    const unavailable = (description: string) =>
+      addToast({
+        title: t("weather.locationUnavailable"),
+        description,
+        variant: "warning",
+        duration: 3000,
+      });
+    if (!("geolocation" in navigator)) {
+      unavailable(t("weather.locationUnsupported"));
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setLocating(false);
+        setSearchParams({
+          lat: coords.latitude.toFixed(2),
+          lon: coords.longitude.toFixed(2),
+        });
+      },
+      (error) => {
+        setLocating(false);
+        unavailable(
+          error.code === error.PERMISSION_DENIED
+            ? t("weather.locationDenied")
+            : t("weather.locationFailed")
+        );
+      },
+      { maximumAge: 10 * 60 * 1000, timeout: 10_000 }
+    );
+  };
+
+  const handleUnitsChange = (newUnits: Units) => {
+    unitsFetcher.submit({ intent: "units", ...newUnits }, { method: "post" });
+  };
+
+  const favoriteFetcher = useFetcher<{ error: string | null }>();
+  // Pressed as soon as it is clicked; a failure reverts it with the reload
+  const isFavorite = favoriteFetcher.formData
+    ? favoriteFetcher.formData.get("intent") === "favorite"
+    : favorites.some((city) => cityKey(city) === currentCityKey);
+  const compareUrl = `${localizePath("/weather/compare")}?${new URLSearchParams(
+    favorites
+      .slice(0, COMPARE_CITIES_MAX)
+      .map((city) => ["cities", cityKey(city)])
+  )}`;
+
+  useEffect(() => {
+    if (favoriteFetcher.state === "idle" && favoriteFetcher.data?.error) {
+      addToast({
+        title: t("weather.favoritesNotSaved"),
+        description: favoriteFetcher.data.error,
+        variant: "error",
+        duration: 3000,
+      });
+    }
+  }, [favoriteFetcher.state, favoriteFetcher.data, addToast]);
+
+  // Forecast day picked for the timeline; null follows the current hour
+  const [timelineDay, setTimelineDay] = useState<number | null>(null);
+  const timelineRef = useRef<HTMLDivElement>(null);
+  useEffect(() => setTimelineDay(null), [cityName]);
+
+  const { hourly } = weatherData;
+  const currentHour = Math.max(
+    0,
+    hourly.time.indexOf(`${weatherData.current.time.slice(0, 13)}:00`)
+  );
+  const timelineDate =
+    timelineDay === null ? undefined : weatherData.daily.time[timelineDay];
+  // Today starts at the current hour, later days at midnight
+  const firstHour =
+    timelineDay && timelineDate
+      ? hourly.time.findIndex((time) => time.startsWith(timelineDate))
+      : currentHour;
+  const timelineStart = Math.max(
+    0,
+    Math.min(firstHour, hourly.time.length - TIMELINE_HOURS)
+  );
+
+  const showDayInTimeline = (index: number) => {
+    setTimelineDay(index);
+    timelineRef.current?.scrollTo({ left: 0 });
+    timelineRef.current?.focus({ preventScroll: true });
+    timelineRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  };
 
   const handleCityChange = (cityValue: string) => {
     try {
       const [cityName, country] = cityValue.split(",");
       if (!cityName || !country) {
-        throw new Error("Invalid city format");
+        throw new Error(t("weather.invalidCity"));
       }
       
       addToast({
-        title: "City Changed",
-        description: `Now showing weather for ${cityName}, ${country}`,
+        title: t("weather.cityChanged.title"),
+        description: t("weather.cityChanged.description", {
+          city: `${cityName}, ${country}`,
+        }),
         duration: 3000,
       });
       setSearchParams({ city: cityValue });
     } catch (error) {
       addToast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Failed to change city",
+        title: t("common.error"),
+        variant: "error",
+        description:
+          error instanceof Error ? error.message : t("weather.changeCityFailed"),
         duration: 3000,
       });
     }
@@ -234,13 +436,17 @@ export default function WeatherPage() {
     weatherData.current.is_day
   );
   const weatherDescription = getWeatherDescription(
-    weatherData.current.weather_code
+    weatherData.current.weather_code,
+    t
   );
 
-  const todaySunrise = formatTime(weatherData.daily.sunrise[0]);
-  const todaySunset = formatTime(weatherData.daily.sunset[0]);
-  const todayUVIndex = weatherData.daily.uv_index_max[0];
-  const uvInfo = getUVIndexLevel(todayUVIndex);
+  const todaySunrise = formatCityTime(weatherData.daily.sunrise[0], locale);
+  const todaySunset = formatCityTime(weatherData.daily.sunset[0], locale);
+  // Humidity and the UV index are not reported for every location
+  const currentHumidity = weatherData.hourly.relative_humidity_2m?.[0];
+  const todayUVIndex = weatherData.daily.uv_index_max?.[0];
+  const uvLevel =
+    todayUVIndex === undefined ? null : getUVIndexLevel(todayUVIndex).level;
 
   // Calculate temperature trend (comparing today's max with tomorrow's max)
   const tempTrend =
@@ -252,31 +458,95 @@ export default function WeatherPage() {
   return (
     <div className={styles.container}>
       <header>
-        <h1>Weather Information</h1>
+        <h1>{t("weather.title")}</h1>
       </header>
 
+      {stale && (
+        <div className={styles.staleBanner} role="status">
+          {t("weather.stale", {
+            time: formatInCityZone(fetchedAt, weatherData, locale),
+          })}
+        </div>
+      )}
+
       <section aria-labelledby="city-selector-heading">
         <h2 id="city-selector-heading" className={styles.visuallyHidden}>
-          Select City
+          {t("weather.selectCity")}
         </h2>
+        {favorites.length > 0 && (
+          <nav className={styles.favorites} aria-label={t("weather.favorites")}>
+            <ul className={styles.favoriteChips}>
+              {favorites.map((city) => (
+                <li key={cityKey(city)}>
+                  <Link
+                    to={`${localizePath("/weather")}?${new URLSearchParams({
+                      city: cityKey(city),
+                    })}`}
+                    className={styles.favoriteChip}
+                    aria-current={
+                      cityKey(city) === currentCityKey ? "page" : undefined
+                    }
+                  >
+                    <StarFilledIcon aria-hidden />
+                    {city.name}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+            {favorites.length > 1 && (
+              <Link to={compareUrl} className={styles.compareLink}>
+                {favorites.length > COMPARE_CITIES_MAX
+                  ? t("weather.compareFirst", { count: COMPARE_CITIES_MAX })
+                  : t("weather.compareAll")}
+              </Link>
+            )}
+          </nav>
+        )}
         <div className={styles.citySelectorContainer}>
           <CitySelector
             value={cityName}
             onValueChange={handleCityChange}
-            cities={cities}
+          />
+          <Button
+            variant="soft"
+            onClick={handleUseMyLocation}
+            disabled={locating}
+          >
+            <SewingPinIcon />
+            {locating ? t("weather.locating") : t("weather.useMyLocation")}
+          </Button>
+          {currentCityKey && (
+            <favoriteFetcher.Form method="post">
+              <input type="hidden" name="city" value={currentCityKey} />
+              <Button
+                type="submit"
+                name="intent"
+                value={isFavorite ? "unfavorite" : "favorite"}
+                variant="soft"
+                aria-pressed={isFavorite}
+              >
+                {isFavorite ? <StarFilledIcon /> : <StarIcon />}
+                {t("weather.favorite")}
+              </Button>
+            </favoriteFetcher.Form>
+          )}
+          <UnitToggle
+            units={selectedUnits}
+            onUnitsChange={handleUnitsChange}
           />
         </div>
       </section>
 
       <section aria-labelledby="current-weather-heading">
         <h2 id="current-weather-heading" className={styles.visuallyHidden}>
-          Current Weather
+          {t("weather.current")}
         </h2>
-        <div className={styles.weatherDisplay} role="region" aria-label={`Weather for ${cityName}`}>
+        <div className={styles.weatherDisplay} role="region" aria-label={t("weather.for", { city: cityName })}>
           <div className={styles.location}>{cityName}</div>
           <div className={styles.weatherIcon} role="img" aria-label={weatherDescription}>{weatherIcon}</div>
           <div className={styles.temperature}>
-            {weatherData.current.temperature_2m.toFixed(1)}°C
+            {weatherData.current.temperature_2m.toFixed(1)}
+            {temperatureSymbol}
             {tempTrend !== 0 && (
               <span className={styles.tempTrend}>
                 {tempTrend > 0 ? "↗" : "↘"}
@@ -290,40 +560,45 @@ export default function WeatherPage() {
 
           <div className={styles.weatherDetails}>
             <div className={styles.detailItem}>
-              <div className={styles.detailLabel}>Wind Speed</div>
+              <div className={styles.detailLabel}>{t("weather.windSpeed")}</div>
               <div className={styles.detailValue}>
-                {weatherData.current.wind_speed_10m.toFixed(1)} km/h
+                {weatherData.current.wind_speed_10m.toFixed(1)}{" "}
+                {windSpeedSymbol}
               </div>
             </div>
 
             <div className={styles.detailItem}>
-              <div className={styles.detailLabel}>Humidity</div>
+              <div className={styles.detailLabel}>{t("weather.humidity")}</div>
               <div className={styles.detailValue}>
-                {weatherData.hourly.relative_humidity_2m[0]}%
+                {currentHumidity === undefined ? "—" : `${currentHumidity}%`}
               </div>
             </div>
 
             <div className={styles.detailItem}>
-              <div className={styles.detailLabel}>Sunrise</div>
+              <div className={styles.detailLabel}>{t("weather.sunrise")}</div>
               <div className={styles.detailValue}>🌅 {todaySunrise}</div>
             </div>
 
             <div className={styles.detailItem}>
-              <div className={styles.detailLabel}>Sunset</div>
+              <div className={styles.detailLabel}>{t("weather.sunset")}</div>
               <div className={styles.detailValue}>🌇 {todaySunset}</div>
             </div>
 
             <div className={styles.detailItem}>
-              <div className={styles.detailLabel}>UV Index</div>
+              <div className={styles.detailLabel}>{t("weather.uvIndex")}</div>
               <div className={styles.detailValue}>
-                <span className={styles.uvBadge} data-uv-level={uvInfo.level.toLowerCase().replace(" ", "-")}>
-                  {todayUVIndex.toFixed(1)} - {uvInfo.level}
-                </span>
+                {todayUVIndex === undefined || uvLevel === null ? (
+                  "—"
+                ) : (
+                  <span className={styles.uvBadge} data-uv-level={uvLevel}>
+                    {todayUVIndex.toFixed(1)} - {t(`weather.uv.${uvLevel}`)}
+                  </span>
+                )}
               </div>
             </div>
 
             <div className={styles.detailItem}>
-              <div className={styles.detailLabel}>Rain Chance</div>
+              <div className={styles.detailLabel}>{t("weather.rainChance")}</div>
               <div className={styles.detailValue}>
                 {weatherData.daily.precipitation_probability_max[0]}%
               </div>
@@ -332,28 +607,60 @@ export default function WeatherPage() {
         </div>
       </section>
 
+      <section aria-labelledby="timeline-heading" className={styles.timelineSection}>
+        <div className={styles.timelineHeader}>
+          <h2 id="timeline-heading">
+            {timelineDay === null
+              ? t("weather.next48")
+              : t("weather.48From", {
+                  day: getDayName(weatherData.daily.time[timelineDay], timelineDay, locale),
+                })}
+          </h2>
+          {timelineDay !== null && (
+            <Button variant="soft" size="1" onClick={() => setTimelineDay(null)}>
+              {t("weather.backToNow")}
+            </Button>
+          )}
+        </div>
+        <HourlyTimeline
+          hourly={hourly}
+          start={timelineStart}
+          highlightDate={timelineDate}
+          temperatureSymbol={temperatureSymbol}
+          windSpeedSymbol={windSpeedSymbol}
+          locale={locale}
+          scrollerRef={timelineRef}
+        />
+      </section>
+
       <section aria-labelledby="forecast-heading" className={styles.forecastSection}>
-        <h2 id="forecast-heading">7-Day Forecast</h2>
+        <h2 id="forecast-heading">{t("weather.forecast")}</h2>
         <div className={styles.forecastGrid}>
           {weatherData.daily.time.map((date, index) => {
             const dayIcon = getWeatherIcon(weatherData.daily.weather_code[index], 1);
-            const dayName = getDayName(date, index);
+            const dayName = getDayName(date, index, locale);
             const maxTemp = weatherData.daily.temperature_2m_max[index];
             const minTemp = weatherData.daily.temperature_2m_min[index];
             const rainChance = weatherData.daily.precipitation_probability_max[index];
 
             return (
-              <div key={date} className={styles.forecastCard}>
-                <div className={styles.forecastDay}>{dayName}</div>
-                <div className={styles.forecastIcon}>{dayIcon}</div>
-                <div className={styles.forecastTemp}>
+              <button
+                key={date}
+                type="button"
+                className={styles.forecastCard}
+                aria-pressed={timelineDay === index}
+                onClick={() => showDayInTimeline(index)}
+              >
+                <span className={styles.forecastDay}>{dayName}</span>
+                <span className={styles.forecastIcon}>{dayIcon}</span>
+                <span className={styles.forecastTemp}>
                   <span className={styles.forecastTempMax}>{maxTemp.toFixed(0)}°</span>
                   <span className={styles.forecastTempMin}>{minTemp.toFixed(0)}°</span>
-                </div>
+                </span>
                 {rainChance > 0 && (
-                  <div className={styles.forecastRain}>💧 {rainChance}%</div>
+                  <span className={styles.forecastRain}>💧 {rainChance}%</span>
                 )}
-              </div>
+              </button>
             );
           })}
         </div>
@@ -365,8 +672,10 @@ export default function WeatherPage() {
 export function ErrorBoundary() {
   const error = useRouteError();
   const { addToast } = useToast();
+  const t = useT();
+  const localizePath = useLocalizePath();
 
-  let errorMessage = "An unexpected error occurred";
+  let errorMessage = t("error.unexpected");
   let errorStatus = 500;
 
   if (isRouteErrorResponse(error)) {
@@ -378,8 +687,9 @@ export function ErrorBoundary() {
 
   useEffect(() => {
     addToast({
-      title: "Weather Error",
+      title: t("weather.error.toast"),
       description: errorMessage,
+      variant: "error",
       duration: 5000,
     });
   }, [errorMessage, addToast]);
@@ -389,15 +699,15 @@ export function ErrorBoundary() {
       <div className={styles.errorContainer}>
         <div className={styles.errorIcon}>⚠️</div>
         <h1 className={styles.errorTitle}>
-          {errorStatus === 404 ? "Weather Not Found" : "Weather Error"}
+          {t(errorStatus === 404 ? "weather.error.notFound" : "weather.error.title")}
         </h1>
         <p className={styles.errorMessage}>{errorMessage}</p>
         <div className={styles.errorActions}>
           <Button asChild size="3">
-            <Link to="/weather">Try Again</Link>
+            <Link to={localizePath("/weather")}>{t("common.tryAgain")}</Link>
           </Button>
           <Button asChild variant="soft" size="3">
-            <Link to="/">Go Home</Link>
+            <Link to={localizePath("/")}>{t("common.goHome")}</Link>
           </Button>
         </div>
       </div>
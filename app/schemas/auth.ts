@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+
+// Body accepted by POST /api/auth/signup and POST /api/auth/login
+export const CredentialsSchema = z.strictObject({
+  email: z
+    .string({ error: "Email is required" })
+    .trim()
+    .toLowerCase()
+    .pipe(z.email({ error: "Enter a valid email address" })),
+  password: z
+    .string({ error: "Password is required" })
+    .min(PASSWORD_MIN_LENGTH, {
+      error: `Password must be at least ${PASSWORD_MIN_LENGTH} characters`,
+    })
+    .max(PASSWORD_MAX_LENGTH, {
+      error: `Password must be at most ${PASSWORD_MAX_LENGTH} characters`,
+    }),
+});
+
+// Public view of an account, as returned by the API and put in the load context
+export const UserSchema = z.object({
+  id: z.uuid(),
+  email: z.email(),
+  createdAt: z.iso.datetime(),
+});
+
+export type Credentials = z.infer<typeof CredentialsSchema>;
+export type User = z.infer<typeof UserSchema>;
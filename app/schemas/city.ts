@@ -0,0 +1,58 @@
+import { z } from "zod";
+
+export const CITY_SEARCH_MAX_LENGTH = 100;
+export const CITIES_MAX_LIMIT = 20;
+export const FAVORITE_CITIES_MAX = 8;
+// Columns of /weather/compare
+export const COMPARE_CITIES_MAX = 4;
+
+// A city of src/data/world-cities.json
+export const CitySchema = z.object({
+  name: z.string(),
+  country: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+  population: z.number().int(),
+});
+
+// Query accepted by GET /api/cities
+export const CitySearchQuerySchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .max(CITY_SEARCH_MAX_LENGTH, {
+      error: `Search must be at most ${CITY_SEARCH_MAX_LENGTH} characters`,
+    })
+    .default("")
+    .describe(
+      "Start of the city name, ignoring case and accents; close misspellings match too. Empty lists the largest cities."
+    ),
+  limit: z.coerce
+    .number({ error: "Limit must be a number" })
+    .int({ error: "Limit must be an integer" })
+    .min(1, { error: "Limit must be at least 1" })
+    .max(CITIES_MAX_LIMIT, {
+      error: `Limit must be at most ${CITIES_MAX_LIMIT}`,
+    })
+    .default(10),
+});
+
+// Response of GET /api/cities, best matches first
+export const CityCollectionSchema = z.object({
+  cities: z.array(CitySchema),
+});
+
+// Response of GET /api/cities/nearest
+export const NearestCitySchema = z.object({
+  city: CitySchema,
+  distanceKm: z.number().describe("Great-circle distance to the city"),
+});
+
+// "Name,Country", how the weather page refers to a city in ?city=
+export const cityKey = (city: Pick<City, "name" | "country">) =>
+  `${city.name},${city.country}`;
+
+export type City = z.infer<typeof CitySchema>;
+export type CitySearchQuery = z.infer<typeof CitySearchQuerySchema>;
+export type CityCollection = z.infer<typeof CityCollectionSchema>;
+export type NearestCity = z.infer<typeof NearestCitySchema>;
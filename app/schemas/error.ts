@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+// Body of every non-validation API error
+export const ErrorSchema = z.object({
+  error: z.string().describe("Human-readable error message"),
+});
+
+// Body of a 422 response; "_" collects errors that belong to no single field
+export const ValidationErrorSchema = z.object({
+  error: z.string(),
+  fields: z
+    .record(z.string(), z.array(z.string()))
+    .describe("Validation messages grouped by field name"),
+});
+
+export type ErrorBody = z.infer<typeof ErrorSchema>;
+export type ValidationErrorBody = z.infer<typeof ValidationErrorSchema>;
+export type FieldErrors = ValidationErrorBody["fields"];
+
+// Group issues by their top-level field; issues without a path go under "_"
+export function toFieldErrors(error: z.core.$ZodError): FieldErrors {
+  const fields: FieldErrors = {};
+  for (const issue of error.issues) {
+    const keys =
+      issue.code === "unrecognized_keys"
+        ? issue.keys
+        : [issue.path.length > 0 ? String(issue.path[0]) : "_"];
+    for (const key of keys) {
+      const message =
+        issue.code === "unrecognized_keys" ? "Unknown field" : issue.message;
+      (fields[key] ??= []).push(message);
+    }
+  }
+  return fields;
+}
@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+// Built-in list that always exists; it holds todos created before lists did
+export const DEFAULT_LIST_ID = "default";
+export const DEFAULT_LIST_NAME = "My Todos";
+
+export const LIST_NAME_MAX_LENGTH = 80;
+
+// Ids end up inside KV keys, so they may not contain the ":" separator
+export const ListIdSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9-]+$/, { error: "Invalid list id" });
+
+const name = z
+  .string({ error: "Name must be a string" })
+  .trim()
+  .min(1, { error: "Name is required" })
+  .max(LIST_NAME_MAX_LENGTH, {
+    error: `Name must be at most ${LIST_NAME_MAX_LENGTH} characters`,
+  });
+
+// Shape of a todo list as stored in TODOS_KV and returned by the API
+export const ListSchema = z.object({
+  id: ListIdSchema,
+  name,
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime().optional(),
+});
+
+// Body accepted by POST /api/lists
+export const ListCreateSchema = z.strictObject({ name });
+
+// Body accepted by PUT /api/lists/:listId
+export const ListUpdateSchema = z.strictObject({ name });
+
+// Copy of the record kept in KV key metadata so listing needs no extra reads
+export const ListMetadataSchema = ListSchema.omit({ id: true });
+
+// Response of GET /api/lists, default list first
+export const ListCollectionSchema = z.object({
+  lists: z.array(ListSchema),
+});
+
+export type List = z.infer<typeof ListSchema>;
+export type ListCreate = z.infer<typeof ListCreateSchema>;
+export type ListUpdate = z.infer<typeof ListUpdateSchema>;
+export type ListMetadata = z.infer<typeof ListMetadataSchema>;
+export type ListCollection = z.infer<typeof ListCollectionSchema>;
@@ -0,0 +1,295 @@
+import { z } from "zod";
+import { ListIdSchema } from "./list";
+import { ValidationErrorSchema } from "./error";
+
+export const TODO_TITLE_MAX_LENGTH = 200;
+
+const title = z
+  .string({ error: "Title must be a string" })
+  .trim()
+  .min(1, { error: "Title is required" })
+  .max(TODO_TITLE_MAX_LENGTH, {
+    error: `Title must be at most ${TODO_TITLE_MAX_LENGTH} characters`,
+  });
+
+export const TodoIdSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9-]+$/, { error: "Invalid todo id" });
+
+const completed = z.boolean({ error: "Completed must be a boolean" });
+
+// Priority levels, 1 being the most urgent
+export const TODO_PRIORITY_LABELS = {
+  1: "High",
+  2: "Medium",
+  3: "Low",
+} as const;
+export type TodoPriority = keyof typeof TODO_PRIORITY_LABELS;
+export const DEFAULT_TODO_PRIORITY: TodoPriority = 2;
+
+const priority = z
+  .union([z.literal(1), z.literal(2), z.literal(3)], {
+    error: "Priority must be 1 (high), 2 (medium) or 3 (low)",
+  })
+  .describe("1 = high, 2 = medium, 3 = low");
+
+const order = z
+  .number({ error: "Order must be a number" })
+  .int({ error: "Order must be an integer" })
+  .min(0, { error: "Order must not be negative" })
+  .describe("Position in the manually sorted list, lowest first");
+
+export const TODO_TAG_MAX_LENGTH = 30;
+export const TODO_MAX_TAGS = 10;
+// Enough for ten 30-letter tags in Latin script; tags in scripts that take
+// more bytes per letter share the same budget, which keeps a todo's record
+// small enough for KV key metadata
+export const TODO_TAGS_MAX_BYTES = 300;
+
+// Tags are stored lowercased so "Work" and "work" are the same tag
+export const TodoTagSchema = z
+  .string({ error: "Tag must be a string" })
+  .trim()
+  .toLowerCase()
+  .min(1, { error: "Tag must not be empty" })
+  .max(TODO_TAG_MAX_LENGTH, {
+    error: `Tag must be at most ${TODO_TAG_MAX_LENGTH} characters`,
+  })
+  .regex(/^[\p{L}\p{N}_-]+$/u, {
+    error: "Tag may only contain letters, digits, - and _",
+  });
+
+const tags = z
+  .array(TodoTagSchema, { error: "Tags must be a list" })
+  .max(TODO_MAX_TAGS, { error: `At most ${TODO_MAX_TAGS} tags are allowed` })
+  // Duplicates collapse after normalization
+  .transform((values) => [...new Set(values)]);
+
+// Tags accepted on writes; stored todos are read with the looser tags above
+// so records written before the byte budget still load
+const newTags = tags
+  .refine(
+    (values) =>
+      new TextEncoder().encode(values.join("")).length <= TODO_TAGS_MAX_BYTES,
+    {
+      error: `Tags must be at most ${TODO_TAGS_MAX_BYTES} bytes together; letters outside the Latin alphabet count as 2 to 4`,
+    }
+  )
+  .describe(`At most ${TODO_TAGS_MAX_BYTES} bytes of UTF-8 together`);
+
+const dueAt = z.iso
+  .date({ error: "Due date must be a date (YYYY-MM-DD)" })
+  .describe("Day the todo is due, without a time of day");
+
+// Shape of a todo as stored in TODOS_KV and returned by the API
+export const TodoSchema = z.object({
+  id: TodoIdSchema.describe("Unique id of the todo"),
+  listId: ListIdSchema.describe("Id of the list the todo belongs to"),
+  title,
+  completed,
+  priority: priority.default(DEFAULT_TODO_PRIORITY),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime().optional(),
+  order: order.optional(),
+  dueAt: dueAt.optional(),
+  tags: tags.default([]),
+  overdue: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Set by the scheduled overdue check for open todos past their due date"
+    ),
+  version: z
+    .number()
+    .int()
+    .min(1)
+    .default(1)
+    .describe("Incremented on every change and sent as the todo's ETag"),
+});
+
+// Body accepted by POST /api/lists/:listId/todos - server-owned fields are rejected
+export const TodoCreateSchema = z.strictObject({
+  title,
+  completed: completed.optional(),
+  priority: priority.optional(),
+  dueAt: dueAt.optional(),
+  tags: newTags.optional(),
+});
+
+// Body accepted by PUT /api/lists/:listId/todos/:id - at least one field must
+// be present; a different listId moves the todo to that list and a null dueAt
+// clears the due date
+export const TodoUpdateSchema = z
+  .strictObject({
+    title: title.optional(),
+    completed: completed.optional(),
+    priority: priority.optional(),
+    order: order.optional(),
+    dueAt: dueAt.nullable().optional(),
+    tags: newTags.optional(),
+    listId: ListIdSchema.optional(),
+  })
+  .refine((updates) => Object.keys(updates).length > 0, {
+    error: "At least one field must be provided",
+  });
+
+export const TODO_BATCH_MAX_OPERATIONS = 100;
+
+const expectedVersion = z
+  .number({ error: "Version must be a number" })
+  .int()
+  .min(1)
+  .describe(
+    "Version the client last saw; the operation fails with 412 when the todo has changed since"
+  );
+
+// One operation of POST /api/lists/:listId/todos/batch
+export const TodoBatchOperationSchema = z.discriminatedUnion("op", [
+  z.strictObject({ op: z.literal("create"), todo: TodoCreateSchema }),
+  z.strictObject({
+    op: z.literal("update"),
+    id: TodoIdSchema,
+    version: expectedVersion.optional(),
+    changes: TodoUpdateSchema,
+  }),
+  z.strictObject({
+    op: z.literal("delete"),
+    id: TodoIdSchema,
+    version: expectedVersion.optional(),
+  }),
+]);
+
+export const TodoBatchSchema = z.strictObject({
+  operations: z
+    .array(TodoBatchOperationSchema)
+    .min(1, { error: "At least one operation is required" })
+    .max(TODO_BATCH_MAX_OPERATIONS, {
+      error: `At most ${TODO_BATCH_MAX_OPERATIONS} operations are allowed`,
+    }),
+});
+
+// Outcome of one batch operation, with the status the single-todo endpoint
+// would have answered with; deleting a missing todo is a 404 even without a
+// version
+export const TodoBatchResultSchema = z.object({
+  op: z.enum(["create", "update", "delete"]),
+  id: TodoIdSchema,
+  status: z.number().int(),
+  todo: TodoSchema.optional().describe(
+    "The written todo, or the stored one when the status is 412"
+  ),
+  error: z.string().optional(),
+  fields: ValidationErrorSchema.shape.fields.optional(),
+});
+
+export const TodoBatchResponseSchema = z.object({
+  results: z.array(TodoBatchResultSchema),
+});
+
+// Copy of the record kept in KV key metadata so listing needs no extra reads
+export const TodoMetadataSchema = TodoSchema.omit({ id: true, listId: true });
+
+export const TODOS_PAGE_MAX_LIMIT = 1000;
+
+export const TODO_SEARCH_MAX_LENGTH = 100;
+
+// Query accepted by GET /api/lists/:listId/todos
+export const TodoListQuerySchema = z.object({
+  limit: z.coerce
+    .number({ error: "Limit must be a number" })
+    .int({ error: "Limit must be an integer" })
+    .min(1, { error: "Limit must be at least 1" })
+    .max(TODOS_PAGE_MAX_LIMIT, {
+      error: `Limit must be at most ${TODOS_PAGE_MAX_LIMIT}`,
+    })
+    .default(100),
+  cursor: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Opaque cursor taken from next_cursor of the previous page"),
+});
+
+// Query accepted by GET /api/lists/:listId/todos; q or tag turns the listing
+// into a search
+export const TodoSearchQuerySchema = TodoListQuerySchema.extend({
+  q: z
+    .string()
+    .trim()
+    .max(TODO_SEARCH_MAX_LENGTH, {
+      error: `Search must be at most ${TODO_SEARCH_MAX_LENGTH} characters`,
+    })
+    .optional()
+    .describe(
+      "Words that must each prefix a word of the title or one of the tags"
+    ),
+  tag: TodoTagSchema.optional().describe("Tag the todos must carry"),
+});
+
+// Response of GET /api/lists/:listId/todos; next_cursor is null on the last page
+export const TodoPageSchema = z.object({
+  todos: z.array(TodoSchema),
+  next_cursor: z.string().nullable(),
+});
+
+// A deleted todo, kept in the trash until it is restored, purged or expires
+export const TrashedTodoSchema = TodoSchema.extend({
+  deletedAt: z.iso.datetime(),
+  expiresAt: z.iso
+    .datetime()
+    .describe("When the todo is removed from the trash for good"),
+});
+
+export const TrashedTodoMetadataSchema = TrashedTodoSchema.omit({
+  id: true,
+  listId: true,
+});
+
+// Response of GET /api/trash; next_cursor is null on the last page
+export const TrashPageSchema = z.object({
+  todos: z.array(TrashedTodoSchema),
+  next_cursor: z.string().nullable(),
+});
+
+// Change to a todo, broadcast to the owner's open pages through
+// GET /api/todos/events. Restored todos are announced as created.
+export const TodoEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("created"), todo: TodoSchema }),
+  z.object({ type: z.literal("updated"), todo: TodoSchema }),
+  z.object({
+    type: z.literal("deleted"),
+    listId: ListIdSchema,
+    id: TodoIdSchema,
+  }),
+]);
+
+// Written for each account by the scheduled overdue check and shown as a
+// banner on the todos page
+export const DailySummarySchema = z.object({
+  date: z.iso
+    .date()
+    .describe("Day the summary was written for, in the account's time zone"),
+  generatedAt: z.iso.datetime(),
+  overdue: z.number().int().describe("Open todos past their due date"),
+  newlyOverdue: z
+    .number()
+    .int()
+    .describe("Todos that became overdue since the previous check"),
+  dueToday: z.number().int().describe("Open todos due on date"),
+});
+
+export type Todo = z.infer<typeof TodoSchema>;
+export type TodoMetadata = z.infer<typeof TodoMetadataSchema>;
+export type TodoListQuery = z.infer<typeof TodoListQuerySchema>;
+export type TodoSearchQuery = z.infer<typeof TodoSearchQuerySchema>;
+export type TodoPage = z.infer<typeof TodoPageSchema>;
+export type TodoCreate = z.infer<typeof TodoCreateSchema>;
+export type TodoUpdate = z.infer<typeof TodoUpdateSchema>;
+export type TodoBatchOperation = z.infer<typeof TodoBatchOperationSchema>;
+export type TodoBatchResult = z.infer<typeof TodoBatchResultSchema>;
+export type TodoBatchResponse = z.infer<typeof TodoBatchResponseSchema>;
+export type TrashedTodo = z.infer<typeof TrashedTodoSchema>;
+export type TrashedTodoMetadata = z.infer<typeof TrashedTodoMetadataSchema>;
+export type TrashPage = z.infer<typeof TrashPageSchema>;
+export type TodoEvent = z.infer<typeof TodoEventSchema>;
+export type DailySummary = z.infer<typeof DailySummarySchema>;
@@ -0,0 +1,113 @@
+import { z } from "zod";
+
+const coordinate = (name: string, max: number) =>
+  z.coerce
+    .number({ error: `${name} must be a number` })
+    .min(-max, { error: `${name} must be at least -${max}` })
+    .max(max, { error: `${name} must be at most ${max}` });
+
+// Units Open-Meteo can report in; the names are its own parameter values
+export const TEMPERATURE_UNITS = ["celsius", "fahrenheit"] as const;
+export const WIND_SPEED_UNITS = ["kmh", "mph"] as const;
+
+export const UnitsSchema = z.object({
+  temperature: z.enum(TEMPERATURE_UNITS),
+  windSpeed: z.enum(WIND_SPEED_UNITS),
+});
+
+export const METRIC_UNITS: Units = { temperature: "celsius", windSpeed: "kmh" };
+
+// A location given as ?lat=&lon=
+export const CoordinatesSchema = z.object({
+  lat: coordinate("Latitude", 90),
+  lon: coordinate("Longitude", 180),
+});
+
+// Query accepted by GET /api/weather
+export const WeatherQuerySchema = CoordinatesSchema.extend({
+  temperature_unit: z
+    .enum(TEMPERATURE_UNITS, { error: "Unknown temperature unit" })
+    .default(METRIC_UNITS.temperature),
+  wind_speed_unit: z
+    .enum(WIND_SPEED_UNITS, { error: "Unknown wind speed unit" })
+    .default(METRIC_UNITS.windSpeed),
+  mock: z
+    .string()
+    .regex(/^[a-z0-9-]+$/, { error: "Mock scenario must be a fixture name" })
+    .optional()
+    .describe(
+      "Fixture of mock-data/weather to answer with, clear by default. Only used when MOCK_API is enabled."
+    ),
+  code: z.coerce
+    .number({ error: "Weather code must be a number" })
+    .int({ error: "Weather code must be a whole number" })
+    .min(0, { error: "Weather code must be at least 0" })
+    .max(99, { error: "Weather code must be at most 99" })
+    .optional()
+    .describe(
+      "WMO weather code to report for now and today. Only used when MOCK_API is enabled."
+    ),
+});
+
+// The parts of an Open-Meteo forecast the weather page uses
+export const WeatherDataSchema = z.object({
+  generationtime_ms: z.number(),
+  timezone: z
+    .string()
+    .describe("IANA time zone of the location, e.g. Europe/Berlin"),
+  utc_offset_seconds: z
+    .number()
+    .int()
+    .describe("Offset of the location's time zone from UTC right now"),
+  current: z.object({
+    time: z
+      .string()
+      .describe("Local time of the reading, e.g. 2026-10-19T14:15"),
+    temperature_2m: z.number(),
+    wind_speed_10m: z.number(),
+    weather_code: z.number().int(),
+    is_day: z.number().int(),
+  }),
+  hourly: z.object({
+    time: z.array(z.string()),
+    temperature_2m: z.array(z.number()),
+    relative_humidity_2m: z
+      .array(z.number())
+      .optional()
+      .describe("Left out when there is no humidity for the location"),
+    wind_speed_10m: z.array(z.number()),
+  }),
+  daily: z.object({
+    time: z.array(z.string()),
+    weather_code: z.array(z.number().int()),
+    temperature_2m_max: z.array(z.number()),
+    temperature_2m_min: z.array(z.number()),
+    sunrise: z.array(z.string()),
+    sunset: z.array(z.string()),
+    uv_index_max: z
+      .array(z.number())
+      .optional()
+      .describe("Left out when there is no UV index for the location"),
+    precipitation_probability_max: z.array(z.number()),
+  }),
+});
+
+// Response of GET /api/weather
+export const WeatherResponseSchema = z.object({
+  weather: WeatherDataSchema,
+  units: UnitsSchema.describe("Units of the temperatures and wind speeds"),
+  stale: z
+    .boolean()
+    .describe(
+      "True when the forecast service failed and an older cached forecast is returned"
+    ),
+  fetchedAt: z.iso
+    .datetime()
+    .describe("When the forecast was fetched from the forecast service"),
+});
+
+export type Units = z.infer<typeof UnitsSchema>;
+export type Coordinates = z.infer<typeof CoordinatesSchema>;
+export type WeatherQuery = z.infer<typeof WeatherQuerySchema>;
+export type WeatherData = z.infer<typeof WeatherDataSchema>;
+export type WeatherResponse = z.infer<typeof WeatherResponseSchema>;
@@ -0,0 +1,91 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import { createMiddleware } from "hono/factory";
+import { CredentialsSchema } from "../app/schemas/auth";
+import type { AppEnv } from "./env";
+import { findUserByEmail } from "./auth";
+import {
+  createApi,
+  errorResponse,
+  jsonBody,
+  jsonContent,
+  validationErrorResponse,
+} from "./openapi";
+import { claimUnownedTodos, ownerKeyPrefix, prefixedKV } from "./storage";
+
+export const adminSecurity = [{ adminToken: [] }];
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return btoa(String.fromCharCode(...new Uint8Array(digest)));
+}
+
+// The admin API only exists when the ADMIN_TOKEN secret is set, and then
+// requires it as a bearer token
+const requireAdmin = createMiddleware<AppEnv>(async (c, next) => {
+  const token = c.env.ADMIN_TOKEN;
+  if (!token) {
+    return c.json({ error: "Not Found" }, 404);
+  }
+  // Digests have the same length whatever was sent, so the comparison
+  // gives nothing away about the token
+  const sent = await sha256(c.req.header("Authorization") ?? "");
+  if (sent !== (await sha256(`Bearer ${token}`))) {
+    return c.json({ error: "Invalid admin token" }, 401);
+  }
+  await next();
+});
+
+// One-off operations on the whole namespace, mounted at /api/admin
+export const adminApi = createApi<AppEnv>();
+
+adminApi.use("*", requireAdmin);
+
+const claimUnownedRoute = createRoute({
+  method: "post",
+  path: "/claim-unowned-todos",
+  tags: ["Admin"],
+  security: adminSecurity,
+  summary: "Move the todos stored before accounts existed into an account",
+  description:
+    "Runs once: todos and lists that belong to no account are moved into the account with the given email. Later calls answer 409.",
+  request: { body: jsonBody(CredentialsSchema.pick({ email: true })) },
+  responses: {
+    200: jsonContent(
+      z.object({ moved: z.number().int() }),
+      "How many keys were moved"
+    ),
+    401: errorResponse("The admin token is missing or wrong"),
+    404: errorResponse(
+      "The admin API is disabled, or no account has this email"
+    ),
+    409: errorResponse("The unowned todos have already been claimed"),
+    422: validationErrorResponse,
+    500: errorResponse("KV could not be read or written"),
+  },
+});
+
+adminApi.openapi(claimUnownedRoute, async (c) => {
+  const { email } = c.req.valid("json");
+
+  try {
+    const user = await findUserByEmail(c.env.TODOS_KV, email);
+    if (!user) {
+      return c.json({ error: "No account with this email" }, 404);
+    }
+
+    const moved = await claimUnownedTodos(
+      c.env.TODOS_KV,
+      prefixedKV(c.env.TODOS_KV, ownerKeyPrefix(user.id))
+    );
+    if (moved === null) {
+      return c.json({ error: "Unowned todos were already claimed" }, 409);
+    }
+    return c.json({ moved }, 200);
+  } catch (error) {
+    console.error("Error claiming unowned todos:", error);
+    return c.json({ error: "Failed to claim unowned todos" }, 500);
+  }
+});
@@ -1,168 +1,160 @@
 import { Hono } from "hono";
 import { serveStatic } from "hono/cloudflare-workers";
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
+import { swaggerUI } from "@hono/swagger-ui";
 import { createRequestHandler } from "react-router";
-import type { Context, Env as HonoEnv } from "hono";
+import type { Env as HonoEnv } from "hono";
 import type { IncomingRequestCfProperties } from "@cloudflare/workers-types";
+import {
+  DEFAULT_LIST_ID,
+  ListCollectionSchema,
+  ListCreateSchema,
+  ListSchema,
+  ListUpdateSchema,
+} from "../app/schemas/list";
+import {
+  DailySummarySchema,
+  TodoBatchResponseSchema,
+  TodoEventSchema,
+  TodoBatchSchema,
+  TodoCreateSchema,
+  TodoPageSchema,
+  TodoSchema,
+  TodoUpdateSchema,
+  TrashPageSchema,
+  TrashedTodoSchema,
+} from "../app/schemas/todo";
+import { ErrorSchema, ValidationErrorSchema } from "../app/schemas/error";
+import { CredentialsSchema, UserSchema } from "../app/schemas/auth";
+import { WeatherResponseSchema } from "../app/schemas/weather";
+import {
+  CityCollectionSchema,
+  CitySchema,
+  NearestCitySchema,
+} from "../app/schemas/city";
+import type { AppContext, AppEnv, Env } from "./env";
+import { errorResponse, jsonContent, validationHook } from "./openapi";
+import { authApi, SESSION_COOKIE, sessionMiddleware } from "./auth";
+import { listsApi } from "./lists";
+import { todosApi } from "./todos";
+import { trashApi } from "./trash";
+import { summaryApi, writeDailySummaries } from "./summary";
+import { eventsApi } from "./events";
+import { weatherApi } from "./weather";
+import { citiesApi } from "./cities";
+import { favoritesApi } from "./favorites";
+import { adminApi } from "./admin";
+import { loadMockData } from "./mock-data";
+import { ownerKeyPrefix, prefixedKV, rememberTimeZone } from "./storage";
+import { createFlashSession } from "../app/lib/flash";
 
-// Define the Cloudflare environment type
-interface Env {
-  ASSETS: {
-    fetch: (request: Request) => Promise<Response>;
-  };
-  // Cloudflare Worker environment variables
-  WORKER_REGION?: string;
-  VALUE_FROM_CLOUDFLARE?: string;
-  MOCK_API: boolean;
-  // KV Namespace for storing TODOs
-  TODOS_KV: KVNamespace;
-}
+export { TodoEventsHub } from "./events";
 
-interface Todo {
-  id: string;
-  title: string;
-  completed: boolean;
-  createdAt: string;
-  updatedAt?: string;
-}
+const app = new OpenAPIHono<AppEnv>({ defaultHook: validationHook });
 
-type AppContext = Context<{ Bindings: Env }>;
-const app = new Hono<{ Bindings: Env }>();
+// Resolve the signed-in user for every request, API and pages alike
+app.use("*", sessionMiddleware);
 
-// Preload all mock data files at build time
-const mockDataModules = import.meta.glob("../mock-data/*.json", {
-  query: "?raw",
-  import: "default",
-  eager: true,
+app.openAPIRegistry.register("List", ListSchema);
+app.openAPIRegistry.register("ListCreate", ListCreateSchema);
+app.openAPIRegistry.register("ListUpdate", ListUpdateSchema);
+app.openAPIRegistry.register("ListCollection", ListCollectionSchema);
+app.openAPIRegistry.register("Todo", TodoSchema);
+app.openAPIRegistry.register("TodoCreate", TodoCreateSchema);
+app.openAPIRegistry.register("TodoUpdate", TodoUpdateSchema);
+app.openAPIRegistry.register("TodoPage", TodoPageSchema);
+app.openAPIRegistry.register("TodoBatch", TodoBatchSchema);
+app.openAPIRegistry.register("TodoBatchResponse", TodoBatchResponseSchema);
+app.openAPIRegistry.register("TrashedTodo", TrashedTodoSchema);
+app.openAPIRegistry.register("TrashPage", TrashPageSchema);
+app.openAPIRegistry.register("DailySummary", DailySummarySchema);
+app.openAPIRegistry.register("TodoEvent", TodoEventSchema);
+app.openAPIRegistry.register("WeatherResponse", WeatherResponseSchema);
+app.openAPIRegistry.register("City", CitySchema);
+app.openAPIRegistry.register("CityCollection", CityCollectionSchema);
+app.openAPIRegistry.register("NearestCity", NearestCitySchema);
+app.openAPIRegistry.register("User", UserSchema);
+app.openAPIRegistry.register("Credentials", CredentialsSchema);
+app.openAPIRegistry.register("Error", ErrorSchema);
+app.openAPIRegistry.register("ValidationError", ValidationErrorSchema);
+app.openAPIRegistry.registerComponent("securitySchemes", "cookieAuth", {
+  type: "apiKey",
+  in: "cookie",
+  name: SESSION_COOKIE,
+});
+app.openAPIRegistry.registerComponent("securitySchemes", "adminToken", {
+  type: "http",
+  scheme: "bearer",
 });
 
-// Load mock data from files
-async function loadMockData(c: AppContext, filename: string): Promise<any> {
-  // Check if mock API is enabled
-  if (c.env.MOCK_API !== true) {
-    throw new Error("Mock API is disabled");
-  }
-
-  // Security check - only allow alphanumeric filenames (with optional .json extension)
-  if (!/^[a-zA-Z0-9-]+(\.json)?$/.test(filename)) {
-    throw new Error("Invalid filename");
-  }
-
-  // Add .json extension if missing
-  const normalizedFilename = filename.endsWith(".json")
-    ? filename
-    : `${filename}.json`;
-  const filePath = `../mock-data/${normalizedFilename}`;
-
-  try {
-    // Try to fetch from assets first (production)
-    if (c.env.ASSETS) {
-      const url = new URL(`/mock-data/${normalizedFilename}`, c.req.url);
-      const response = await c.env.ASSETS.fetch(new Request(url.toString()));
-      if (response.ok) {
-        return await response.json();
-      }
-    }
-
-    // Use preloaded modules in development
-    if (
-      mockDataModules[filePath] &&
-      typeof mockDataModules[filePath] === "string"
-    ) {
-      return JSON.parse(mockDataModules[filePath] as string);
-    }
-
-    throw new Error("File not found");
-  } catch (error) {
-    console.error(`Error loading mock data file ${filename}:`, error);
-    throw error;
-  }
-}
-
-// API endpoints for TODOS
-const todos = new Hono<{ Bindings: Env }>();
+// Mount the API modules
+app.route("/api/auth", authApi);
+app.route("/api/lists/:listId/todos", todosApi);
+app.route("/api/lists", listsApi);
+app.route("/api/trash", trashApi);
+app.route("/api/weather", weatherApi);
+app.route("/api/cities", citiesApi);
+app.route("/api/favorites", favoritesApi);
+app.route("/api/summary", summaryApi);
+app.route("/api/admin", adminApi);
+// Not list-scoped, so mounted ahead of the /api/todos alias below
+app.route("/api/todos/events", eventsApi);
 
-// Get all TODOs
-todos.get("/", async (c) => {
-  try {
-    const keys = await c.env.TODOS_KV.list();
-    const todos = await Promise.all(
-      keys.keys.map(async (key) => {
-        const value = await c.env.TODOS_KV.get<Todo>(key.name, "json");
-        return value ? { ...value, id: key.name } : null;
-      })
-    );
-    return c.json(todos.filter(Boolean));
-  } catch (error) {
-    console.error("Error fetching TODOs:", error);
-    return c.json({ error: "Failed to fetch TODOs" }, 500);
-  }
+// /api/todos predates lists and keeps addressing the default list
+app.all("/api/todos/*", (c) => {
+  const url = new URL(c.req.url);
+  url.pathname = url.pathname.replace(
+    /^\/api\/todos/,
+    `/api/lists/${DEFAULT_LIST_ID}/todos`
+  );
+  return app.fetch(new Request(url, c.req.raw), c.env, c.executionCtx);
 });
 
-// Create a new TODO
-todos.post("/", async (c) => {
-  try {
-    const todo = await c.req.json();
-    const id = crypto.randomUUID();
-    const newTodo = {
-      ...todo,
-      id,
-      completed: false,
-      createdAt: new Date().toISOString(),
-    };
-    await c.env.TODOS_KV.put(id, JSON.stringify(newTodo));
-    return c.json(newTodo, 201);
-  } catch (error) {
-    console.error("Error creating TODO:", error);
-    return c.json({ error: "Failed to create TODO" }, 500);
-  }
+// OpenAPI document generated from the route definitions, plus a
+// Swagger UI page to browse it. Both must be registered before the
+// /api/:filename catch-all below.
+app.doc31("/api/openapi.json", {
+  openapi: "3.1.0",
+  info: {
+    title: "React Router + Hono Fullstack API",
+    version: "1.0.0",
+    description:
+      "Per-account todo lists backed by Cloudflare KV and mock data files served when MOCK_API is enabled. Sign in through /api/auth to get the session cookie the todo endpoints require. /api/todos is an alias for /api/lists/default/todos.",
+  },
 });
 
-// Update a TODO
-todos.put("/:id", async (c) => {
-  try {
-    const { id } = c.req.param();
-    const updates = await c.req.json();
-    const existing = await c.env.TODOS_KV.get(id, "json");
-
-    if (!existing) {
-      return c.json({ error: "TODO not found" }, 404);
-    }
+app.get("/api/docs", swaggerUI({ url: "/api/openapi.json" }));
 
-    const updatedTodo = {
-      ...existing,
-      ...updates,
-      updatedAt: new Date().toISOString(),
-    };
-    await c.env.TODOS_KV.put(id, JSON.stringify(updatedTodo));
-    return c.json(updatedTodo);
-  } catch (error) {
-    console.error("Error updating TODO:", error);
-    return c.json({ error: "Failed to update TODO" }, 500);
-  }
+const mockDataRoute = createRoute({
+  method: "get",
+  path: "/api/{filename}",
+  tags: ["Mock data"],
+  summary: "Read a mock data file",
+  description:
+    "Returns the contents of mock-data/<filename>.json. Only available when MOCK_API is enabled.",
+  request: {
+    params: z.object({
+      filename: z.string().openapi({
+        param: { name: "filename", in: "path" },
+        example: "todos.json",
+      }),
+    }),
+  },
+  responses: {
+    200: jsonContent(z.any(), "The parsed mock data file"),
+    400: errorResponse("The filename is not allowed"),
+    403: errorResponse("MOCK_API is disabled"),
+    404: errorResponse("No mock data file with this name"),
+  },
 });
 
-// Delete a TODO
-todos.delete("/:id", async (c) => {
-  try {
-    const { id } = c.req.param();
-    await c.env.TODOS_KV.delete(id);
-    return c.json({ success: true });
-  } catch (error) {
-    console.error("Error deleting TODO:", error);
-    return c.json({ error: "Failed to delete TODO" }, 500);
-  }
-});
-
-// Mount the todos routes
-app.route("/api/todos", todos);
-
 // API route for mock data files
-app.get("/api/:filename", async (c: AppContext) => {
-  const { filename } = c.req.param();
+app.openapi(mockDataRoute, async (c) => {
+  const { filename } = c.req.valid("param");
 
   try {
     const data = await loadMockData(c, filename);
-    return c.json(data);
+    return c.json(data, 200);
   } catch (error) {
     if (error instanceof Error) {
       if (error.message === "Invalid filename") {
@@ -201,8 +193,9 @@ app.get("/test", (c) => {
 
 const createFetchInternal =
   (
-    app: Hono<{ Bindings: Env }>,
+    app: Hono<AppEnv>,
     baseUrl: string,
+    cookie: string | undefined,
     cf: IncomingRequestCfProperties,
     env: Env,
     executionCtx?: ExecutionContext
@@ -213,6 +206,8 @@ const createFetchInternal =
       ...options,
       headers: {
         "Content-Type": "application/json",
+        // Forward the session cookie so API calls act as the signed-in user
+        ...(cookie && { Cookie: cookie }),
         ...options.headers,
       },
     });
@@ -220,11 +215,14 @@ const createFetchInternal =
     try {
       // Try to use the Hono app's fetch first
       if (executionCtx) {
-        return await app.fetch(request, {
-          ...env,
-          cf,
-          executionCtx,
-        });
+        return await app.fetch(
+          request,
+          {
+            ...env,
+            cf,
+          },
+          executionCtx
+        );
       }
 
       // Fallback to direct fetch if no execution context
@@ -235,25 +233,68 @@ const createFetchInternal =
     }
   };
 
+// Where Cloudflare places the visitor by IP address; null when it could
+// not, and in local development, where requests carry no cf properties
+function visitorLocation(cf: IncomingRequestCfProperties | undefined) {
+  if (!cf?.latitude || !cf.longitude) return null;
+  const latitude = Number(cf.latitude);
+  const longitude = Number(cf.longitude);
+  if (Number.isNaN(latitude) || Number.isNaN(longitude)) return null;
+  return { latitude, longitude, city: cf.city, country: cf.country };
+}
+
 // Handle all other routes with React Router
-app.all("*", (c: AppContext) => {
+app.all("*", async (c: AppContext) => {
   const requestHandler = createRequestHandler(
     () => import("virtual:react-router/server-build"),
     import.meta.env.MODE
   );
+  const flash = createFlashSession(c.req.header("Cookie") ?? null);
 
-  return requestHandler(c.req.raw, {
+  // Pages count days in the visitor's time zone; keeping the account's
+  // current one lets work outside a request do the same
+  const user = c.get("user");
+  const cf = c.req.raw.cf as IncomingRequestCfProperties | undefined;
+  const clientTimezone = cf?.timezone;
+  if (user && clientTimezone) {
+    c.executionCtx.waitUntil(
+      rememberTimeZone(
+        prefixedKV(c.env.TODOS_KV, ownerKeyPrefix(user.id)),
+        clientTimezone
+      ).catch((error) => console.error("Error saving time zone:", error))
+    );
+  }
+
+  const response = await requestHandler(c.req.raw, {
     cloudflare: { env: c.env, ctx: c.executionCtx },
     honoApp: app,
+    user,
     fetchInternal: createFetchInternal(
       app,
       c.req.url,
+      c.req.header("Cookie"),
       c.req.raw.cf as IncomingRequestCfProperties,
       c.env,
       c.executionCtx
     ),
-    clientTimezone: c.req.raw.cf?.timezone,
+    clientTimezone,
+    visitorLocation: visitorLocation(cf),
+    flash,
   });
+
+  // Actions queue flash messages and the root loader takes them, possibly
+  // in the same request, so the cookie is only written once both are done
+  const flashCookie = flash.commit();
+  if (!flashCookie) return response;
+  const withFlash = new Response(response.body, response);
+  withFlash.headers.append("Set-Cookie", flashCookie);
+  return withFlash;
 });
 
-export default app;
+export default {
+  fetch: app.fetch,
+  // Runs on the cron triggers configured in wrangler.jsonc
+  scheduled(controller, env, ctx) {
+    ctx.waitUntil(writeDailySummaries(env, new Date(controller.scheduledTime)));
+  },
+} satisfies ExportedHandler<Env>;
@@ -0,0 +1,286 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import { getCookie, setCookie, deleteCookie } from "hono/cookie";
+import { createMiddleware } from "hono/factory";
+import {
+  CredentialsSchema,
+  UserSchema,
+  type User,
+} from "../app/schemas/auth";
+import type { AppContext, AppEnv, UserEnv } from "./env";
+import {
+  createApi,
+  errorResponse,
+  jsonBody,
+  jsonContent,
+  validationErrorResponse,
+} from "./openapi";
+import { ownerKeyPrefix, prefixedKV } from "./storage";
+
+export const SESSION_COOKIE = "session";
+const SESSION_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+// Workers cap PBKDF2 at 100k iterations
+const PBKDF2_ITERATIONS = 100_000;
+
+// Accounts and sessions live in TODOS_KV next to the per-user data:
+//   auth:user:<email>          StoredUser
+//   auth:session:<tokenHash>   User, expiring with the session
+const userKey = (email: string) => `auth:user:${email}`;
+const sessionKey = (tokenHash: string) => `auth:session:${tokenHash}`;
+
+const StoredUserSchema = UserSchema.extend({ passwordHash: z.string() });
+type StoredUser = z.infer<typeof StoredUserSchema>;
+
+export const sessionSecurity = [{ cookieAuth: [] }];
+
+export const unauthorizedResponse = errorResponse("Not signed in");
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const toBase64Url = (bytes: Uint8Array) =>
+  toBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+async function pbkdf2(
+  password: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+// Encoded as pbkdf2$<iterations>$<salt>$<hash> so the cost can be raised later
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await pbkdf2(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+}
+
+async function verifyPassword(
+  password: string,
+  encoded: string
+): Promise<boolean> {
+  const [scheme, iterations, salt, expected] = encoded.split("$");
+  if (scheme !== "pbkdf2" || !iterations || !salt || !expected) return false;
+
+  const actual = await pbkdf2(password, fromBase64(salt), Number(iterations));
+  const expectedBytes = fromBase64(expected);
+  if (actual.length !== expectedBytes.length) return false;
+
+  // Compare in constant time
+  let difference = 0;
+  for (let i = 0; i < actual.length; i++) {
+    difference |= actual[i] ^ expectedBytes[i];
+  }
+  return difference === 0;
+}
+
+// The account registered under an email, or null
+export async function findUserByEmail(
+  kv: KVNamespace,
+  email: string
+): Promise<User | null> {
+  const parsed = StoredUserSchema.safeParse(
+    await kv.get(userKey(email), "json")
+  );
+  if (!parsed.success) return null;
+  const { passwordHash, ...user } = parsed.data;
+  return user;
+}
+
+// Ids of every account, for jobs that run outside a request
+export async function listUserIds(kv: KVNamespace): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix: userKey(""), cursor });
+    const users = await Promise.all(
+      page.keys.map(async (key) =>
+        StoredUserSchema.safeParse(await kv.get(key.name, "json"))
+      )
+    );
+    for (const user of users) {
+      if (user.success) ids.push(user.data.id);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return ids;
+}
+
+// Used when the email is unknown so both failure paths take equally long.
+// Created lazily: Workers forbid generating random values at global scope.
+let dummyPasswordHash: Promise<string> | undefined;
+
+// Session tokens are stored hashed, so a leaked KV dump cannot be replayed
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token)
+  );
+  return toBase64Url(new Uint8Array(digest));
+}
+
+async function startSession(c: AppContext, user: User) {
+  const token = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  await c.env.TODOS_KV.put(
+    sessionKey(await hashToken(token)),
+    JSON.stringify(user),
+    { expirationTtl: SESSION_TTL_SECONDS }
+  );
+  setCookie(c, SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: new URL(c.req.url).protocol === "https:",
+    sameSite: "Lax",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+// Resolve the session cookie into the signed-in user, or null
+export const sessionMiddleware = createMiddleware<AppEnv>(async (c, next) => {
+  let user: User | null = null;
+  const token = getCookie(c, SESSION_COOKIE);
+  if (token) {
+    const value = await c.env.TODOS_KV.get(
+      sessionKey(await hashToken(token)),
+      "json"
+    );
+    const parsed = UserSchema.safeParse(value);
+    user = parsed.success ? parsed.data : null;
+  }
+  c.set("user", user);
+  await next();
+});
+
+// Reject anonymous requests and scope storage to the signed-in user's keys
+export const requireUser = createMiddleware<UserEnv>(async (c, next) => {
+  const user = c.get("user");
+  if (!user) {
+    return c.json({ error: "Not signed in" }, 401);
+  }
+  c.set("kv", prefixedKV(c.env.TODOS_KV, ownerKeyPrefix(user.id)));
+  await next();
+});
+
+// API endpoints for accounts and sessions, mounted at /api/auth
+export const authApi = createApi<AppEnv>();
+
+const signupRoute = createRoute({
+  method: "post",
+  path: "/signup",
+  tags: ["Auth"],
+  summary: "Create an account and sign in",
+  request: { body: jsonBody(CredentialsSchema) },
+  responses: {
+    201: jsonContent(UserSchema, "The new account; sets the session cookie"),
+    409: errorResponse("An account with this email already exists"),
+    422: validationErrorResponse,
+  },
+});
+
+authApi.openapi(signupRoute, async (c) => {
+  const { email, password } = c.req.valid("json");
+  if (await c.env.TODOS_KV.get(userKey(email))) {
+    return c.json({ error: "An account with this email already exists" }, 409);
+  }
+
+  const user: User = {
+    id: crypto.randomUUID(),
+    email,
+    createdAt: new Date().toISOString(),
+  };
+  const stored: StoredUser = {
+    ...user,
+    passwordHash: await hashPassword(password),
+  };
+  await c.env.TODOS_KV.put(userKey(email), JSON.stringify(stored));
+  await startSession(c, user);
+  return c.json(user, 201);
+});
+
+const loginRoute = createRoute({
+  method: "post",
+  path: "/login",
+  tags: ["Auth"],
+  summary: "Sign in",
+  request: { body: jsonBody(CredentialsSchema) },
+  responses: {
+    200: jsonContent(UserSchema, "The account; sets the session cookie"),
+    401: errorResponse("The email or password is wrong"),
+    422: validationErrorResponse,
+  },
+});
+
+authApi.openapi(loginRoute, async (c) => {
+  const { email, password } = c.req.valid("json");
+  const parsed = StoredUserSchema.safeParse(
+    await c.env.TODOS_KV.get(userKey(email), "json")
+  );
+  const valid = await verifyPassword(
+    password,
+    parsed.success
+      ? parsed.data.passwordHash
+      : await (dummyPasswordHash ??= hashPassword("not-a-real-password"))
+  );
+  if (!parsed.success || !valid) {
+    return c.json({ error: "Invalid email or password" }, 401);
+  }
+
+  const { passwordHash, ...user } = parsed.data;
+  await startSession(c, user);
+  return c.json(user, 200);
+});
+
+const logoutRoute = createRoute({
+  method: "post",
+  path: "/logout",
+  tags: ["Auth"],
+  summary: "Sign out",
+  responses: {
+    200: jsonContent(
+      z.object({ success: z.literal(true) }),
+      "The session was ended; clears the session cookie"
+    ),
+  },
+});
+
+authApi.openapi(logoutRoute, async (c) => {
+  const token = getCookie(c, SESSION_COOKIE);
+  if (token) {
+    await c.env.TODOS_KV.delete(sessionKey(await hashToken(token)));
+  }
+  deleteCookie(c, SESSION_COOKIE, { path: "/" });
+  return c.json({ success: true as const }, 200);
+});
+
+const meRoute = createRoute({
+  method: "get",
+  path: "/me",
+  tags: ["Auth"],
+  summary: "Get the signed-in account",
+  security: sessionSecurity,
+  responses: {
+    200: jsonContent(UserSchema, "The signed-in account"),
+    401: unauthorizedResponse,
+  },
+});
+
+authApi.openapi(meRoute, (c) => {
+  const user = c.get("user");
+  if (!user) {
+    return c.json({ error: "Not signed in" }, 401);
+  }
+  return c.json(user, 200);
+});
@@ -0,0 +1,200 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import {
+  CityCollectionSchema,
+  CitySchema,
+  CitySearchQuerySchema,
+  NearestCitySchema,
+  type City,
+  type NearestCity,
+} from "../app/schemas/city";
+import { CoordinatesSchema } from "../app/schemas/weather";
+import citiesData from "../src/data/world-cities.json";
+import type { AppEnv } from "./env";
+import {
+  createApi,
+  errorResponse,
+  jsonContent,
+  validationErrorResponse,
+} from "./openapi";
+
+// Terms at least this long may be misspelled by one letter
+const FUZZY_MIN_LENGTH = 4;
+
+// Lowercased, without accents: "São Paulo" becomes "sao paulo"
+const normalize = (text: string) =>
+  text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+
+const words = (text: string) =>
+  normalize(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+// Largest first, so ties in a search keep the biggest city on top
+const cities = (citiesData as City[])
+  .map((city) => ({
+    city,
+    name: normalize(city.name),
+    country: normalize(city.country),
+    words: words(city.name),
+  }))
+  .sort((a, b) => b.city.population - a.city.population);
+
+// Fewest edits turning term into some prefix of word
+function prefixDistance(term: string, word: string): number {
+  let previous = Array.from({ length: word.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= term.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= word.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (term[i - 1] === word[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return Math.min(...previous);
+}
+
+// Edits needed for every term to start a word of the name, or null when a
+// term matches no word closely enough
+function matchCost(terms: string[], nameWords: string[]): number | null {
+  let cost = 0;
+  for (const term of terms) {
+    const allowed = term.length >= FUZZY_MIN_LENGTH ? 1 : 0;
+    const distance = Math.min(
+      ...nameWords.map((word) => prefixDistance(term, word))
+    );
+    if (distance > allowed) return null;
+    cost += distance;
+  }
+  return cost;
+}
+
+// Cities whose name words start with every term of q, exact matches before
+// misspelled ones and larger cities first
+function searchCities(q: string, limit: number): City[] {
+  const terms = words(q);
+  const matches: { city: City; cost: number }[] = [];
+  for (const entry of cities) {
+    const cost = matchCost(terms, entry.words);
+    if (cost !== null) matches.push({ city: entry.city, cost });
+  }
+  // The sort is stable, so equal costs stay in population order
+  return matches
+    .sort((a, b) => a.cost - b.cost)
+    .slice(0, limit)
+    .map(({ city }) => city);
+}
+
+// The city named by "Name,Country", ignoring case and accents
+export function findCity(key: string): City | null {
+  const separator = key.lastIndexOf(",");
+  if (separator === -1) return null;
+  const name = normalize(key.slice(0, separator).trim());
+  const country = normalize(key.slice(separator + 1).trim());
+  return (
+    cities.find((entry) => entry.name === name && entry.country === country)
+      ?.city ?? null
+  );
+}
+
+const EARTH_RADIUS_KM = 6371;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance by the haversine formula
+function distanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+) {
+  const dLatitude = toRadians(to.latitude - from.latitude);
+  const dLongitude = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+function nearestCity(latitude: number, longitude: number): NearestCity {
+  return cities
+    .map(({ city }) => ({
+      city,
+      distanceKm: distanceKm({ latitude, longitude }, city),
+    }))
+    .reduce((nearest, candidate) =>
+      candidate.distanceKm < nearest.distanceKm ? candidate : nearest
+    );
+}
+
+// API endpoints for the cities of the weather page, mounted at /api/cities
+export const citiesApi = createApi<AppEnv>();
+
+const searchCitiesRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Weather"],
+  summary: "Search cities",
+  description:
+    "Cities whose name words start with the words of q, ignoring case and accents. Words of four letters or more may be misspelled by one letter. Exact matches come first, then larger cities.",
+  request: { query: CitySearchQuerySchema },
+  responses: {
+    200: jsonContent(CityCollectionSchema, "The matching cities"),
+    422: validationErrorResponse,
+  },
+});
+
+citiesApi.openapi(searchCitiesRoute, (c) => {
+  const { q, limit } = c.req.valid("query");
+  return c.json({ cities: searchCities(q, limit) }, 200);
+});
+
+const nearestCityRoute = createRoute({
+  method: "get",
+  path: "/nearest",
+  tags: ["Weather"],
+  summary: "Find the nearest city",
+  description:
+    "The known city closest to a location, however far away it is; check distanceKm.",
+  request: { query: CoordinatesSchema },
+  responses: {
+    200: jsonContent(NearestCitySchema, "The nearest city"),
+    422: validationErrorResponse,
+  },
+});
+
+citiesApi.openapi(nearestCityRoute, (c) => {
+  const { lat, lon } = c.req.valid("query");
+  return c.json(nearestCity(lat, lon), 200);
+});
+
+// Registered after /nearest, which would otherwise be read as a city
+const getCityRoute = createRoute({
+  method: "get",
+  path: "/{city}",
+  tags: ["Weather"],
+  summary: "Look up a city",
+  description: "Case and accents are ignored, so sao paulo,brazil works too.",
+  request: {
+    params: z.object({
+      city: z.string().openapi({
+        param: { name: "city", in: "path" },
+        description: "Name and country separated by a comma",
+        example: "São Paulo,Brazil",
+      }),
+    }),
+  },
+  responses: {
+    200: jsonContent(CitySchema, "The city"),
+    404: errorResponse("No known city has this name and country"),
+  },
+});
+
+citiesApi.openapi(getCityRoute, (c) => {
+  const city = findCity(c.req.valid("param").city);
+  if (!city) {
+    return c.json({ error: "City not found" }, 404);
+  }
+  return c.json(city, 200);
+});
@@ -0,0 +1,31 @@
+import type { Context } from "hono";
+import type { User } from "../app/schemas/auth";
+import type { KVStore } from "./storage";
+
+// Define the Cloudflare environment type
+export interface Env {
+  ASSETS: {
+    fetch: (request: Request) => Promise<Response>;
+  };
+  // Cloudflare Worker environment variables
+  WORKER_REGION?: string;
+  VALUE_FROM_CLOUDFLARE?: string;
+  MOCK_API: boolean;
+  // Secret enabling the admin API at /api/admin, sent as a bearer token
+  ADMIN_TOKEN?: string;
+  // KV Namespace for storing TODOs, accounts and sessions
+  TODOS_KV: KVNamespace;
+  // Durable Object hub for live todo updates; without it an in-process
+  // stand-in is used, which only reaches pages served by the same isolate
+  TODO_EVENTS?: DurableObjectNamespace;
+}
+
+// user is set for every request by the session middleware
+export type AppEnv = { Bindings: Env; Variables: { user: User | null } };
+export type AppContext = Context<AppEnv>;
+
+// Routes behind requireUser: user is known and kv is scoped to their keys
+export type UserEnv = {
+  Bindings: Env;
+  Variables: { user: User; kv: KVStore };
+};
@@ -0,0 +1,182 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import type { TodoEvent } from "../app/schemas/todo";
+import type { Env, UserEnv } from "./env";
+import { requireUser, sessionSecurity, unauthorizedResponse } from "./auth";
+import { createApi } from "./openapi";
+
+// Comment lines keep idle connections from being closed by proxies
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+const encoder = new TextEncoder();
+
+// Open Server-Sent Events streams of one account
+class EventStreams {
+  private heartbeats = new Map<
+    ReadableStreamDefaultController<Uint8Array>,
+    ReturnType<typeof setInterval>
+  >();
+
+  open(): Response {
+    let controller: ReadableStreamDefaultController<Uint8Array>;
+    const stream = new ReadableStream<Uint8Array>({
+      start: (streamController) => {
+        controller = streamController;
+        controller.enqueue(encoder.encode(": connected\n\n"));
+        this.heartbeats.set(
+          controller,
+          setInterval(
+            () => this.write(controller, ": heartbeat\n\n"),
+            HEARTBEAT_INTERVAL_MS
+          )
+        );
+      },
+      cancel: () => this.close(controller),
+    });
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  }
+
+  send(events: TodoEvent[]) {
+    const message = events
+      .map((event) => `event: todo\ndata: ${JSON.stringify(event)}\n\n`)
+      .join("");
+    for (const controller of this.heartbeats.keys()) {
+      this.write(controller, message);
+    }
+  }
+
+  get size() {
+    return this.heartbeats.size;
+  }
+
+  // Streams whose client went away throw on enqueue and are dropped
+  private write(
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    text: string
+  ) {
+    try {
+      controller.enqueue(encoder.encode(text));
+    } catch {
+      this.close(controller);
+    }
+  }
+
+  private close(controller: ReadableStreamDefaultController<Uint8Array>) {
+    clearInterval(this.heartbeats.get(controller));
+    this.heartbeats.delete(controller);
+  }
+}
+
+// Fans todo events out to every open page of an account
+interface TodoEventHub {
+  subscribe(userId: string): Promise<Response>;
+  publish(userId: string, events: TodoEvent[]): Promise<void>;
+}
+
+// Durable Object holding the streams of one account, so every Worker
+// instance publishes to the same subscribers. Bound as TODO_EVENTS.
+export class TodoEventsHub implements DurableObject {
+  private streams = new EventStreams();
+
+  async fetch(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    if (pathname === "/subscribe") {
+      return this.streams.open();
+    }
+    if (pathname === "/publish" && request.method === "POST") {
+      this.streams.send(await request.json());
+      return new Response(null, { status: 204 });
+    }
+    return new Response("Not Found", { status: 404 });
+  }
+}
+
+function durableObjectHub(namespace: DurableObjectNamespace): TodoEventHub {
+  const hub = (userId: string) => namespace.get(namespace.idFromName(userId));
+  return {
+    subscribe: (userId) => hub(userId).fetch("https://hub/subscribe"),
+    publish: async (userId, events) => {
+      await hub(userId).fetch("https://hub/publish", {
+        method: "POST",
+        body: JSON.stringify(events),
+      });
+    },
+  };
+}
+
+// Stand-in for local development, where a single isolate serves every
+// request and module state is shared between them
+const localStreams = new Map<string, EventStreams>();
+
+const localHub: TodoEventHub = {
+  subscribe: async (userId) => {
+    let streams = localStreams.get(userId);
+    if (!streams) {
+      streams = new EventStreams();
+      localStreams.set(userId, streams);
+    }
+    return streams.open();
+  },
+  publish: async (userId, events) => {
+    const streams = localStreams.get(userId);
+    if (!streams) return;
+    streams.send(events);
+    if (streams.size === 0) localStreams.delete(userId);
+  },
+};
+
+function todoEventHub(env: Env): TodoEventHub {
+  return import.meta.env.DEV || !env.TODO_EVENTS
+    ? localHub
+    : durableObjectHub(env.TODO_EVENTS);
+}
+
+// Broadcast changes after a successful write. Live updates are best effort,
+// so a failing hub never fails the write itself.
+export async function publishTodoEvents(
+  env: Env,
+  userId: string,
+  events: TodoEvent[]
+) {
+  if (events.length === 0) return;
+  try {
+    await todoEventHub(env).publish(userId, events);
+  } catch (error) {
+    console.error("Error publishing todo events:", error);
+  }
+}
+
+// Live todo changes of the signed-in account, mounted at /api/todos/events
+export const eventsApi = createApi<UserEnv>();
+
+eventsApi.use("*", requireUser);
+
+const todoEventsRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Todos"],
+  security: sessionSecurity,
+  summary: "Stream todo changes",
+  description:
+    "Server-Sent Events stream of the account's todo changes across all lists. Each change is a `todo` event whose data is a TodoEvent.",
+  responses: {
+    200: {
+      content: {
+        "text/event-stream": {
+          schema: z.string().openapi({ description: "TodoEvent messages" }),
+        },
+      },
+      description: "The event stream, open until the client disconnects",
+    },
+    401: unauthorizedResponse,
+  },
+});
+
+eventsApi.openapi(todoEventsRoute, (c) =>
+  todoEventHub(c.env).subscribe(c.get("user").id)
+);
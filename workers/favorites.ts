@@ -0,0 +1,164 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import { getCookie, setCookie } from "hono/cookie";
+import {
+  CityCollectionSchema,
+  FAVORITE_CITIES_MAX,
+  cityKey,
+  type City,
+} from "../app/schemas/city";
+import { findCity } from "./cities";
+import type { AppContext, AppEnv } from "./env";
+import { createApi, errorResponse, jsonContent } from "./openapi";
+import { FAVORITE_CITIES_KEY, ownerKeyPrefix, prefixedKV } from "./storage";
+
+// Signed-out visitors keep their favourites in a cookie instead of KV
+export const FAVORITES_COOKIE = "favorite_cities";
+const FAVORITES_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+// City names contain commas but never this
+const COOKIE_SEPARATOR = "|";
+
+const userKV = (c: AppContext, userId: string) =>
+  prefixedKV(c.env.TODOS_KV, ownerKeyPrefix(userId));
+
+// Favourite cities in the order they were added. Keys of cities that are no
+// longer known are dropped.
+async function readFavorites(c: AppContext): Promise<City[]> {
+  const user = c.get("user");
+  let keys: unknown;
+  if (user) {
+    keys = await userKV(c, user.id).get(FAVORITE_CITIES_KEY, "json");
+  } else {
+    keys = getCookie(c, FAVORITES_COOKIE)?.split(COOKIE_SEPARATOR);
+  }
+  const parsed = z.array(z.string()).safeParse(keys ?? []);
+  if (!parsed.success) {
+    console.error("Corrupt favourite cities:", parsed.error);
+    return [];
+  }
+  return parsed.data
+    .map(findCity)
+    .filter((city): city is City => city !== null)
+    .slice(0, FAVORITE_CITIES_MAX);
+}
+
+async function writeFavorites(c: AppContext, cities: City[]) {
+  const keys = cities.map(cityKey);
+  const user = c.get("user");
+  if (user) {
+    await userKV(c, user.id).put(FAVORITE_CITIES_KEY, JSON.stringify(keys));
+    return;
+  }
+  setCookie(c, FAVORITES_COOKIE, keys.join(COOKIE_SEPARATOR), {
+    httpOnly: true,
+    secure: new URL(c.req.url).protocol === "https:",
+    sameSite: "Lax",
+    path: "/",
+    maxAge: FAVORITES_COOKIE_MAX_AGE,
+  });
+}
+
+// API endpoints for the weather page's favourite cities, mounted at
+// /api/favorites. Signed-in accounts keep them in KV; anyone else gets a
+// cookie, so they work without an account.
+export const favoritesApi = createApi<AppEnv>();
+
+const cityParams = z.object({
+  city: z.string().openapi({
+    param: { name: "city", in: "path" },
+    description: "Name and country separated by a comma",
+    example: "São Paulo,Brazil",
+  }),
+});
+
+const listFavoritesRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Weather"],
+  summary: "List favourite cities",
+  description:
+    "Stored for the signed-in account, or in the favorite_cities cookie when signed out.",
+  responses: {
+    200: jsonContent(CityCollectionSchema, "Favourites, oldest first"),
+    500: errorResponse("The favourites could not be read"),
+  },
+});
+
+favoritesApi.openapi(listFavoritesRoute, async (c) => {
+  try {
+    return c.json({ cities: await readFavorites(c) }, 200);
+  } catch (error) {
+    console.error("Error fetching favourite cities:", error);
+    return c.json({ error: "Failed to fetch favourite cities" }, 500);
+  }
+});
+
+const addFavoriteRoute = createRoute({
+  method: "put",
+  path: "/{city}",
+  tags: ["Weather"],
+  summary: "Add a favourite city",
+  description: `Adding a city that is already a favourite changes nothing. At most ${FAVORITE_CITIES_MAX} cities can be favourites.`,
+  request: { params: cityParams },
+  responses: {
+    200: jsonContent(CityCollectionSchema, "The updated favourites"),
+    404: errorResponse("No known city has this name and country"),
+    409: errorResponse("There are already as many favourites as allowed"),
+    500: errorResponse("The favourites could not be saved"),
+  },
+});
+
+favoritesApi.openapi(addFavoriteRoute, async (c) => {
+  const city = findCity(c.req.valid("param").city);
+  if (!city) {
+    return c.json({ error: "City not found" }, 404);
+  }
+
+  try {
+    const cities = await readFavorites(c);
+    if (cities.some((favorite) => cityKey(favorite) === cityKey(city))) {
+      return c.json({ cities }, 200);
+    }
+    if (cities.length >= FAVORITE_CITIES_MAX) {
+      return c.json(
+        { error: `You can have at most ${FAVORITE_CITIES_MAX} favourites` },
+        409
+      );
+    }
+    const updated = [...cities, city];
+    await writeFavorites(c, updated);
+    return c.json({ cities: updated }, 200);
+  } catch (error) {
+    console.error("Error adding favourite city:", error);
+    return c.json({ error: "Failed to add favourite city" }, 500);
+  }
+});
+
+const removeFavoriteRoute = createRoute({
+  method: "delete",
+  path: "/{city}",
+  tags: ["Weather"],
+  summary: "Remove a favourite city",
+  description: "Removing a city that is not a favourite changes nothing.",
+  request: { params: cityParams },
+  responses: {
+    200: jsonContent(CityCollectionSchema, "The updated favourites"),
+    500: errorResponse("The favourites could not be saved"),
+  },
+});
+
+favoritesApi.openapi(removeFavoriteRoute, async (c) => {
+  const city = findCity(c.req.valid("param").city);
+  try {
+    const cities = await readFavorites(c);
+    const updated = cities.filter(
+      (favorite) => !city || cityKey(favorite) !== cityKey(city)
+    );
+    if (updated.length !== cities.length) {
+      await writeFavorites(c, updated);
+    }
+    return c.json({ cities: updated }, 200);
+  } catch (error) {
+    console.error("Error removing favourite city:", error);
+    return c.json({ error: "Failed to remove favourite city" }, 500);
+  }
+});
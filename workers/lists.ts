@@ -0,0 +1,219 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import {
+  DEFAULT_LIST_ID,
+  ListCollectionSchema,
+  ListCreateSchema,
+  ListSchema,
+  ListUpdateSchema,
+  type List,
+} from "../app/schemas/list";
+import type { UserEnv } from "./env";
+import { requireUser, sessionSecurity, unauthorizedResponse } from "./auth";
+import {
+  createApi,
+  errorResponse,
+  jsonBody,
+  jsonContent,
+  validationErrorResponse,
+} from "./openapi";
+import {
+  deleteByPrefix,
+  getAllLists,
+  getList,
+  indexKeyPrefix,
+  listKey,
+  putList,
+  todoKeyPrefix,
+  trashKeyPrefix,
+} from "./storage";
+import { ListParamsSchema } from "./todos";
+import { publishTodoEvents } from "./events";
+
+const DeleteListResultSchema = z.object({
+  success: z.literal(true),
+  deletedTodos: z.number().int().describe("Number of todos deleted with it"),
+});
+
+const listNotFoundResponse = errorResponse("No list exists with this id");
+
+// API endpoints for todo lists, mounted at /api/lists
+export const listsApi = createApi<UserEnv>();
+
+listsApi.use("*", requireUser);
+
+const getListsRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Lists"],
+  security: sessionSecurity,
+  summary: "List all todo lists",
+  description: "The default list is always present and comes first.",
+  responses: {
+    200: jsonContent(ListCollectionSchema, "All todo lists"),
+    401: unauthorizedResponse,
+    500: errorResponse("Lists could not be read from KV"),
+  },
+});
+
+listsApi.openapi(getListsRoute, async (c) => {
+  try {
+    return c.json({ lists: await getAllLists(c.get("kv")) }, 200);
+  } catch (error) {
+    console.error("Error fetching lists:", error);
+    return c.json({ error: "Failed to fetch lists" }, 500);
+  }
+});
+
+const createListRoute = createRoute({
+  method: "post",
+  path: "/",
+  tags: ["Lists"],
+  security: sessionSecurity,
+  summary: "Create a todo list",
+  request: { body: jsonBody(ListCreateSchema) },
+  responses: {
+    201: jsonContent(ListSchema, "The created list"),
+    401: unauthorizedResponse,
+    422: validationErrorResponse,
+    500: errorResponse("The list could not be stored"),
+  },
+});
+
+listsApi.openapi(createListRoute, async (c) => {
+  try {
+    const newList: List = {
+      id: crypto.randomUUID(),
+      name: c.req.valid("json").name,
+      createdAt: new Date().toISOString(),
+    };
+    await putList(c.get("kv"), newList);
+    return c.json(newList, 201);
+  } catch (error) {
+    console.error("Error creating list:", error);
+    return c.json({ error: "Failed to create list" }, 500);
+  }
+});
+
+const getListRoute = createRoute({
+  method: "get",
+  path: "/{listId}",
+  tags: ["Lists"],
+  security: sessionSecurity,
+  summary: "Get a todo list",
+  request: { params: ListParamsSchema },
+  responses: {
+    200: jsonContent(ListSchema, "The list"),
+    401: unauthorizedResponse,
+    404: listNotFoundResponse,
+    422: validationErrorResponse,
+    500: errorResponse("The list could not be read"),
+  },
+});
+
+listsApi.openapi(getListRoute, async (c) => {
+  try {
+    const list = await getList(c.get("kv"), c.req.valid("param").listId);
+    if (!list) {
+      return c.json({ error: "List not found" }, 404);
+    }
+    return c.json(list, 200);
+  } catch (error) {
+    console.error("Error fetching list:", error);
+    return c.json({ error: "Failed to fetch list" }, 500);
+  }
+});
+
+const updateListRoute = createRoute({
+  method: "put",
+  path: "/{listId}",
+  tags: ["Lists"],
+  security: sessionSecurity,
+  summary: "Rename a todo list",
+  request: { params: ListParamsSchema, body: jsonBody(ListUpdateSchema) },
+  responses: {
+    200: jsonContent(ListSchema, "The updated list"),
+    401: unauthorizedResponse,
+    404: listNotFoundResponse,
+    422: validationErrorResponse,
+    500: errorResponse("The list could not be written"),
+  },
+});
+
+listsApi.openapi(updateListRoute, async (c) => {
+  try {
+    const existing = await getList(
+      c.get("kv"),
+      c.req.valid("param").listId
+    );
+    if (!existing) {
+      return c.json({ error: "List not found" }, 404);
+    }
+
+    const updatedList: List = {
+      ...existing,
+      ...c.req.valid("json"),
+      updatedAt: new Date().toISOString(),
+    };
+    await putList(c.get("kv"), updatedList);
+    return c.json(updatedList, 200);
+  } catch (error) {
+    console.error("Error updating list:", error);
+    return c.json({ error: "Failed to update list" }, 500);
+  }
+});
+
+const deleteListRoute = createRoute({
+  method: "delete",
+  path: "/{listId}",
+  tags: ["Lists"],
+  security: sessionSecurity,
+  summary: "Delete a todo list and all of its todos",
+  description:
+    "The todos are deleted for good, together with any of them in the trash.",
+  request: { params: ListParamsSchema },
+  responses: {
+    200: jsonContent(DeleteListResultSchema, "The list was deleted"),
+    401: unauthorizedResponse,
+    404: listNotFoundResponse,
+    409: errorResponse("The default list cannot be deleted"),
+    422: validationErrorResponse,
+    500: errorResponse("The list could not be deleted"),
+  },
+});
+
+// Delete a list's todos, trash and search index first, so a failure never
+// leaves orphaned todos behind a list that no longer exists
+listsApi.openapi(deleteListRoute, async (c) => {
+  try {
+    const { listId } = c.req.valid("param");
+    if (listId === DEFAULT_LIST_ID) {
+      return c.json({ error: "The default list cannot be deleted" }, 409);
+    }
+    if (!(await getList(c.get("kv"), listId))) {
+      return c.json({ error: "List not found" }, 404);
+    }
+
+    const prefix = todoKeyPrefix(listId);
+    const deleted = await deleteByPrefix(c.get("kv"), prefix);
+    await deleteByPrefix(c.get("kv"), trashKeyPrefix(listId));
+    await deleteByPrefix(c.get("kv"), indexKeyPrefix(listId));
+    await c.get("kv").delete(listKey(listId));
+    // Other open pages drop the todos as if each had been deleted on its own
+    await publishTodoEvents(
+      c.env,
+      c.get("user").id,
+      deleted.map((name) => ({
+        type: "deleted" as const,
+        listId,
+        id: name.slice(prefix.length),
+      }))
+    );
+    return c.json(
+      { success: true as const, deletedTodos: deleted.length },
+      200
+    );
+  } catch (error) {
+    console.error("Error deleting list:", error);
+    return c.json({ error: "Failed to delete list" }, 500);
+  }
+});
@@ -0,0 +1,55 @@
+import type { AppContext } from "./env";
+
+// Preload all mock data files at build time
+const mockDataModules = import.meta.glob("../mock-data/**/*.json", {
+  query: "?raw",
+  import: "default",
+  eager: true,
+});
+
+// Load mock data from files, e.g. "todos" or "weather/clear"
+export async function loadMockData(
+  c: AppContext,
+  filename: string
+): Promise<any> {
+  // Check if mock API is enabled
+  if (c.env.MOCK_API !== true) {
+    throw new Error("Mock API is disabled");
+  }
+
+  // Security check - only allow alphanumeric filenames (with optional .json
+  // extension), optionally in one subdirectory
+  if (!/^([a-zA-Z0-9-]+\/)?[a-zA-Z0-9-]+(\.json)?$/.test(filename)) {
+    throw new Error("Invalid filename");
+  }
+
+  // Add .json extension if missing
+  const normalizedFilename = filename.endsWith(".json")
+    ? filename
+    : `${filename}.json`;
+  const filePath = `../mock-data/${normalizedFilename}`;
+
+  try {
+    // Try to fetch from assets first (production)
+    if (c.env.ASSETS) {
+      const url = new URL(`/mock-data/${normalizedFilename}`, c.req.url);
+      const response = await c.env.ASSETS.fetch(new Request(url.toString()));
+      if (response.ok) {
+        return await response.json();
+      }
+    }
+
+    // Use preloaded modules in development
+    if (
+      mockDataModules[filePath] &&
+      typeof mockDataModules[filePath] === "string"
+    ) {
+      return JSON.parse(mockDataModules[filePath] as string);
+    }
+
+    throw new Error("File not found");
+  } catch (error) {
+    console.error(`Error loading mock data file ${filename}:`, error);
+    throw error;
+  }
+}
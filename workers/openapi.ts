@@ -0,0 +1,58 @@
+import { OpenAPIHono, type Hook, type z } from "@hono/zod-openapi";
+import { HTTPException } from "hono/http-exception";
+import type { Env as HonoEnv } from "hono";
+import {
+  ErrorSchema,
+  ValidationErrorSchema,
+  toFieldErrors,
+  type ValidationErrorBody,
+} from "../app/schemas/error";
+
+// Answer requests that fail schema validation with 422 and per-field errors
+export const validationHook: Hook<any, any, any, any> = (result, c) => {
+  if (!result.success) {
+    return c.json<ValidationErrorBody>(
+      { error: "Validation failed", fields: toFieldErrors(result.error) },
+      422
+    );
+  }
+};
+
+// OpenAPIHono instance for an API module. Malformed JSON bodies are rejected
+// by the validator before the hook runs, so they are mapped to 422 here.
+export function createApi<E extends HonoEnv>() {
+  const api = new OpenAPIHono<E>({ defaultHook: validationHook });
+  api.onError((error, c) => {
+    if (error instanceof HTTPException && error.status === 400) {
+      return c.json<ValidationErrorBody>(
+        { error: "Validation failed", fields: { _: [error.message] } },
+        422
+      );
+    }
+    console.error("Unhandled API error:", error);
+    return c.json({ error: "Internal Server Error" }, 500);
+  });
+  return api;
+}
+
+// OpenAPI building blocks shared by the route definitions
+export const jsonContent = <T extends z.ZodType>(
+  schema: T,
+  description: string
+) => ({
+  content: { "application/json": { schema } },
+  description,
+});
+
+export const jsonBody = <T extends z.ZodType>(schema: T) => ({
+  content: { "application/json": { schema } },
+  required: true,
+});
+
+export const validationErrorResponse = jsonContent(
+  ValidationErrorSchema,
+  "The request failed validation"
+);
+
+export const errorResponse = (description: string) =>
+  jsonContent(ErrorSchema, description);
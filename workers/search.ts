@@ -0,0 +1,177 @@
+import type { Todo, TodoMetadata } from "../app/schemas/todo";
+import {
+  indexKeyPrefix,
+  parseStoredTodo,
+  todoKey,
+  todoKeyPrefix,
+  type KVStore,
+} from "./storage";
+
+// Inverted index of a list's todos, one empty KV entry per term and todo:
+//   index:<listId>:word:<word>:<todoId>  a word of the title
+//   index:<listId>:tag:<tag>:<todoId>    a tag
+//   index:<listId>:built                 marker, set once the index covers
+//                                        every todo of the list
+// KV lists keys by prefix, so prefix matching a term is a single list call.
+// Writes go through updateTodoIndex; lists without the marker hold todos
+// written before the index existed and are indexed on their first search.
+
+// Longer words are indexed by their start, which still matches by prefix
+const MAX_WORD_LENGTH = 50;
+
+const wordKeyPrefix = (listId: string) => `${indexKeyPrefix(listId)}word:`;
+const tagKeyPrefix = (listId: string) => `${indexKeyPrefix(listId)}tag:`;
+const builtKey = (listId: string) => `${indexKeyPrefix(listId)}built`;
+
+// Lowercased words of a title or query; anything but letters and digits
+// separates words, so no word contains the ":" used in keys
+export function tokenize(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map((word) => word.slice(0, MAX_WORD_LENGTH));
+  return [...new Set(words)];
+}
+
+// Terms of a query: runs of the characters a tag may contain, so a term can
+// match a whole tag such as "foo-bar" as well as the title words in it
+function queryTerms(q: string): string[] {
+  const terms = q
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_-]+/u)
+    .filter(Boolean);
+  return [...new Set(terms)];
+}
+
+// The fields of a todo that the index covers
+type IndexedTodo = Pick<Todo, "id" | "listId" | "title" | "tags">;
+
+function indexKeys(todo: IndexedTodo): string[] {
+  return [
+    ...tokenize(todo.title).map(
+      (word) => `${wordKeyPrefix(todo.listId)}${word}:${todo.id}`
+    ),
+    ...todo.tags.map((tag) => `${tagKeyPrefix(todo.listId)}${tag}:${todo.id}`),
+  ];
+}
+
+// Bring the index in line with a write: before is the stored todo (null when
+// created or restored), after the written one (null when deleted)
+export async function updateTodoIndex(
+  kv: KVStore,
+  before: IndexedTodo | null,
+  after: IndexedTodo | null
+) {
+  const beforeKeys = new Set(before ? indexKeys(before) : []);
+  const afterKeys = new Set(after ? indexKeys(after) : []);
+
+  await Promise.all([
+    ...[...beforeKeys]
+      .filter((key) => !afterKeys.has(key))
+      .map((key) => kv.delete(key)),
+    ...[...afterKeys]
+      .filter((key) => !beforeKeys.has(key))
+      .map((key) => kv.put(key, "")),
+  ]);
+}
+
+// Indexed fields of a stored record that no longer parses as a todo, as far
+// as they can still be read, so its index entries can be removed with it
+export function readIndexedFields(
+  listId: string,
+  id: string,
+  value: unknown
+): IndexedTodo {
+  const record =
+    typeof value === "object" && value !== null
+      ? (value as Record<string, unknown>)
+      : {};
+  return {
+    id,
+    listId,
+    title: typeof record.title === "string" ? record.title : "",
+    tags: Array.isArray(record.tags)
+      ? record.tags.filter((tag): tag is string => typeof tag === "string")
+      : [],
+  };
+}
+
+// Index every todo of a list once, for todos written before the index existed
+async function ensureIndexBuilt(kv: KVStore, listId: string) {
+  if ((await kv.get(builtKey(listId))) !== null) return;
+
+  const prefix = todoKeyPrefix(listId);
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list<TodoMetadata>({ prefix, cursor });
+    await Promise.all(
+      page.keys.map(async (key) => {
+        const id = key.name.slice(prefix.length);
+        const value = key.metadata ?? (await kv.get(key.name, "json"));
+        const todo = value === null ? null : parseStoredTodo(listId, id, value);
+        if (todo) await updateTodoIndex(kv, null, todo);
+      })
+    );
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  await kv.put(builtKey(listId), new Date().toISOString());
+}
+
+// Ids of the todos with a key under prefix, the todo id being the last part
+async function idsUnder(kv: KVStore, prefix: string): Promise<Set<string>> {
+  const ids = new Set<string>();
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix, cursor });
+    for (const key of page.keys) {
+      ids.add(key.name.slice(key.name.lastIndexOf(":") + 1));
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return ids;
+}
+
+const intersect = (a: Set<string>, b: Set<string>) =>
+  new Set([...a].filter((id) => b.has(id)));
+
+// Todos of a list matching every term of q, each as the prefix of a tag or
+// with every word in it the prefix of a title word, and carrying tag when
+// given. Returns at most limit todos, newest first.
+export async function searchTodos(
+  kv: KVStore,
+  listId: string,
+  { q = "", tag, limit }: { q?: string; tag?: string; limit: number }
+): Promise<Todo[]> {
+  await ensureIndexBuilt(kv, listId);
+
+  const matches = await Promise.all([
+    ...queryTerms(q).map(async (term) => {
+      const [byTag, ...byWords] = await Promise.all([
+        idsUnder(kv, `${tagKeyPrefix(listId)}${term}`),
+        ...tokenize(term).map((word) =>
+          idsUnder(kv, `${wordKeyPrefix(listId)}${word}`)
+        ),
+      ]);
+      const byTitle =
+        byWords.length > 0 ? byWords.reduce(intersect) : new Set<string>();
+      return new Set([...byTag, ...byTitle]);
+    }),
+    ...(tag ? [idsUnder(kv, `${tagKeyPrefix(listId)}${tag}:`)] : []),
+  ]);
+  if (matches.length === 0) return [];
+  const ids = matches.reduce(intersect);
+
+  // The index may briefly point at a todo that is gone; skip those
+  const todos = await Promise.all(
+    [...ids].map(async (id) => {
+      const value = await kv.get(todoKey(listId, id), "json");
+      return value === null ? null : parseStoredTodo(listId, id, value);
+    })
+  );
+  return todos
+    .filter((todo): todo is Todo => todo !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit);
+}
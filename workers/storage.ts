@@ -0,0 +1,305 @@
+import type { z } from "zod";
+import { toFieldErrors } from "../app/schemas/error";
+import {
+  DEFAULT_LIST_ID,
+  DEFAULT_LIST_NAME,
+  ListSchema,
+  type List,
+  type ListMetadata,
+} from "../app/schemas/list";
+import { isTimeZone } from "../app/lib/due-dates";
+import {
+  TodoSchema,
+  TrashedTodoSchema,
+  type Todo,
+  type TodoMetadata,
+  type TrashedTodo,
+  type TrashedTodoMetadata,
+} from "../app/schemas/todo";
+
+// TODOS_KV key layout:
+//   auth:...                              accounts and sessions, see auth.ts
+//   user:<userId>:list:<listId>           list records
+//   user:<userId>:todo:<listId>:<todoId>  todos, prefixed per list so a list
+//                                         is one range
+//   user:<userId>:trash:<listId>:<todoId> deleted todos, expiring after
+//                                         TRASH_TTL_SECONDS
+//   user:<userId>:index:<listId>:...     search index of a list, see
+//                                         search.ts
+//   user:<userId>:summary:daily           latest DailySummary of the
+//                                         scheduled overdue check
+//   user:<userId>:favorites:cities        "Name,Country" keys of the
+//                                         weather page's favourite cities
+//   user:<userId>:settings:time-zone      IANA time zone the account's
+//                                         pages were last opened in
+// Everything below works on a KVStore already scoped to one owner, so keys
+// are written here without the user:<userId>: part.
+export type KVStore = Pick<KVNamespace, "get" | "put" | "delete" | "list">;
+
+export const ownerKeyPrefix = (userId: string) => `user:${userId}:`;
+
+// View of a KV namespace where every key lives under a fixed prefix
+export function prefixedKV(kv: KVStore, prefix: string): KVStore {
+  return {
+    get: ((key: string, type?: any) =>
+      kv.get(`${prefix}${key}`, type)) as KVStore["get"],
+    put: (key, value, options) => kv.put(`${prefix}${key}`, value, options),
+    delete: (key) => kv.delete(`${prefix}${key}`),
+    list: (async (options: KVNamespaceListOptions = {}) => {
+      const page = await kv.list({
+        ...options,
+        prefix: `${prefix}${options.prefix ?? ""}`,
+      });
+      return {
+        ...page,
+        keys: page.keys.map((key) => ({
+          ...key,
+          name: key.name.slice(prefix.length),
+        })),
+      };
+    }) as KVStore["list"],
+  };
+}
+
+export const LIST_KEY_PREFIX = "list:";
+export const listKey = (listId: string) => `${LIST_KEY_PREFIX}${listId}`;
+export const TODO_KEY_PREFIX = "todo:";
+export const todoKeyPrefix = (listId: string) =>
+  `${TODO_KEY_PREFIX}${listId}:`;
+export const todoKey = (listId: string, id: string) =>
+  `${todoKeyPrefix(listId)}${id}`;
+export const TRASH_KEY_PREFIX = "trash:";
+export const trashKeyPrefix = (listId: string) =>
+  `${TRASH_KEY_PREFIX}${listId}:`;
+export const trashKey = (listId: string, id: string) =>
+  `${trashKeyPrefix(listId)}${id}`;
+
+// KV rejects key metadata whose JSON is larger than this
+const KV_METADATA_MAX_BYTES = 1024;
+
+// Keys listed and worked on at a time by the bulk helpers below. Every KV
+// call counts against the Workers subrequest limit, so a page is finished
+// before the next one is listed rather than firing a 1000-key page at once.
+const KV_BATCH_SIZE = 25;
+
+// Deleted todos stay restorable for 30 days
+export const TRASH_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export const indexKeyPrefix = (listId: string) => `index:${listId}:`;
+
+export const SUMMARY_KEY = "summary:daily";
+
+export const FAVORITE_CITIES_KEY = "favorites:cities";
+
+// Time zone the account's pages were last opened in, so writes and the
+// scheduled overdue check count days the way the todos page does
+const TIME_ZONE_KEY = "settings:time-zone";
+
+// Marker written once data stored before accounts existed has been claimed
+const CLAIMED_MARKER_KEY = "meta:unowned-todos-claimed";
+const OWNED_KEY_PREFIXES = ["auth:", "user:", "meta:"];
+
+// The default list exists even before it has been renamed and stored
+const defaultList: List = {
+  id: DEFAULT_LIST_ID,
+  name: DEFAULT_LIST_NAME,
+  createdAt: new Date(0).toISOString(),
+};
+
+// Validate a record read back from KV, reporting corrupt entries
+function parseStoredRecord<T>(
+  schema: z.ZodType<T>,
+  key: string,
+  value: unknown,
+  ids: Record<string, string>
+): T | null {
+  const result = schema.safeParse(
+    value && typeof value === "object" ? { ...value, ...ids } : value
+  );
+  if (!result.success) {
+    console.error(
+      `Corrupt record in KV (key: ${key}):`,
+      toFieldErrors(result.error)
+    );
+    return null;
+  }
+  return result.data;
+}
+
+export function parseStoredTodo(
+  listId: string,
+  id: string,
+  value: unknown
+): Todo | null {
+  return parseStoredRecord(TodoSchema, todoKey(listId, id), value, {
+    id,
+    listId,
+  });
+}
+
+export function parseTrashedTodo(
+  listId: string,
+  id: string,
+  value: unknown
+): TrashedTodo | null {
+  return parseStoredRecord(TrashedTodoSchema, trashKey(listId, id), value, {
+    id,
+    listId,
+  });
+}
+
+export function parseStoredList(id: string, value: unknown): List | null {
+  return parseStoredRecord(ListSchema, listKey(id), value, { id });
+}
+
+// Metadata to mirror into a key, or undefined when the record is too large
+// for KV to accept it. A title and tags in non-Latin scripts can take several
+// bytes per character, so a valid record may not fit; such keys are listed
+// without metadata and read one by one.
+function fitMetadata<T>(metadata: T): T | undefined {
+  const bytes = new TextEncoder().encode(JSON.stringify(metadata)).length;
+  return bytes <= KV_METADATA_MAX_BYTES ? metadata : undefined;
+}
+
+// Store a TODO, mirroring its fields into the key metadata for listing when
+// they fit
+export async function putTodo(kv: KVStore, todo: Todo) {
+  const { id, listId, ...metadata } = todo;
+  await kv.put(todoKey(listId, id), JSON.stringify(todo), {
+    metadata: fitMetadata(metadata satisfies TodoMetadata),
+  });
+}
+
+// Move a TODO into the trash, where KV expires it after TRASH_TTL_SECONDS
+export async function trashTodo(kv: KVStore, todo: Todo): Promise<TrashedTodo> {
+  const deletedAt = new Date();
+  const trashed: TrashedTodo = {
+    ...todo,
+    deletedAt: deletedAt.toISOString(),
+    expiresAt: new Date(
+      deletedAt.getTime() + TRASH_TTL_SECONDS * 1000
+    ).toISOString(),
+  };
+  const { id, listId, ...metadata } = trashed;
+  await kv.put(trashKey(listId, id), JSON.stringify(trashed), {
+    expirationTtl: TRASH_TTL_SECONDS,
+    metadata: fitMetadata(metadata satisfies TrashedTodoMetadata),
+  });
+  await kv.delete(todoKey(listId, id));
+  return trashed;
+}
+
+export async function putList(kv: KVStore, list: List) {
+  const { id, ...metadata } = list;
+  await kv.put(listKey(id), JSON.stringify(list), {
+    metadata: metadata satisfies ListMetadata,
+  });
+}
+
+// Read a list; the default list falls back to its built-in record
+export async function getList(
+  kv: KVStore,
+  listId: string
+): Promise<List | null> {
+  const value = await kv.get(listKey(listId), "json");
+  if (value === null) {
+    return listId === DEFAULT_LIST_ID ? defaultList : null;
+  }
+  return parseStoredList(listId, value);
+}
+
+// Read every list, default list first. Lists are few, so a single KV list
+// call is enough; records come from key metadata.
+export async function getAllLists(kv: KVStore): Promise<List[]> {
+  const page = await kv.list<ListMetadata>({ prefix: LIST_KEY_PREFIX });
+  const lists = page.keys
+    .map((key) =>
+      parseStoredList(key.name.slice(LIST_KEY_PREFIX.length), key.metadata)
+    )
+    .filter((list): list is List => list !== null);
+
+  const stored = lists.find((list) => list.id === DEFAULT_LIST_ID);
+  return [
+    stored ?? defaultList,
+    ...lists
+      .filter((list) => list.id !== DEFAULT_LIST_ID)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+  ];
+}
+
+// The account's time zone, or undefined until a page has been opened from a
+// known location, in which case days are counted in UTC
+export async function getTimeZone(kv: KVStore): Promise<string | undefined> {
+  const value = await kv.get(TIME_ZONE_KEY);
+  return value !== null && isTimeZone(value) ? value : undefined;
+}
+
+// Only written when it changed, as it is checked on every page view
+export async function rememberTimeZone(kv: KVStore, timeZone: string) {
+  if (!isTimeZone(timeZone)) return;
+  if ((await kv.get(TIME_ZONE_KEY)) === timeZone) return;
+  await kv.put(TIME_ZONE_KEY, timeZone);
+}
+
+// Delete every key under a prefix, one small KV page at a time. Returns the
+// names of the deleted keys.
+export async function deleteByPrefix(
+  kv: KVStore,
+  prefix: string
+): Promise<string[]> {
+  const deleted: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list({ prefix, cursor, limit: KV_BATCH_SIZE });
+    await Promise.all(page.keys.map((key) => kv.delete(key.name)));
+    deleted.push(...page.keys.map((key) => key.name));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return deleted;
+}
+
+// Data written before accounts existed is unowned: todos under their bare id
+// (from before lists) and list:/todo: keys at the top level. No account sees
+// it until an operator hands all of it to one account through the admin API.
+// Returns how many keys were moved, or null when the migration already ran;
+// the marker key keeps it a one-off. Keys are copied before they are deleted
+// and the marker is only set at the end, so a run cut short can be repeated
+// and moves the rest.
+export async function claimUnownedTodos(
+  namespace: KVNamespace,
+  kv: KVStore
+): Promise<number | null> {
+  if (await namespace.get(CLAIMED_MARKER_KEY)) return null;
+
+  let moved = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await namespace.list({ cursor, limit: KV_BATCH_SIZE });
+    const unowned = page.keys.filter(
+      (key) => !OWNED_KEY_PREFIXES.some((prefix) => key.name.startsWith(prefix))
+    );
+    await Promise.all(
+      unowned.map(async (key) => {
+        if (!key.name.includes(":")) {
+          const value = await namespace.get(key.name, "json");
+          const todo = parseStoredTodo(DEFAULT_LIST_ID, key.name, value);
+          // Corrupt records stay where they are so they can be inspected
+          if (!todo) return;
+          await putTodo(kv, todo);
+        } else {
+          const { value, metadata } = await namespace.getWithMetadata(
+            key.name
+          );
+          if (value === null) return;
+          await kv.put(key.name, value, { metadata });
+        }
+        await namespace.delete(key.name);
+        moved++;
+      })
+    );
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  await namespace.put(CLAIMED_MARKER_KEY, new Date().toISOString());
+  return moved;
+}
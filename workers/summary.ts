@@ -0,0 +1,152 @@
+import { createRoute } from "@hono/zod-openapi";
+import {
+  DailySummarySchema,
+  type DailySummary,
+  type Todo,
+  type TodoEvent,
+  type TodoMetadata,
+} from "../app/schemas/todo";
+import { isDueToday, isOverdue, toIsoDate } from "../app/lib/due-dates";
+import type { Env, UserEnv } from "./env";
+import {
+  listUserIds,
+  requireUser,
+  sessionSecurity,
+  unauthorizedResponse,
+} from "./auth";
+import { createApi, errorResponse, jsonContent } from "./openapi";
+import { publishTodoEvents } from "./events";
+import {
+  SUMMARY_KEY,
+  TODO_KEY_PREFIX,
+  getTimeZone,
+  ownerKeyPrefix,
+  parseStoredTodo,
+  prefixedKV,
+  putTodo,
+  todoKey,
+  type KVStore,
+} from "./storage";
+
+// A summary is only shown while it is fresh; missed runs let it expire
+const SUMMARY_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+// Todo keys of an account, see the layout in storage.ts
+const TODO_KEY_PATTERN = /^todo:([^:]+):([^:]+)$/;
+
+// Write a changed overdue flag like any other change, bumping the version so
+// ETag clients notice. The listing may be out of date by now: when the todo
+// has changed since, the user's own write already set the flag and nothing
+// is written.
+async function writeOverdueFlag(
+  kv: KVStore,
+  listed: Todo,
+  overdue: boolean
+): Promise<Todo | null> {
+  const value = await kv.get(todoKey(listed.listId, listed.id), "json");
+  const current =
+    value === null ? null : parseStoredTodo(listed.listId, listed.id, value);
+  if (!current || current.version !== listed.version) return null;
+
+  const updated: Todo = { ...current, overdue, version: current.version + 1 };
+  await putTodo(kv, updated);
+  return updated;
+}
+
+// Scheduled overdue check. Walks every account's todos, flags open todos
+// whose due date has passed and writes each account a summary for the day
+// of the run in the account's time zone, as the todos page counts days. Records come from key metadata, so only todos whose flag
+// changes are read again and written; their open pages are told through the
+// live update stream.
+export async function writeDailySummaries(env: Env, now: Date) {
+  const userIds = await listUserIds(env.TODOS_KV);
+
+  for (const userId of userIds) {
+    const kv = prefixedKV(env.TODOS_KV, ownerKeyPrefix(userId));
+    const today = toIsoDate(now, await getTimeZone(kv));
+    const summary: DailySummary = {
+      date: today,
+      generatedAt: now.toISOString(),
+      overdue: 0,
+      newlyOverdue: 0,
+      dueToday: 0,
+    };
+    const events: TodoEvent[] = [];
+
+    let cursor: string | undefined;
+    do {
+      const page = await kv.list<TodoMetadata>({
+        prefix: TODO_KEY_PREFIX,
+        cursor,
+      });
+      await Promise.all(
+        page.keys.map(async (key) => {
+          const [, listId, id] = key.name.match(TODO_KEY_PATTERN) ?? [];
+          if (!listId) return;
+
+          const value = key.metadata ?? (await kv.get(key.name, "json"));
+          const todo =
+            value === null ? null : parseStoredTodo(listId, id, value);
+          if (!todo) return;
+
+          const overdue = isOverdue(todo, today);
+          if (overdue) summary.overdue++;
+          if (!todo.completed && isDueToday(todo, today)) summary.dueToday++;
+          if (overdue === todo.overdue) return;
+
+          const updated = await writeOverdueFlag(kv, todo, overdue);
+          if (!updated) return;
+          if (overdue) summary.newlyOverdue++;
+          events.push({ type: "updated", todo: updated });
+        })
+      );
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    await kv.put(SUMMARY_KEY, JSON.stringify(summary), {
+      expirationTtl: SUMMARY_TTL_SECONDS,
+    });
+    await publishTodoEvents(env, userId, events);
+  }
+  return userIds.length;
+}
+
+// API endpoint for the daily summary, mounted at /api/summary
+export const summaryApi = createApi<UserEnv>();
+
+summaryApi.use("*", requireUser);
+
+const getSummaryRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Todos"],
+  security: sessionSecurity,
+  summary: "Get the latest daily summary",
+  description:
+    "Written by the scheduled overdue check. Counts are as of generatedAt and do not follow later changes.",
+  responses: {
+    200: jsonContent(DailySummarySchema, "The latest summary"),
+    401: unauthorizedResponse,
+    404: errorResponse("No summary has been written in the last two days"),
+    500: errorResponse("The summary could not be read from KV"),
+  },
+});
+
+summaryApi.openapi(getSummaryRoute, async (c) => {
+  try {
+    const value = await c.get("kv").get(SUMMARY_KEY, "json");
+    if (value === null) {
+      return c.json({ error: "No summary yet" }, 404);
+    }
+
+    const summary = DailySummarySchema.safeParse(value);
+    if (!summary.success) {
+      console.error("Corrupt daily summary in KV:", summary.error);
+      return c.json({ error: "Stored summary is corrupt" }, 500);
+    }
+    return c.json(summary.data, 200);
+  } catch (error) {
+    console.error("Error fetching summary:", error);
+    return c.json({ error: "Failed to fetch summary" }, 500);
+  }
+});
@@ -0,0 +1,596 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import { ListIdSchema, type List } from "../app/schemas/list";
+import {
+  DEFAULT_TODO_PRIORITY,
+  TodoBatchResponseSchema,
+  TodoBatchSchema,
+  TodoCreateSchema,
+  TodoIdSchema,
+  TodoSearchQuerySchema,
+  TodoPageSchema,
+  TodoSchema,
+  TodoUpdateSchema,
+  type Todo,
+  type TodoBatchResult,
+  type TodoCreate,
+  type TodoEvent,
+  type TodoMetadata,
+  type TodoUpdate,
+} from "../app/schemas/todo";
+import type { FieldErrors } from "../app/schemas/error";
+import { isOverdue, toIsoDate } from "../app/lib/due-dates";
+import type { UserEnv } from "./env";
+import { requireUser, sessionSecurity, unauthorizedResponse } from "./auth";
+import {
+  createApi,
+  errorResponse,
+  jsonBody,
+  jsonContent,
+  validationErrorResponse,
+} from "./openapi";
+import {
+  getList,
+  getTimeZone,
+  parseStoredTodo,
+  parseTrashedTodo,
+  putTodo,
+  todoKey,
+  todoKeyPrefix,
+  trashKey,
+  trashTodo,
+  type KVStore,
+} from "./storage";
+import { readIndexedFields, searchTodos, updateTodoIndex } from "./search";
+import { publishTodoEvents } from "./events";
+
+type TodosEnv = UserEnv & { Variables: { list: List } };
+
+export const ListParamsSchema = z.object({
+  listId: ListIdSchema.openapi({ param: { name: "listId", in: "path" } }),
+});
+
+const TodoParamsSchema = ListParamsSchema.extend({
+  id: TodoIdSchema.openapi({ param: { name: "id", in: "path" } }),
+});
+
+const DeleteResultSchema = z.object({ success: z.literal(true) });
+
+const IfMatchHeadersSchema = z.object({
+  "if-match": z.string().optional().openapi({
+    description:
+      "ETag the client last saw; the request fails with 412 when the todo has changed since",
+  }),
+});
+
+const listNotFoundResponse = errorResponse("No list exists with this id");
+const todoNotFoundResponse = errorResponse(
+  "No list or todo exists with this id"
+);
+
+const etagHeaders = {
+  ETag: {
+    description: "Current version of the todo, to send back in If-Match",
+    schema: { type: "string" as const },
+  },
+};
+
+const todoResponse = (description: string) => ({
+  ...jsonContent(TodoSchema, description),
+  headers: etagHeaders,
+});
+
+const staleTodoResponse = todoResponse(
+  "If-Match does not match the stored todo, which is returned instead"
+);
+
+// Strong entity tag of a todo, derived from its version counter
+const todoETag = (todo: Todo) => `"${todo.version}"`;
+
+// If-Match as in RFC 9110: a missing header always passes and "*" passes for
+// any stored todo. Tags are compared strongly, so weak tags never match.
+function preconditionFails(ifMatch: string | undefined, todo: Todo) {
+  if (ifMatch === undefined || ifMatch.trim() === "*") return false;
+  const etag = todoETag(todo);
+  return !ifMatch.split(",").some((tag) => tag.trim() === etag);
+}
+
+// Keep the flag of the scheduled overdue check current when a write changes
+// the due date or completion, using the same day as the check
+const withOverdueFlag = async (kv: KVStore, todo: Todo): Promise<Todo> => ({
+  ...todo,
+  overdue: isOverdue(todo, toIsoDate(new Date(), await getTimeZone(kv))),
+});
+
+// Outcomes of the writes below, shared by the single-todo routes and the
+// batch route. Statuses are the ones the single-todo routes answer with.
+type Stale = { status: 412; todo: Todo };
+type Failure<S extends 404 | 500> = { status: S; error: string };
+type Invalid = { status: 422; error: string; fields: FieldErrors };
+
+async function createTodo(
+  kv: KVStore,
+  list: List,
+  body: TodoCreate
+): Promise<Todo> {
+  const newTodo = await withOverdueFlag(kv, {
+    id: crypto.randomUUID(),
+    listId: list.id,
+    title: body.title,
+    completed: body.completed ?? false,
+    priority: body.priority ?? DEFAULT_TODO_PRIORITY,
+    createdAt: new Date().toISOString(),
+    dueAt: body.dueAt,
+    tags: body.tags ?? [],
+    overdue: false,
+    version: 1,
+  });
+  await putTodo(kv, newTodo);
+  await updateTodoIndex(kv, null, newTodo);
+  return newTodo;
+}
+
+// Update a TODO, moving it when the update names another list
+async function updateTodo(
+  kv: KVStore,
+  list: List,
+  id: string,
+  update: TodoUpdate,
+  ifMatch: string | undefined
+): Promise<{ status: 200; todo: Todo } | Stale | Invalid | Failure<404 | 500>> {
+  const { listId: targetListId, dueAt, ...changes } = update;
+
+  const value = await kv.get(todoKey(list.id, id), "json");
+  if (value === null) {
+    return { status: 404, error: "TODO not found" };
+  }
+
+  const existing = parseStoredTodo(list.id, id, value);
+  if (!existing) {
+    return { status: 500, error: "Stored TODO is corrupt" };
+  }
+  if (preconditionFails(ifMatch, existing)) {
+    return { status: 412, todo: existing };
+  }
+
+  const moving = targetListId !== undefined && targetListId !== list.id;
+  if (moving && !(await getList(kv, targetListId))) {
+    return {
+      status: 422,
+      error: "Validation failed",
+      fields: { listId: ["List not found"] },
+    };
+  }
+
+  const updatedTodo = await withOverdueFlag(kv, {
+    ...existing,
+    ...changes,
+    // null clears the due date
+    dueAt: dueAt === undefined ? existing.dueAt : dueAt ?? undefined,
+    listId: moving ? targetListId : list.id,
+    updatedAt: new Date().toISOString(),
+    version: existing.version + 1,
+  });
+  await putTodo(kv, updatedTodo);
+  if (moving) {
+    await kv.delete(todoKey(list.id, id));
+  }
+  await updateTodoIndex(kv, existing, updatedTodo);
+  return { status: 200, todo: updatedTodo };
+}
+
+// Move a TODO to the trash. Without If-Match a missing todo counts as
+// deleted, with removed set to false so nothing is announced for it; corrupt
+// records cannot be restored, so they are dropped.
+async function deleteTodo(
+  kv: KVStore,
+  list: List,
+  id: string,
+  ifMatch: string | undefined
+): Promise<{ status: 200; removed: boolean } | Stale | Failure<404>> {
+  const value = await kv.get(todoKey(list.id, id), "json");
+  if (value === null) {
+    return ifMatch === undefined
+      ? { status: 200, removed: false }
+      : { status: 404, error: "TODO not found" };
+  }
+
+  const existing = parseStoredTodo(list.id, id, value);
+  if (!existing) {
+    await kv.delete(todoKey(list.id, id));
+    await updateTodoIndex(kv, readIndexedFields(list.id, id, value), null);
+    return { status: 200, removed: true };
+  }
+  if (preconditionFails(ifMatch, existing)) {
+    return { status: 412, todo: existing };
+  }
+
+  await trashTodo(kv, existing);
+  await updateTodoIndex(kv, existing, null);
+  return { status: 200, removed: true };
+}
+
+// API endpoints for the TODOs of one list, mounted at /api/lists/:listId/todos
+export const todosApi = createApi<TodosEnv>();
+
+todosApi.use("*", requireUser);
+
+// Resolve the list every route below operates on
+todosApi.use("*", async (c, next) => {
+  const listId = c.req.param("listId") ?? "";
+  const list = ListIdSchema.safeParse(listId).success
+    ? await getList(c.get("kv"), listId)
+    : null;
+  if (!list) {
+    return c.json({ error: "List not found" }, 404);
+  }
+  c.set("list", list);
+  await next();
+});
+
+const listTodosRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Todos"],
+  security: sessionSecurity,
+  summary: "List or search the todos of a list",
+  description:
+    "Returns one page of todos in KV key order. Pass next_cursor back as cursor to fetch the following page. With q or tag, returns up to limit matching todos, newest first, in a single page.",
+  request: { params: ListParamsSchema, query: TodoSearchQuerySchema },
+  responses: {
+    200: jsonContent(TodoPageSchema, "A page of todos"),
+    401: unauthorizedResponse,
+    404: listNotFoundResponse,
+    422: validationErrorResponse,
+    500: errorResponse("Todos could not be read from KV"),
+  },
+});
+
+// Get one page of TODOs in key order. Records are served from key metadata;
+// only entries written before metadata existed, or too large for it, need a
+// separate read.
+todosApi.openapi(listTodosRoute, async (c) => {
+  const list = c.get("list");
+  const { limit, cursor, q, tag } = c.req.valid("query");
+
+  try {
+    if (q || tag) {
+      const todos = await searchTodos(c.get("kv"), list.id, { q, tag, limit });
+      return c.json({ todos, next_cursor: null }, 200);
+    }
+
+    const prefix = todoKeyPrefix(list.id);
+    const page = await c.get("kv").list<TodoMetadata>({
+      prefix,
+      limit,
+      cursor,
+    });
+    const todos = await Promise.all(
+      page.keys.map(async (key) => {
+        const id = key.name.slice(prefix.length);
+        if (key.metadata) return parseStoredTodo(list.id, id, key.metadata);
+        const value = await c.get("kv").get(key.name, "json");
+        return value === null ? null : parseStoredTodo(list.id, id, value);
+      })
+    );
+    return c.json(
+      {
+        todos: todos.filter((todo): todo is Todo => todo !== null),
+        next_cursor: page.list_complete ? null : page.cursor,
+      },
+      200
+    );
+  } catch (error) {
+    console.error("Error fetching TODOs:", error);
+    return c.json({ error: "Failed to fetch TODOs" }, 500);
+  }
+});
+
+const createTodoRoute = createRoute({
+  method: "post",
+  path: "/",
+  tags: ["Todos"],
+  security: sessionSecurity,
+  summary: "Create a todo in a list",
+  request: { params: ListParamsSchema, body: jsonBody(TodoCreateSchema) },
+  responses: {
+    201: todoResponse("The created todo"),
+    401: unauthorizedResponse,
+    404: listNotFoundResponse,
+    422: validationErrorResponse,
+    500: errorResponse("The todo could not be stored"),
+  },
+});
+
+// Create a new TODO
+todosApi.openapi(createTodoRoute, async (c) => {
+  try {
+    const newTodo = await createTodo(
+      c.get("kv"),
+      c.get("list"),
+      c.req.valid("json")
+    );
+    await publishTodoEvents(c.env, c.get("user").id, [
+      { type: "created", todo: newTodo },
+    ]);
+    return c.json(newTodo, 201, { ETag: todoETag(newTodo) });
+  } catch (error) {
+    console.error("Error creating TODO:", error);
+    return c.json({ error: "Failed to create TODO" }, 500);
+  }
+});
+
+const getTodoRoute = createRoute({
+  method: "get",
+  path: "/{id}",
+  tags: ["Todos"],
+  security: sessionSecurity,
+  summary: "Get a todo",
+  request: { params: TodoParamsSchema },
+  responses: {
+    200: todoResponse("The todo"),
+    401: unauthorizedResponse,
+    404: todoNotFoundResponse,
+    500: errorResponse("The stored todo is corrupt or could not be read"),
+  },
+});
+
+// Get a single TODO together with its ETag
+todosApi.openapi(getTodoRoute, async (c) => {
+  try {
+    const list = c.get("list");
+    const { id } = c.req.valid("param");
+
+    const value = await c.get("kv").get(todoKey(list.id, id), "json");
+    if (value === null) {
+      return c.json({ error: "TODO not found" }, 404);
+    }
+
+    const todo = parseStoredTodo(list.id, id, value);
+    if (!todo) {
+      return c.json({ error: "Stored TODO is corrupt" }, 500);
+    }
+    return c.json(todo, 200, { ETag: todoETag(todo) });
+  } catch (error) {
+    console.error("Error fetching TODO:", error);
+    return c.json({ error: "Failed to fetch TODO" }, 500);
+  }
+});
+
+const updateTodoRoute = createRoute({
+  method: "put",
+  path: "/{id}",
+  tags: ["Todos"],
+  security: sessionSecurity,
+  summary: "Update a todo or move it to another list",
+  description:
+    "A listId different from the current list moves the todo into that list. Send the todo's ETag in If-Match to avoid overwriting changes made elsewhere.",
+  request: {
+    params: TodoParamsSchema,
+    headers: IfMatchHeadersSchema,
+    body: jsonBody(TodoUpdateSchema),
+  },
+  responses: {
+    200: todoResponse("The updated todo"),
+    401: unauthorizedResponse,
+    404: todoNotFoundResponse,
+    412: staleTodoResponse,
+    422: validationErrorResponse,
+    500: errorResponse("The stored todo is corrupt or could not be written"),
+  },
+});
+
+todosApi.openapi(updateTodoRoute, async (c) => {
+  try {
+    const result = await updateTodo(
+      c.get("kv"),
+      c.get("list"),
+      c.req.valid("param").id,
+      c.req.valid("json"),
+      c.req.valid("header")["if-match"]
+    );
+    if (result.status === 200) {
+      await publishTodoEvents(c.env, c.get("user").id, [
+        { type: "updated", todo: result.todo },
+      ]);
+    }
+    switch (result.status) {
+      case 200:
+      case 412:
+        return c.json(result.todo, result.status, {
+          ETag: todoETag(result.todo),
+        });
+      case 422:
+        return c.json({ error: result.error, fields: result.fields }, 422);
+      default:
+        return c.json({ error: result.error }, result.status);
+    }
+  } catch (error) {
+    console.error("Error updating TODO:", error);
+    return c.json({ error: "Failed to update TODO" }, 500);
+  }
+});
+
+const deleteTodoRoute = createRoute({
+  method: "delete",
+  path: "/{id}",
+  tags: ["Todos"],
+  security: sessionSecurity,
+  summary: "Move a todo to the trash",
+  description:
+    "The todo can be restored until it expires from the trash. Without If-Match deleting a missing todo succeeds. With If-Match the todo must exist and match the ETag.",
+  request: { params: TodoParamsSchema, headers: IfMatchHeadersSchema },
+  responses: {
+    200: jsonContent(DeleteResultSchema, "The todo was moved to the trash"),
+    401: unauthorizedResponse,
+    404: todoNotFoundResponse,
+    412: staleTodoResponse,
+    500: errorResponse("The todo could not be deleted"),
+  },
+});
+
+todosApi.openapi(deleteTodoRoute, async (c) => {
+  try {
+    const list = c.get("list");
+    const { id } = c.req.valid("param");
+    const result = await deleteTodo(
+      c.get("kv"),
+      list,
+      id,
+      c.req.valid("header")["if-match"]
+    );
+    switch (result.status) {
+      case 200:
+        if (result.removed) {
+          await publishTodoEvents(c.env, c.get("user").id, [
+            { type: "deleted", listId: list.id, id },
+          ]);
+        }
+        return c.json({ success: true as const }, 200);
+      case 412:
+        return c.json(result.todo, 412, { ETag: todoETag(result.todo) });
+      default:
+        return c.json({ error: result.error }, 404);
+    }
+  } catch (error) {
+    console.error("Error deleting TODO:", error);
+    return c.json({ error: "Failed to delete TODO" }, 500);
+  }
+});
+
+const restoreTodoRoute = createRoute({
+  method: "post",
+  path: "/{id}/restore",
+  tags: ["Todos"],
+  security: sessionSecurity,
+  summary: "Restore a todo from the trash",
+  description:
+    "Puts a deleted todo back into its list. Restoring counts as a change, so the version goes up.",
+  request: { params: TodoParamsSchema },
+  responses: {
+    200: todoResponse("The restored todo"),
+    401: unauthorizedResponse,
+    404: errorResponse(
+      "The list does not exist or the todo is not in the trash"
+    ),
+    409: errorResponse("A todo with this id already exists in the list"),
+    500: errorResponse("The trashed todo is corrupt or could not be restored"),
+  },
+});
+
+// Restore a TODO from the trash
+todosApi.openapi(restoreTodoRoute, async (c) => {
+  try {
+    const list = c.get("list");
+    const { id } = c.req.valid("param");
+
+    const value = await c.get("kv").get(trashKey(list.id, id), "json");
+    if (value === null) {
+      return c.json({ error: "TODO not found in trash" }, 404);
+    }
+
+    const trashed = parseTrashedTodo(list.id, id, value);
+    if (!trashed) {
+      return c.json({ error: "Trashed TODO is corrupt" }, 500);
+    }
+    if ((await c.get("kv").get(todoKey(list.id, id))) !== null) {
+      return c.json({ error: "TODO already exists" }, 409);
+    }
+
+    const { deletedAt, expiresAt, ...todo } = trashed;
+    const restoredTodo = await withOverdueFlag(c.get("kv"), {
+      ...todo,
+      updatedAt: new Date().toISOString(),
+      version: todo.version + 1,
+    });
+    await putTodo(c.get("kv"), restoredTodo);
+    await c.get("kv").delete(trashKey(list.id, id));
+    await updateTodoIndex(c.get("kv"), null, restoredTodo);
+    await publishTodoEvents(c.env, c.get("user").id, [
+      { type: "created", todo: restoredTodo },
+    ]);
+    return c.json(restoredTodo, 200, { ETag: todoETag(restoredTodo) });
+  } catch (error) {
+    console.error("Error restoring TODO:", error);
+    return c.json({ error: "Failed to restore TODO" }, 500);
+  }
+});
+
+const batchRoute = createRoute({
+  method: "post",
+  path: "/batch",
+  tags: ["Todos"],
+  security: sessionSecurity,
+  summary: "Apply several todo operations at once",
+  description:
+    "Runs create, update and delete operations in order and reports a result per operation. Operations are not atomic: a failing operation does not undo earlier ones or stop later ones. Deleting a missing todo is reported as 404, with or without a version.",
+  request: { params: ListParamsSchema, body: jsonBody(TodoBatchSchema) },
+  responses: {
+    200: jsonContent(TodoBatchResponseSchema, "One result per operation"),
+    401: unauthorizedResponse,
+    404: listNotFoundResponse,
+    422: validationErrorResponse,
+    500: errorResponse("The operations could not be applied"),
+  },
+});
+
+// Apply the operations one after another; KV has no transactions, so each
+// result stands on its own
+todosApi.openapi(batchRoute, async (c) => {
+  try {
+    const kv = c.get("kv");
+    const list = c.get("list");
+    const results: TodoBatchResult[] = [];
+
+    for (const operation of c.req.valid("json").operations) {
+      if (operation.op === "create") {
+        const todo = await createTodo(kv, list, operation.todo);
+        results.push({ op: "create", id: todo.id, status: 201, todo });
+        continue;
+      }
+
+      const { op, id, version } = operation;
+      const ifMatch = version === undefined ? undefined : `"${version}"`;
+      if (op === "update") {
+        const result = await updateTodo(
+          kv,
+          list,
+          id,
+          operation.changes,
+          ifMatch
+        );
+        results.push({ op, id, ...result });
+        continue;
+      }
+
+      // A batch names the todos it expects to find, so a missing one is
+      // reported rather than counted as deleted
+      const result = await deleteTodo(kv, list, id, ifMatch);
+      if (result.status === 200) {
+        results.push(
+          result.removed
+            ? { op, id, status: 200 }
+            : { op, id, status: 404, error: "TODO not found" }
+        );
+      } else {
+        results.push({ op, id, ...result });
+      }
+    }
+
+    await publishTodoEvents(
+      c.env,
+      c.get("user").id,
+      results.flatMap((result): TodoEvent[] => {
+        if (result.status >= 300) return [];
+        if (result.op === "delete") {
+          return [{ type: "deleted", listId: list.id, id: result.id }];
+        }
+        const type = result.op === "create" ? "created" : "updated";
+        return result.todo ? [{ type, todo: result.todo }] : [];
+      })
+    );
+    return c.json({ results }, 200);
+  } catch (error) {
+    console.error("Error applying TODO batch:", error);
+    return c.json({ error: "Failed to apply TODO batch" }, 500);
+  }
+});
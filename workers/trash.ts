@@ -0,0 +1,146 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import {
+  TodoIdSchema,
+  TodoListQuerySchema,
+  TrashPageSchema,
+  type TrashedTodo,
+  type TrashedTodoMetadata,
+} from "../app/schemas/todo";
+import type { UserEnv } from "./env";
+import { requireUser, sessionSecurity, unauthorizedResponse } from "./auth";
+import {
+  createApi,
+  errorResponse,
+  jsonContent,
+  validationErrorResponse,
+} from "./openapi";
+import {
+  TRASH_KEY_PREFIX,
+  deleteByPrefix,
+  parseTrashedTodo,
+  trashKey,
+} from "./storage";
+import { ListParamsSchema } from "./todos";
+
+const TrashParamsSchema = ListParamsSchema.extend({
+  id: TodoIdSchema.openapi({ param: { name: "id", in: "path" } }),
+});
+
+const PurgeResultSchema = z.object({
+  success: z.literal(true),
+  deletedTodos: z.number().int().describe("Number of todos purged"),
+});
+
+// API endpoints for deleted todos across all lists, mounted at /api/trash.
+// Todos are moved here by DELETE and restored through the todos API.
+export const trashApi = createApi<UserEnv>();
+
+trashApi.use("*", requireUser);
+
+const listTrashRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Trash"],
+  security: sessionSecurity,
+  summary: "List the todos in the trash",
+  description:
+    "Returns one page of deleted todos from every list in KV key order. Pass next_cursor back as cursor to fetch the following page.",
+  request: { query: TodoListQuerySchema },
+  responses: {
+    200: jsonContent(TrashPageSchema, "A page of deleted todos"),
+    401: unauthorizedResponse,
+    422: validationErrorResponse,
+    500: errorResponse("The trash could not be read from KV"),
+  },
+});
+
+// Trash keys are trash:<listId>:<todoId>; records come from key metadata,
+// or from the value when they were too large for it
+trashApi.openapi(listTrashRoute, async (c) => {
+  const { limit, cursor } = c.req.valid("query");
+
+  try {
+    const page = await c.get("kv").list<TrashedTodoMetadata>({
+      prefix: TRASH_KEY_PREFIX,
+      limit,
+      cursor,
+    });
+    const todos = await Promise.all(
+      page.keys.map(async (key) => {
+        const [listId, id] = key.name
+          .slice(TRASH_KEY_PREFIX.length)
+          .split(":");
+        if (key.metadata) return parseTrashedTodo(listId, id, key.metadata);
+        const value = await c.get("kv").get(key.name, "json");
+        return value === null ? null : parseTrashedTodo(listId, id, value);
+      })
+    );
+    return c.json(
+      {
+        todos: todos.filter((todo): todo is TrashedTodo => todo !== null),
+        next_cursor: page.list_complete ? null : page.cursor,
+      },
+      200
+    );
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    return c.json({ error: "Failed to fetch trash" }, 500);
+  }
+});
+
+const emptyTrashRoute = createRoute({
+  method: "delete",
+  path: "/",
+  tags: ["Trash"],
+  security: sessionSecurity,
+  summary: "Empty the trash",
+  responses: {
+    200: jsonContent(PurgeResultSchema, "Every todo in the trash was purged"),
+    401: unauthorizedResponse,
+    500: errorResponse("The trash could not be emptied"),
+  },
+});
+
+trashApi.openapi(emptyTrashRoute, async (c) => {
+  try {
+    const deleted = await deleteByPrefix(c.get("kv"), TRASH_KEY_PREFIX);
+    return c.json(
+      { success: true as const, deletedTodos: deleted.length },
+      200
+    );
+  } catch (error) {
+    console.error("Error emptying trash:", error);
+    return c.json({ error: "Failed to empty trash" }, 500);
+  }
+});
+
+const purgeTodoRoute = createRoute({
+  method: "delete",
+  path: "/{listId}/{id}",
+  tags: ["Trash"],
+  security: sessionSecurity,
+  summary: "Delete a todo in the trash for good",
+  request: { params: TrashParamsSchema },
+  responses: {
+    200: jsonContent(PurgeResultSchema, "The todo was purged"),
+    401: unauthorizedResponse,
+    404: errorResponse("The todo is not in the trash"),
+    422: validationErrorResponse,
+    500: errorResponse("The todo could not be purged"),
+  },
+});
+
+trashApi.openapi(purgeTodoRoute, async (c) => {
+  try {
+    const { listId, id } = c.req.valid("param");
+    const key = trashKey(listId, id);
+    if ((await c.get("kv").get(key)) === null) {
+      return c.json({ error: "TODO not found in trash" }, 404);
+    }
+    await c.get("kv").delete(key);
+    return c.json({ success: true as const, deletedTodos: 1 }, 200);
+  } catch (error) {
+    console.error("Error purging TODO:", error);
+    return c.json({ error: "Failed to purge TODO" }, 500);
+  }
+});
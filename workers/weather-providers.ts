@@ -0,0 +1,193 @@
+import {
+  WeatherDataSchema,
+  type Units,
+  type WeatherData,
+  type WeatherQuery,
+} from "../app/schemas/weather";
+import { toFieldErrors } from "../app/schemas/error";
+import type { AppContext } from "./env";
+import { loadMockData } from "./mock-data";
+
+// Source of forecasts for GET /api/weather
+export interface WeatherProvider {
+  // Cache API key of a location's forecast, null when not worth caching
+  cacheKey(latitude: number, longitude: number, units: Units): string | null;
+  getForecast(
+    latitude: number,
+    longitude: number,
+    units: Units
+  ): Promise<WeatherData>;
+}
+
+// Failed forecast request; retryable for timeouts, network errors, 429 and 5xx
+class UpstreamError extends Error {
+  constructor(message: string, public retryable: boolean) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
+
+function parseForecast(source: string, value: unknown): WeatherData {
+  const result = WeatherDataSchema.safeParse(value);
+  if (!result.success) {
+    console.error(
+      `Unexpected forecast from ${source}:`,
+      toFieldErrors(result.error)
+    );
+    throw new UpstreamError(`${source} returned an unexpected forecast`, false);
+  }
+  return result.data;
+}
+
+const UPSTREAM_TIMEOUT_MS = 5000;
+// Delays before each retry; the attempt count follows from its length
+const RETRY_DELAYS_MS = [250, 1000];
+
+function forecastUrl(latitude: number, longitude: number, units: Units) {
+  const url = new URL("https://api.open-meteo.com/v1/forecast");
+  url.search = new URLSearchParams({
+    latitude: String(latitude),
+    longitude: String(longitude),
+    temperature_unit: units.temperature,
+    wind_speed_unit: units.windSpeed,
+    current: "temperature_2m,wind_speed_10m,weather_code,is_day",
+    hourly: "temperature_2m,relative_humidity_2m,wind_speed_10m",
+    daily:
+      "weather_code,temperature_2m_max,temperature_2m_min,sunrise,sunset,uv_index_max,precipitation_probability_max",
+    timezone: "auto",
+    forecast_days: "7",
+  }).toString();
+  return url.toString();
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function fetchForecastOnce(url: string): Promise<WeatherData> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new UpstreamError(
+      error instanceof Error ? error.message : "Request failed",
+      true
+    );
+  }
+  if (!response.ok) {
+    throw new UpstreamError(
+      `Open-Meteo answered ${response.status} ${response.statusText}`,
+      response.status === 429 || response.status >= 500
+    );
+  }
+  return parseForecast("Open-Meteo", await response.json());
+}
+
+// The live forecast, with a timeout and retries with backoff
+export const openMeteoProvider: WeatherProvider = {
+  cacheKey: forecastUrl,
+  async getForecast(latitude, longitude, units) {
+    const url = forecastUrl(latitude, longitude, units);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fetchForecastOnce(url);
+      } catch (error) {
+        const retryable = error instanceof UpstreamError && error.retryable;
+        if (!retryable || attempt >= RETRY_DELAYS_MS.length) throw error;
+        await sleep(RETRY_DELAYS_MS[attempt]);
+      }
+    }
+  },
+};
+
+const DEFAULT_FIXTURE = "clear";
+
+// Fixtures are metric; other units are converted the way Open-Meteo would
+const KM_PER_MILE = 1.609344;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const toFahrenheit = (celsius: number) => round1((celsius * 9) / 5 + 32);
+const toMph = (kmh: number) => round1(kmh / KM_PER_MILE);
+
+function convertUnits(weather: WeatherData, units: Units): WeatherData {
+  const temperature =
+    units.temperature === "fahrenheit" ? toFahrenheit : round1;
+  const windSpeed = units.windSpeed === "mph" ? toMph : round1;
+  return {
+    ...weather,
+    current: {
+      ...weather.current,
+      temperature_2m: temperature(weather.current.temperature_2m),
+      wind_speed_10m: windSpeed(weather.current.wind_speed_10m),
+    },
+    hourly: {
+      ...weather.hourly,
+      temperature_2m: weather.hourly.temperature_2m.map(temperature),
+      wind_speed_10m: weather.hourly.wind_speed_10m.map(windSpeed),
+    },
+    daily: {
+      ...weather.daily,
+      temperature_2m_max: weather.daily.temperature_2m_max.map(temperature),
+      temperature_2m_min: weather.daily.temperature_2m_min.map(temperature),
+    },
+  };
+}
+
+// Fixtures hold either a forecast, which may leave out the optional fields, or
+// {"error": {"status", "message"}} to act as a failing service
+type Fixture = { error?: { status: number; message?: string } };
+
+// Answers every location with a fixture of mock-data/weather, optionally
+// reporting weatherCode for now and today. Fixtures are never cached, so
+// switching scenarios takes effect immediately.
+export function mockWeatherProvider(
+  c: AppContext,
+  {
+    fixture = DEFAULT_FIXTURE,
+    weatherCode,
+  }: {
+    fixture?: string;
+    weatherCode?: number;
+  }
+): WeatherProvider {
+  return {
+    cacheKey: () => null,
+    async getForecast(_latitude, _longitude, units) {
+      let value: Fixture;
+      try {
+        value = await loadMockData(c, `weather/${fixture}`);
+      } catch {
+        throw new UpstreamError(`No weather fixture named ${fixture}`, false);
+      }
+      if (value.error) {
+        const { status, message = "Simulated failure" } = value.error;
+        throw new UpstreamError(
+          `Mock weather answered ${status} ${message}`,
+          status === 429 || status >= 500
+        );
+      }
+
+      const weather = convertUnits(parseForecast("Mock weather", value), units);
+      if (weatherCode === undefined) return weather;
+      return {
+        ...weather,
+        current: { ...weather.current, weather_code: weatherCode },
+        daily: {
+          ...weather.daily,
+          weather_code: weather.daily.weather_code.map((code, index) =>
+            index === 0 ? weatherCode : code
+          ),
+        },
+      };
+    },
+  };
+}
+
+// The mock provider when MOCK_API is enabled, Open-Meteo otherwise
+export function weatherProvider(
+  c: AppContext,
+  { mock, code }: Pick<WeatherQuery, "mock" | "code">
+): WeatherProvider {
+  return c.env.MOCK_API === true
+    ? mockWeatherProvider(c, { fixture: mock, weatherCode: code })
+    : openMeteoProvider;
+}
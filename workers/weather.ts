@@ -0,0 +1,103 @@
+import { createRoute } from "@hono/zod-openapi";
+import {
+  WeatherDataSchema,
+  WeatherQuerySchema,
+  WeatherResponseSchema,
+  type Units,
+} from "../app/schemas/weather";
+import type { AppEnv } from "./env";
+import {
+  createApi,
+  errorResponse,
+  jsonContent,
+  validationErrorResponse,
+} from "./openapi";
+import { weatherProvider } from "./weather-providers";
+
+// Forecasts younger than this are served from the cache without asking
+// the provider; older ones are kept for a day as a fallback for outages
+const FRESH_SECONDS = 10 * 60;
+const STALE_SECONDS = 24 * 60 * 60;
+
+const FETCHED_AT_HEADER = "X-Fetched-At";
+
+// Two decimals is roughly a kilometre, so nearby requests share a cache entry
+const roundCoordinate = (value: number) => Math.round(value * 100) / 100;
+
+// Weather API, mounted at /api/weather. Proxies the weather provider,
+// Open-Meteo unless MOCK_API is enabled, through the Workers Cache API.
+export const weatherApi = createApi<AppEnv>();
+
+const getWeatherRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Weather"],
+  summary: "Get the forecast for a location",
+  description:
+    "Current conditions plus hourly and 7-day forecasts from Open-Meteo. Temperatures and wind speeds are in the requested units, metric by default. Coordinates are rounded to two decimals and forecasts are cached for 10 minutes. When Open-Meteo fails, a cached forecast up to a day old is returned with stale set. With MOCK_API enabled, forecasts come from the mock-data/weather fixtures instead and are not cached.",
+  request: { query: WeatherQuerySchema },
+  responses: {
+    200: jsonContent(WeatherResponseSchema, "The forecast"),
+    422: validationErrorResponse,
+    502: errorResponse("The provider failed and no cached forecast exists"),
+  },
+});
+
+weatherApi.openapi(getWeatherRoute, async (c) => {
+  const { lat, lon, temperature_unit, wind_speed_unit, ...options } =
+    c.req.valid("query");
+  const latitude = roundCoordinate(lat);
+  const longitude = roundCoordinate(lon);
+  const units: Units = {
+    temperature: temperature_unit,
+    windSpeed: wind_speed_unit,
+  };
+  const provider = weatherProvider(c, options);
+  const key = provider.cacheKey(latitude, longitude, units);
+  const cache = key === null ? null : await caches.open("weather");
+
+  const cached = key === null ? undefined : await cache?.match(key);
+  const cachedAt = cached?.headers.get(FETCHED_AT_HEADER);
+  // Entries cached before the forecast gained fields no longer parse and
+  // are fetched again
+  const cachedWeather =
+    cached && cachedAt
+      ? WeatherDataSchema.safeParse(await cached.json())
+      : null;
+  const fallback =
+    cachedAt && cachedWeather?.success
+      ? { weather: cachedWeather.data, units, fetchedAt: cachedAt }
+      : null;
+  if (
+    fallback &&
+    Date.now() - new Date(fallback.fetchedAt).getTime() < FRESH_SECONDS * 1000
+  ) {
+    return c.json({ ...fallback, stale: false }, 200);
+  }
+
+  try {
+    const weather = await provider.getForecast(latitude, longitude, units);
+    const now = new Date().toISOString();
+    if (cache && key !== null) {
+      c.executionCtx.waitUntil(
+        cache.put(
+          key,
+          new Response(JSON.stringify(weather), {
+            headers: {
+              "Content-Type": "application/json",
+              "Cache-Control": `max-age=${STALE_SECONDS}`,
+              [FETCHED_AT_HEADER]: now,
+            },
+          })
+        )
+      );
+    }
+    return c.json({ weather, units, stale: false, fetchedAt: now }, 200);
+  } catch (error) {
+    console.error("Error fetching forecast:", error);
+    if (fallback) {
+      return c.json({ ...fallback, stale: true }, 200);
+    }
+    return c.json({ error: "Weather service unavailable" }, 502);
+  }
+});